@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The media stream server runs in-process; ws must not be bundled.
+  serverExternalPackages: ["ws"],
 };
 
 export default nextConfig;
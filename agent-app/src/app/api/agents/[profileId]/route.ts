@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { agentConfigSchema } from "@/lib/agent-config";
+import {
+  archiveProfile,
+  getProfile,
+  getVersionOutcomes,
+  listVersions,
+  saveVersion,
+} from "@/lib/agent-profiles";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ profileId: string }> };
+
+const versionSchema = z.object({
+  config: agentConfigSchema,
+  name: z.string().min(2).max(120).optional(),
+  note: z.string().max(500).optional(),
+});
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const { profileId } = await params;
+  const profile = getProfile(profileId);
+
+  if (!profile) {
+    return NextResponse.json({ error: "Unknown agent profile" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    profile: {
+      ...profile,
+      versions: listVersions(profileId),
+      outcomes: getVersionOutcomes(profileId),
+    },
+  });
+}
+
+/** Saves the submitted config as a new version; earlier versions stay intact. */
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const parsed = versionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  const { profileId } = await params;
+  const version = saveVersion(profileId, {
+    ...parsed.data,
+    createdBy: auth.user.username,
+  });
+
+  if (!version) {
+    return NextResponse.json({ error: "Unknown agent profile" }, { status: 404 });
+  }
+
+  return NextResponse.json({ version }, { status: 201 });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const { profileId } = await params;
+  if (!getProfile(profileId)) {
+    return NextResponse.json({ error: "Unknown agent profile" }, { status: 404 });
+  }
+
+  archiveProfile(profileId);
+  return NextResponse.json({ profileId, archived: true });
+}
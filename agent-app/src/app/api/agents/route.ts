@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { agentConfigSchema } from "@/lib/agent-config";
+import { createProfile, getVersion, listProfiles } from "@/lib/agent-profiles";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+const profileSchema = z.object({
+  name: z.string().min(2).max(120),
+  config: agentConfigSchema,
+  note: z.string().max(500).optional(),
+});
+
+export async function GET() {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const profiles = listProfiles().map((profile) => ({
+    ...profile,
+    latest: getVersion(profile.profileId) ?? null,
+  }));
+
+  return NextResponse.json({ profiles });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const parsed = profileSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  const version = createProfile({
+    ...parsed.data,
+    createdBy: auth.user.username,
+  });
+
+  return NextResponse.json({ version }, { status: 201 });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  AUTH_COOKIE,
+  authenticate,
+  createLoginSession,
+  ensureBootstrapAdmin,
+} from "@/lib/auth";
+
+const credentialsSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export async function POST(request: Request) {
+  const parsed = credentialsSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  ensureBootstrapAdmin();
+  const user = authenticate(parsed.data.username, parsed.data.password);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Incorrect username or password" },
+      { status: 401 },
+    );
+  }
+
+  const { token, expiresAt } = createLoginSession(user.userId);
+  const response = NextResponse.json({ user });
+  response.cookies.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+
+  return response;
+}
@@ -0,0 +1,14 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { AUTH_COOKIE, endLoginSession } from "@/lib/auth";
+
+export async function POST() {
+  const token = (await cookies()).get(AUTH_COOKIE)?.value;
+  if (token) {
+    endLoginSession(token);
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(AUTH_COOKIE);
+  return response;
+}
@@ -1,76 +1,123 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { getTwilioClient } from "@/lib/twilio";
-import {
-  createSession,
-  setCallSid,
-  updateStatus,
-  setError,
-} from "@/lib/session-store";
-
-const payloadSchema = z.object({
+import { agentConfigSchema, toSessionInput, type AgentConfigInput } from "@/lib/agent-config";
+import { agentReferenceSchema, resolveAgentReference } from "@/lib/agent-profiles";
+import { authorize } from "@/lib/auth";
+import { dialSession, resolveDialEnvironment } from "@/lib/call-launcher";
+import { scheduleCall } from "@/lib/call-scheduler";
+import { isWithinWindow, nextAllowedTime, windowForCallee } from "@/lib/calling-window";
+import { DO_NOT_CALL_ERROR, isSuppressed } from "@/lib/do-not-call";
+import { createSession } from "@/lib/session-store";
+import { isValidTimeZone } from "@/lib/time-zones";
+
+const targetSchema = z.object({
   to: z.string().min(8, "Destination number is required"),
   customerName: z.string().optional(),
-  company: z.string().optional(),
-  campaign: z.string().optional(),
-  agentName: z.string().min(2),
-  persona: z.string().optional().default(""),
-  greeting: z.string().min(6),
-  objective: z.string().min(6),
-  guardrails: z.string().optional().default(""),
-  closingStrategy: z.string().optional().default(""),
-  voice: z.string().min(2),
-  language: z.string().min(2),
-  temperature: z.number().min(0).max(1.5).default(0.6),
+  /** Callee's IANA zone, when the one inferred from `to` would be wrong. */
+  timeZone: z.string().refine(isValidTimeZone, "Unknown IANA time zone").optional(),
+  /** What to do when the callee is outside the agent's calling hours. */
+  outOfHours: z.enum(["reject", "defer"]).default("reject"),
+  /** Dial at this time instead of now. */
+  scheduledAt: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO date")
+    .transform((value) => new Date(value))
+    .refine((value) => value.getTime() > Date.now(), "Must be in the future")
+    .optional(),
 });
 
+/** Either a saved agent version or a full inline agent config. */
+const payloadSchema = z.union([
+  agentReferenceSchema.extend(targetSchema.shape),
+  agentConfigSchema.extend(targetSchema.shape),
+]);
+
 export async function POST(request: Request) {
-  const callerId = process.env.TWILIO_CALLER_ID;
-  const publicUrl = process.env.PUBLIC_BASE_URL;
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
 
-  if (!callerId) {
-    return NextResponse.json(
-      {
-        error:
-          "TWILIO_CALLER_ID is not configured. Configure it to launch outbound calls.",
-      },
-      { status: 500 },
-    );
-  }
+  const dialEnv = resolveDialEnvironment();
 
-  if (!publicUrl) {
-    return NextResponse.json(
-      {
-        error:
-          "PUBLIC_BASE_URL is missing. Set it to the publicly reachable domain handling Twilio webhooks.",
-      },
-      { status: 500 },
-    );
+  if (!dialEnv.ok) {
+    return NextResponse.json({ error: dialEnv.error }, { status: 500 });
   }
 
   let parsed:
-    | (z.infer<typeof payloadSchema> & { sessionId: string })
+    | { sessionId: string; to: string; schedule?: Parameters<typeof scheduleCall>[0] }
     | undefined;
   try {
     const body = await request.json();
     const payload = payloadSchema.parse(body);
-    parsed = { ...payload, sessionId: crypto.randomUUID() };
-    createSession({
-      sessionId: parsed.sessionId,
-      agentName: parsed.agentName,
-      persona: parsed.persona,
-      greeting: parsed.greeting,
-      objective: parsed.objective,
-      guardrails: parsed.guardrails,
-      closingStrategy: parsed.closingStrategy,
-      voice: parsed.voice,
-      language: parsed.language,
-      temperature: parsed.temperature,
-      targetNumber: parsed.to,
-      customerName: parsed.customerName,
-      company: parsed.company,
-      campaign: parsed.campaign,
-    });
+
+    if (isSuppressed(payload.to)) {
+      return NextResponse.json(
+        { error: DO_NOT_CALL_ERROR, code: "do_not_call" },
+        { status: 409 },
+      );
+    }
+
+    let agent: AgentConfigInput;
+    let agentVersion: { agentProfileId: string; agentVersion: number } | undefined;
+    if ("agentProfileId" in payload) {
+      const saved = resolveAgentReference(payload);
+      if (!saved) {
+        return NextResponse.json(
+          { error: "Agent profile or version not found" },
+          { status: 404 },
+        );
+      }
+      agent = saved.config;
+      agentVersion = {
+        agentProfileId: saved.profileId,
+        agentVersion: saved.version,
+      };
+    } else {
+      // Re-parsed so the call's own fields (`to`, `scheduledAt`, ...) stay out of the config.
+      agent = agentConfigSchema.parse(payload);
+    }
+
+    const sessionId = crypto.randomUUID();
+    let schedule: Parameters<typeof scheduleCall>[0] | undefined =
+      payload.scheduledAt && {
+        sessionId,
+        runAt: payload.scheduledAt,
+        reason: "scheduled",
+      };
+    if (agent.callingHours) {
+      const window = windowForCallee(agent.callingHours, payload.to, payload.timeZone);
+      const requested = schedule?.runAt ?? new Date();
+      if (!isWithinWindow(requested, window)) {
+        const nextAllowedAt = nextAllowedTime(requested, window);
+        if (!nextAllowedAt) {
+          return NextResponse.json(
+            { error: "The agent's calling hours never open", code: "outside_calling_hours" },
+            { status: 422 },
+          );
+        }
+        if (payload.outOfHours === "reject") {
+          return NextResponse.json(
+            {
+              error: `Outside calling hours in ${window.timeZone ?? "the server time zone"}`,
+              code: "outside_calling_hours",
+              nextAllowedAt: nextAllowedAt.toISOString(),
+            },
+            { status: 409 },
+          );
+        }
+        schedule = { sessionId, runAt: nextAllowedAt, reason: "deferred" };
+      }
+    }
+
+    parsed = { sessionId, to: payload.to, schedule };
+    createSession(
+      toSessionInput(agent, {
+        sessionId: parsed.sessionId,
+        targetNumber: payload.to,
+        customerName: payload.customerName,
+        timeZone: payload.timeZone,
+        ...agentVersion,
+      }),
+    );
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -89,43 +136,27 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unable to process request" }, { status: 400 });
   }
 
+  if (parsed.schedule) {
+    const scheduled = scheduleCall(parsed.schedule);
+
+    return NextResponse.json(
+      {
+        sessionId: parsed.sessionId,
+        scheduleId: scheduled.scheduleId,
+        status: "scheduled",
+        runAt: scheduled.runAt,
+      },
+      { status: 202 },
+    );
+  }
+
   try {
-    const client = getTwilioClient();
-    const voiceUrl = new URL("/api/voice-script", publicUrl);
-    voiceUrl.searchParams.set("session", parsed.sessionId);
-
-    const statusUrl = new URL("/api/twilio-status", publicUrl);
-    statusUrl.searchParams.set("session", parsed.sessionId);
-
-    const call = await client.calls.create({
-      to: parsed.to,
-      from: callerId,
-      url: voiceUrl.toString(),
-      method: "GET",
-      statusCallback: statusUrl.toString(),
-      statusCallbackEvent: [
-        "initiated",
-        "queued",
-        "ringing",
-        "answered",
-        "completed",
-        "busy",
-        "failed",
-        "no-answer",
-        "canceled",
-      ],
-      statusCallbackMethod: "POST",
-      machineDetection: "Enable",
-      machineDetectionTimeout: 3,
-    });
-
-    setCallSid(parsed.sessionId, call.sid);
-    updateStatus(parsed.sessionId, "queued");
+    const callSid = await dialSession(parsed.sessionId, parsed.to, dialEnv.env);
 
     return NextResponse.json(
       {
         sessionId: parsed.sessionId,
-        callSid: call.sid,
+        callSid,
         status: "queued",
       },
       { status: 201 },
@@ -133,7 +164,6 @@ export async function POST(request: Request) {
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Failed to initiate call";
-    setError(parsed.sessionId, message);
 
     return NextResponse.json({ error: message }, { status: 502 });
   }
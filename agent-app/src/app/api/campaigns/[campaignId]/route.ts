@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize, hasRole, maskPhoneNumber } from "@/lib/auth";
+import { runDialerTick, startDialer } from "@/lib/campaign-dialer";
+import { cancelScheduledCalls } from "@/lib/call-scheduler";
+import {
+  cancelPendingContacts,
+  getCampaign,
+  getCampaignProgress,
+  listContacts,
+  setCampaignStatus,
+  type CampaignStatus,
+} from "@/lib/campaign-store";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ campaignId: string }> };
+
+const actionSchema = z.object({
+  action: z.enum(["start", "pause", "resume", "cancel"]),
+});
+
+const transitions: Record<
+  z.infer<typeof actionSchema>["action"],
+  { from: CampaignStatus[]; to: CampaignStatus }
+> = {
+  start: { from: ["draft"], to: "running" },
+  pause: { from: ["running"], to: "paused" },
+  resume: { from: ["paused"], to: "running" },
+  cancel: { from: ["draft", "running", "paused"], to: "cancelled" },
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const { campaignId } = await params;
+  const campaign = getCampaign(campaignId);
+
+  if (!campaign) {
+    return NextResponse.json({ error: "Unknown campaign" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    campaign: {
+      ...campaign,
+      progress: getCampaignProgress(campaignId),
+      contacts: listContacts(campaignId).map((contact) =>
+        hasRole(auth.user, "operator")
+          ? contact
+          : { ...contact, to: maskPhoneNumber(contact.to) },
+      ),
+    },
+  });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const { campaignId } = await params;
+  const campaign = getCampaign(campaignId);
+
+  if (!campaign) {
+    return NextResponse.json({ error: "Unknown campaign" }, { status: 404 });
+  }
+
+  const parsed = actionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  const transition = transitions[parsed.data.action];
+  if (!transition.from.includes(campaign.status)) {
+    return NextResponse.json(
+      {
+        error: `Cannot ${parsed.data.action} a campaign that is ${campaign.status}`,
+      },
+      { status: 409 },
+    );
+  }
+
+  setCampaignStatus(campaignId, transition.to);
+
+  if (transition.to === "cancelled") {
+    cancelScheduledCalls(cancelPendingContacts(campaignId));
+  }
+
+  if (transition.to === "running") {
+    startDialer();
+    void runDialerTick();
+  }
+
+  return NextResponse.json({ campaignId, status: transition.to });
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { agentConfigSchema, type AgentConfigInput } from "@/lib/agent-config";
+import { agentReferenceSchema, resolveAgentReference } from "@/lib/agent-profiles";
+import { authorize } from "@/lib/auth";
+import { callingWindowSchema } from "@/lib/calling-window";
+import { runDialerTick, startDialer } from "@/lib/campaign-dialer";
+import {
+  createCampaign,
+  getCampaignProgress,
+  listCampaigns,
+  setCampaignStatus,
+} from "@/lib/campaign-store";
+import { contactSchema, parseContactsCsv } from "@/lib/contacts";
+
+export const dynamic = "force-dynamic";
+
+const payloadSchema = z
+  .object({
+    name: z.string().min(2),
+    agent: agentConfigSchema.optional(),
+    agentProfileId: agentReferenceSchema.shape.agentProfileId.optional(),
+    agentVersion: agentReferenceSchema.shape.agentVersion,
+    /** Overrides the agent's calling hours for this campaign only. */
+    callingHours: callingWindowSchema.optional(),
+    maxConcurrentCalls: z.number().int().min(1).max(50).default(2),
+    callsPerMinute: z.number().int().min(1).max(120).default(6),
+    contacts: z.array(contactSchema).optional(),
+    contactsCsv: z.string().optional(),
+    autoStart: z.boolean().default(false),
+  })
+  .refine((payload) => payload.contacts || payload.contactsCsv, {
+    message: "Provide contacts as a JSON array or CSV text",
+    path: ["contacts"],
+  })
+  .refine((payload) => payload.agent || payload.agentProfileId, {
+    message: "Provide an inline agent or a saved agentProfileId",
+    path: ["agent"],
+  });
+
+export async function GET() {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const campaigns = listCampaigns().map((campaign) => ({
+    ...campaign,
+    progress: getCampaignProgress(campaign.campaignId),
+  }));
+
+  return NextResponse.json({ campaigns });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  let payload: z.infer<typeof payloadSchema>;
+  let contacts: z.infer<typeof contactSchema>[];
+  try {
+    payload = payloadSchema.parse(await request.json());
+    contacts = payload.contacts ?? parseContactsCsv(payload.contactsCsv ?? "");
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid payload", issues: error.issues },
+        { status: 422 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unexpected payload error",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (contacts.length === 0) {
+    return NextResponse.json(
+      { error: "The contact list is empty" },
+      { status: 422 },
+    );
+  }
+
+  let agent = payload.agent as AgentConfigInput;
+  let agentVersion: { agentProfileId: string; agentVersion: number } | undefined;
+  if (payload.agentProfileId) {
+    const saved = resolveAgentReference({
+      agentProfileId: payload.agentProfileId,
+      agentVersion: payload.agentVersion,
+    });
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Agent profile or version not found" },
+        { status: 404 },
+      );
+    }
+    agent = saved.config;
+    agentVersion = { agentProfileId: saved.profileId, agentVersion: saved.version };
+  }
+
+  const campaign = createCampaign({
+    name: payload.name,
+    agent: { ...agent, callingHours: payload.callingHours ?? agent.callingHours },
+    ...agentVersion,
+    maxConcurrentCalls: payload.maxConcurrentCalls,
+    callsPerMinute: payload.callsPerMinute,
+    contacts,
+  });
+
+  if (payload.autoStart) {
+    setCampaignStatus(campaign.campaignId, "running");
+    startDialer();
+    void runDialerTick();
+  }
+
+  return NextResponse.json(
+    {
+      campaignId: campaign.campaignId,
+      status: payload.autoStart ? "running" : campaign.status,
+      contacts: contacts.length,
+    },
+    { status: 201 },
+  );
+}
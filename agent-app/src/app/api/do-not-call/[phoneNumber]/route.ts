@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { removeSuppression } from "@/lib/do-not-call";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ phoneNumber: string }> };
+
+/** Removing a number re-allows dialing it, so only admins may do it. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const auth = await authorize("admin");
+  if (!auth.ok) return auth.response;
+
+  const { phoneNumber } = await params;
+  if (!removeSuppression(decodeURIComponent(phoneNumber))) {
+    return NextResponse.json({ error: "Number is not on the list" }, { status: 404 });
+  }
+
+  return NextResponse.json({ phoneNumber, removed: true });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize, hasRole, maskPhoneNumber } from "@/lib/auth";
+import {
+  addSuppression,
+  importSuppressionsCsv,
+  listSuppressions,
+} from "@/lib/do-not-call";
+
+export const dynamic = "force-dynamic";
+
+const payloadSchema = z.union([
+  z.object({
+    phoneNumber: z.string().min(8, "Phone number is required"),
+    reason: z.string().max(500).optional(),
+    /** `manual` when added from the dashboard, `api` otherwise. */
+    source: z.enum(["manual", "api"]).default("api"),
+  }),
+  z.object({ csv: z.string().min(1) }),
+]);
+
+export async function GET() {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const revealNumbers = hasRole(auth.user, "operator");
+  const entries = listSuppressions().map((entry) =>
+    revealNumbers
+      ? entry
+      : { ...entry, phoneNumber: maskPhoneNumber(entry.phoneNumber) },
+  );
+
+  return NextResponse.json({ entries });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const parsed = payloadSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  const payload = parsed.data;
+
+  if ("csv" in payload) {
+    try {
+      const added = importSuppressionsCsv(payload.csv, auth.user.username);
+      return NextResponse.json({ added }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid CSV" },
+        { status: 422 },
+      );
+    }
+  }
+
+  const added = addSuppression({
+    phoneNumber: payload.phoneNumber,
+    source: payload.source,
+    reason: payload.reason,
+    addedBy: auth.user.username,
+  });
+
+  return NextResponse.json({ added: added ? 1 : 0 }, { status: added ? 201 : 200 });
+}
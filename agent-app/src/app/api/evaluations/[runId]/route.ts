@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getEvaluationRun, listEvaluationResults } from "@/lib/evaluation-store";
+import { buildEvaluationReport } from "@/lib/evaluations";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ runId: string }> };
+
+/** The run, its comparison report and every graded conversation. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const { runId } = await params;
+  const run = getEvaluationRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Unknown evaluation run" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    run,
+    report: buildEvaluationReport(run),
+    results: listEvaluationResults(runId),
+  });
+}
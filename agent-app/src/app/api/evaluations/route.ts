@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { agentConfigSchema } from "@/lib/agent-config";
+import { agentReferenceSchema, resolveAgentReference } from "@/lib/agent-profiles";
+import { authorize } from "@/lib/auth";
+import {
+  createEvaluationRun,
+  listEvaluationRuns,
+  type EvaluationVariant,
+} from "@/lib/evaluation-store";
+import {
+  buildEvaluationReport,
+  builtInPersonas,
+  customerModes,
+  customerPersonaSchema,
+  runEvaluation,
+  type CustomerPersona,
+} from "@/lib/evaluations";
+import { llmProvidersSchema } from "@/lib/llm-providers";
+
+export const dynamic = "force-dynamic";
+
+/** A saved version or an inline config, with an optional display label. */
+const variantSchema = z.union([
+  agentReferenceSchema.extend({ label: z.string().min(1).optional() }),
+  z.object({ label: z.string().min(1).optional(), agent: agentConfigSchema }),
+]);
+
+const builtInIds = builtInPersonas.map((persona) => persona.id) as [string, ...string[]];
+
+const payloadSchema = z
+  .object({
+    name: z.string().min(2).optional(),
+    variants: z.array(variantSchema).min(1).max(4),
+    /** Built-in persona ids or custom personas. Defaults to every built-in. */
+    personas: z
+      .array(z.union([z.enum(builtInIds), customerPersonaSchema]))
+      .min(1)
+      .max(8)
+      .optional(),
+    customerMode: z.enum(customerModes).default("scripted"),
+    maxTurns: z.number().int().min(1).max(15).default(8),
+    evaluatorProviders: llmProvidersSchema.optional(),
+  })
+  .refine(
+    (payload) =>
+      payload.customerMode !== "scripted" ||
+      (payload.personas ?? []).every((persona) => typeof persona === "string" || persona.script),
+    { message: "Scripted runs need a script for every custom persona", path: ["personas"] },
+  );
+
+export async function GET() {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const runs = listEvaluationRuns().map((run) => ({
+    ...run,
+    report: buildEvaluationReport(run),
+  }));
+
+  return NextResponse.json({ runs, personas: builtInPersonas });
+}
+
+/** Starts a run in the background; poll `GET /api/evaluations/:runId` for results. */
+export async function POST(request: Request) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  let payload: z.infer<typeof payloadSchema>;
+  try {
+    payload = payloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid payload", issues: error.issues },
+        { status: 422 },
+      );
+    }
+    return NextResponse.json({ error: "Unexpected payload error" }, { status: 400 });
+  }
+
+  const variants: EvaluationVariant[] = [];
+  for (const variant of payload.variants) {
+    if ("agent" in variant) {
+      variants.push({
+        label: variant.label ?? `${variant.agent.agentName} (inline)`,
+        agent: variant.agent,
+      });
+      continue;
+    }
+
+    const saved = resolveAgentReference(variant);
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Agent profile or version not found" },
+        { status: 404 },
+      );
+    }
+    variants.push({
+      label: variant.label ?? `${saved.config.agentName} v${saved.version}`,
+      agent: saved.config,
+      agentProfileId: saved.profileId,
+      agentVersion: saved.version,
+    });
+  }
+
+  const personas: CustomerPersona[] = (payload.personas ?? builtInIds).map((persona) =>
+    typeof persona === "string"
+      ? builtInPersonas.find((builtIn) => builtIn.id === persona)!
+      : persona,
+  );
+
+  const run = createEvaluationRun({
+    name: payload.name ?? variants.map((variant) => variant.label).join(" vs "),
+    variants,
+    personas,
+    customerMode: payload.customerMode,
+    maxTurns: payload.maxTurns,
+    evaluatorProviders: payload.evaluatorProviders,
+  });
+  void runEvaluation(run.runId);
+
+  return NextResponse.json(
+    { runId: run.runId, status: run.status, conversations: variants.length * personas.length },
+    { status: 202 },
+  );
+}
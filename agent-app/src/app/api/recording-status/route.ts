@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession, setRecording } from "@/lib/session-store";
+import { getTelephony } from "@/lib/telephony";
+
+const querySchema = z.object({
+  session: z.string().uuid(),
+});
+
+/**
+ * Recording webhook for calls placed with `recordCalls`. Stores the
+ * provider's reference to the audio on the session; the audio itself stays
+ * with the provider until it is purged.
+ */
+export async function POST(request: Request) {
+  const telephony = getTelephony();
+  const rejection = await telephony.verifyWebhook(request);
+  if (rejection) return rejection;
+
+  const query = querySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams.entries()),
+  );
+  const session = query.success ? getSession(query.data.session) : undefined;
+  if (!session) {
+    return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+  }
+
+  const event = await telephony.parseRecording(request);
+  if (!event) {
+    return NextResponse.json({ ok: true });
+  }
+
+  setRecording(session.sessionId, {
+    recordingId: event.recordingId,
+    status: event.status,
+    url: event.status === "completed" ? event.url : undefined,
+    durationSeconds: event.durationSeconds,
+    recordedAt: new Date().toISOString(),
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { cancelScheduledCall, getScheduledCall } from "@/lib/call-scheduler";
+import { cancelContactForSession } from "@/lib/campaign-store";
+import { appendMessage } from "@/lib/session-store";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ scheduleId: string }> };
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const { scheduleId } = await params;
+  if (!getScheduledCall(scheduleId)) {
+    return NextResponse.json({ error: "Scheduled call not found" }, { status: 404 });
+  }
+
+  const cancelled = cancelScheduledCall(scheduleId);
+  if (!cancelled) {
+    return NextResponse.json(
+      { error: "Only calls that have not been dialed yet can be cancelled" },
+      { status: 409 },
+    );
+  }
+
+  cancelContactForSession(cancelled.sessionId);
+  appendMessage(
+    cancelled.sessionId,
+    "system",
+    `Scheduled call cancelled by ${auth.user.username}.`,
+  );
+
+  return NextResponse.json({ scheduleId, status: cancelled.status });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize, hasRole } from "@/lib/auth";
+import { listScheduledCalls, scheduledCallStatuses } from "@/lib/call-scheduler";
+import { getSession } from "@/lib/session-store";
+import { toSessionListItem } from "@/lib/session-view";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(scheduledCallStatuses)).min(1))
+    .optional(),
+});
+
+/** Upcoming calls by default, soonest first, each with its draft session. */
+export async function GET(request: Request) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const parsed = querySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid query", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  const revealNumbers = hasRole(auth.user, "operator");
+  const calls = listScheduledCalls(parsed.data.status).flatMap((call) => {
+    const session = getSession(call.sessionId);
+    return session
+      ? [{ ...call, session: toSessionListItem(session, revealNumbers) }]
+      : [];
+  });
+
+  return NextResponse.json({ calls });
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize } from "@/lib/auth";
+import {
+  hangUpCall,
+  injectLine,
+  isLiveCall,
+  resumeAi,
+  takeOverCall,
+} from "@/lib/call-controls";
+import { resolveDialEnvironment } from "@/lib/call-launcher";
+import { getSession } from "@/lib/session-store";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+const controlSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("hangup") }),
+  z.object({ action: z.literal("inject"), line: z.string().trim().min(2).max(500) }),
+  z.object({
+    action: z.literal("takeover"),
+    /** Defaults to `OPERATOR_PHONE_NUMBER`. */
+    operatorNumber: z.string().min(8).optional(),
+  }),
+  z.object({ action: z.literal("resume") }),
+]);
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const parsed = controlSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  const { sessionId } = await params;
+  const session = getSession(sessionId);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+  }
+
+  if (!isLiveCall(session)) {
+    return NextResponse.json(
+      { error: `The call is not live (status ${session.status})` },
+      { status: 409 },
+    );
+  }
+
+  const control = parsed.data;
+  const actor = auth.user.username;
+
+  if (control.action === "inject") {
+    injectLine(session, control.line, actor);
+    return NextResponse.json({ sessionId, action: control.action });
+  }
+
+  if (control.action === "takeover" && session.aiPaused) {
+    return NextResponse.json({ error: "The call is already taken over" }, { status: 409 });
+  }
+
+  if (control.action === "resume" && !session.aiPaused) {
+    return NextResponse.json({ error: "The AI is not paused" }, { status: 409 });
+  }
+
+  const dialEnv = resolveDialEnvironment();
+  if (!dialEnv.ok) {
+    return NextResponse.json({ error: dialEnv.error }, { status: 500 });
+  }
+
+  try {
+    switch (control.action) {
+      case "hangup":
+        await hangUpCall(session, actor);
+        break;
+      case "takeover": {
+        const operatorNumber =
+          control.operatorNumber ?? process.env.OPERATOR_PHONE_NUMBER;
+        if (!operatorNumber) {
+          return NextResponse.json(
+            {
+              error:
+                "OPERATOR_PHONE_NUMBER is not configured. Set it or pass operatorNumber.",
+            },
+            { status: 500 },
+          );
+        }
+        await takeOverCall(session, operatorNumber, actor, dialEnv.env);
+        break;
+      }
+      case "resume":
+        await resumeAi(session, actor, dialEnv.env);
+        break;
+    }
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : `Failed to ${control.action} the call`;
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+
+  return NextResponse.json({ sessionId, action: control.action });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getSession } from "@/lib/session-store";
+import { getTelephony } from "@/lib/telephony";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+/** Headers passed through from the provider so browsers can seek. */
+const FORWARDED_HEADERS = ["content-type", "content-length", "content-range", "accept-ranges"];
+
+/**
+ * Streams a call recording from the telephony provider, which needs its own
+ * credentials to serve it. Operators only, like unmasked numbers.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  const { sessionId } = await params;
+  const session = getSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+  }
+
+  const { recording } = session;
+  if (!recording?.url || recording.status !== "completed") {
+    return NextResponse.json(
+      { error: recording?.status === "purged" ? "Recording was purged" : "No recording" },
+      { status: 404 },
+    );
+  }
+
+  const upstream = await getTelephony().fetchRecording(
+    recording.url,
+    request.headers.get("range") ?? undefined,
+  );
+  if (!upstream.ok || !upstream.body) {
+    return NextResponse.json(
+      { error: `Provider returned ${upstream.status} for the recording` },
+      { status: 502 },
+    );
+  }
+
+  const headers = new Headers({ "Cache-Control": "private, no-store" });
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  return new Response(upstream.body, { status: upstream.status, headers });
+}
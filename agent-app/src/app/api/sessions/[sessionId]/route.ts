@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authorize, hasRole } from "@/lib/auth";
+import { canRevealPii } from "@/lib/pii";
+import { getSession } from "@/lib/session-store";
+import { toSessionView } from "@/lib/session-view";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const { sessionId } = await params;
+  const session = getSession(sessionId);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    session: toSessionView(session, hasRole(auth.user, "operator"), canRevealPii(auth.user)),
+  });
+}
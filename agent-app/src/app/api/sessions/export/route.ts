@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize, hasRole } from "@/lib/auth";
+import { canRevealPii } from "@/lib/pii";
+import {
+  sessionExportFormats,
+  toCsv,
+  toJsonLines,
+} from "@/lib/session-export";
+import { parseSessionQuery } from "@/lib/session-query";
+import type { SessionQuery, SessionRecord } from "@/lib/session-storage";
+import { querySessions, withTranscripts, type CallSession } from "@/lib/session-store";
+import { toSessionListItem, toSessionView, type SessionView } from "@/lib/session-view";
+
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 200;
+
+/** Larger exports are cut off and flagged with `X-Export-Truncated`. */
+const MAX_EXPORT_SESSIONS = 5000;
+
+const exportSchema = z.object({
+  format: z.enum(sessionExportFormats).default("jsonl"),
+  /** Comma-separated session ids; replaces the filters when set. */
+  session: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.string().uuid()).min(1).max(PAGE_SIZE))
+    .optional(),
+});
+
+const contentTypes = {
+  jsonl: "application/x-ndjson; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+/** Every session matching the filters, in the query's `order`. */
+function collectSessions(query: SessionQuery) {
+  const sessions: SessionRecord[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = querySessions({ ...query, limit: PAGE_SIZE, cursor });
+    sessions.push(...page.sessions);
+    cursor = page.nextCursor;
+  } while (cursor && sessions.length < MAX_EXPORT_SESSIONS);
+
+  return {
+    sessions: sessions.slice(0, MAX_EXPORT_SESSIONS),
+    truncated: cursor !== undefined || sessions.length > MAX_EXPORT_SESSIONS,
+  };
+}
+
+/**
+ * JSON Lines written one page at a time as the client reads, so only a page
+ * of transcripts is in memory at once.
+ */
+function streamJsonLines(
+  records: SessionRecord[],
+  present: (session: CallSession) => SessionView,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const page = records.slice(offset, offset + PAGE_SIZE);
+      offset += PAGE_SIZE;
+      if (page.length === 0) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(toJsonLines(withTranscripts(page).map(present))));
+    },
+  });
+}
+
+/**
+ * Downloads sessions as JSON Lines (one session per line, transcript
+ * included) or CSV (one row per session, outcome fields as columns). Takes
+ * the same filters as `GET /api/sessions`, or `session=<id>,<id>` for a
+ * selection. Numbers and redacted text follow the caller's role.
+ */
+export async function GET(request: Request) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const options = exportSchema.safeParse({
+    format: searchParams.get("format") ?? undefined,
+    session: searchParams.get("session") ?? undefined,
+  });
+  const filters = parseSessionQuery(searchParams);
+  if (!options.success || !filters.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid query",
+        issues: [
+          ...(options.error?.issues ?? []),
+          ...(filters.success ? [] : filters.issues),
+        ],
+      },
+      { status: 422 },
+    );
+  }
+
+  const revealNumbers = hasRole(auth.user, "operator");
+  const revealPii = canRevealPii(auth.user);
+
+  if (filters.data.phoneNumber && !revealNumbers) {
+    return NextResponse.json(
+      { error: "Filtering by phone number requires the operator role" },
+      { status: 403 },
+    );
+  }
+
+  const { format, session: sessionIds } = options.data;
+  const { sessions, truncated } = collectSessions(
+    sessionIds ? { sessionIds, order: filters.data.order, limit: PAGE_SIZE } : filters.data,
+  );
+
+  const body =
+    format === "csv"
+      ? toCsv(sessions.map((session) => toSessionListItem(session, revealNumbers)))
+      : streamJsonLines(sessions, (session) =>
+          toSessionView(session, revealNumbers, revealPii),
+        );
+
+  const name =
+    sessionIds?.length === 1
+      ? `session-${sessionIds[0]}`
+      : `sessions-${new Date().toISOString().slice(0, 10)}`;
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentTypes[format],
+      "Content-Disposition": `attachment; filename="${name}.${format}"`,
+      "Cache-Control": "private, no-store",
+      ...(truncated ? { "X-Export-Truncated": "true" } : {}),
+    },
+  });
+}
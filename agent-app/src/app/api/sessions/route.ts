@@ -1,27 +1,44 @@
 import { NextResponse } from "next/server";
-import { serializeSessions } from "@/lib/session-store";
+import { authorize, hasRole } from "@/lib/auth";
+import { parseSessionQuery } from "@/lib/session-query";
+import { querySessions } from "@/lib/session-store";
+import { toSessionListItem } from "@/lib/session-view";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-  const sessions = serializeSessions().map((session) => ({
-    sessionId: session.sessionId,
-    status: session.status,
-    agentName: session.config.agentName,
-    voice: session.config.voice,
-    language: session.config.language,
-    objective: session.config.objective,
-    customerName: session.config.customerName ?? null,
-    targetNumber: session.config.targetNumber,
-    summary: session.summary ?? null,
-    createdAt: session.createdAt,
-    updatedAt: session.updatedAt,
-    callSid: session.callSid ?? null,
-    transcript: session.transcript,
-    lastError: session.lastError ?? null,
-    company: session.config.company ?? null,
-    campaign: session.config.campaign ?? null,
-  }));
+/**
+ * Session history without transcripts. Filters combine with AND; pass
+ * `nextCursor` back as `cursor` for the following page. Full detail lives at
+ * `/api/sessions/:sessionId`.
+ */
+export async function GET(request: Request) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
 
-  return NextResponse.json({ sessions });
+  const parsed = parseSessionQuery(new URL(request.url).searchParams);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid query", issues: parsed.issues },
+      { status: 422 },
+    );
+  }
+
+  const revealNumbers = hasRole(auth.user, "operator");
+  const query = parsed.data;
+
+  if (query.phoneNumber && !revealNumbers) {
+    return NextResponse.json(
+      { error: "Filtering by phone number requires the operator role" },
+      { status: 403 },
+    );
+  }
+
+  const page = querySessions(query);
+
+  return NextResponse.json({
+    sessions: page.sessions.map((session) =>
+      toSessionListItem(session, revealNumbers),
+    ),
+    nextCursor: page.nextCursor ?? null,
+  });
 }
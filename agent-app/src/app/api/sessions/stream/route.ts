@@ -0,0 +1,126 @@
+import { authorize, hasRole } from "@/lib/auth";
+import { canRevealPii, presentTurn } from "@/lib/pii";
+import {
+  latestSessionEventId,
+  sessionEventsSince,
+  subscribeSessionEvents,
+  type SessionEvent,
+} from "@/lib/session-events";
+import { querySessions } from "@/lib/session-store";
+import { toSessionListItem, toSessionView } from "@/lib/session-view";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const RECONNECT_DELAY_MS = 3_000;
+/** Newest sessions in a snapshot; older ones page through `/api/sessions`. */
+const SNAPSHOT_LIMIT = 50;
+
+function readLastEventId(request: Request): number | undefined {
+  const raw =
+    request.headers.get("last-event-id") ??
+    new URL(request.url).searchParams.get("lastEventId");
+  return raw ? Number(raw) : undefined;
+}
+
+function formatEvent(id: number, data: unknown): string {
+  return `id: ${id}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function snapshotPage(revealNumbers: boolean) {
+  const page = querySessions({ order: "desc", limit: SNAPSHOT_LIMIT });
+  return {
+    sessions: page.sessions.map((session) => toSessionListItem(session, revealNumbers)),
+    nextCursor: page.nextCursor ?? null,
+  };
+}
+
+/**
+ * Streams session changes as Server-Sent Events. A fresh connection, or one
+ * whose `Last-Event-ID` can no longer be replayed, starts with a `snapshot`
+ * of the newest sessions without transcripts (fetch those from
+ * `/api/sessions/:sessionId`); after that only incremental events are sent.
+ *
+ * Events come from the in-process bus in `session-events`. With several
+ * server processes sharing the database, a client only hears about changes
+ * made by the process it is connected to. Webhooks, the dialer and the
+ * scheduler must run in the same process for the live view to be complete.
+ */
+export async function GET(request: Request) {
+  const auth = await authorize("viewer");
+  if (!auth.ok) return auth.response;
+
+  const revealNumbers = hasRole(auth.user, "operator");
+  const revealPii = canRevealPii(auth.user);
+  const lastEventId = readLastEventId(request);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const present = (event: SessionEvent) => {
+    if (event.type === "session.created") {
+      return { ...event, session: toSessionView(event.session, revealNumbers, revealPii) };
+    }
+    if (event.type === "session.turn") {
+      return { ...event, turn: presentTurn(event.turn, revealPii) };
+    }
+    return event;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const backlog =
+        lastEventId === undefined ? undefined : sessionEventsSince(lastEventId);
+      if (backlog) {
+        backlog.forEach((event) => write(formatEvent(event.id, present(event))));
+      } else {
+        write(
+          formatEvent(latestSessionEventId(), {
+            type: "snapshot",
+            ...snapshotPage(revealNumbers),
+          }),
+        );
+      }
+
+      const unsubscribe = subscribeSessionEvents((event) =>
+        write(formatEvent(event.id, present(event))),
+      );
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime.
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
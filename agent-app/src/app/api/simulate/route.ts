@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { agentConfigSchema, type AgentConfigInput } from "@/lib/agent-config";
+import { agentReferenceSchema, resolveAgentReference } from "@/lib/agent-profiles";
+import { authorize } from "@/lib/auth";
+import { isTerminalStatus } from "@/lib/call-status";
+import { getSession } from "@/lib/session-store";
+import { toSessionView } from "@/lib/session-view";
+import { simulateTurn, startSimulation, type SimulationTurn } from "@/lib/simulator";
+
+export const dynamic = "force-dynamic";
+
+const MAX_MESSAGES = 30;
+
+const messagesSchema = z.array(z.string()).max(MAX_MESSAGES);
+
+/** Customer details and the messages to play after the greeting. */
+const startSchema = z.object({
+  to: z.string().min(8).optional(),
+  customerName: z.string().optional(),
+  variables: z.record(z.string(), z.string()).optional(),
+  messages: messagesSchema.default([]),
+});
+
+/** Continues an existing simulation. An empty message stands for silence. */
+const continueSchema = z.object({
+  sessionId: z.string().uuid(),
+  message: z.string().optional(),
+  messages: messagesSchema.optional(),
+});
+
+const payloadSchema = z.union([
+  continueSchema,
+  agentReferenceSchema.extend(startSchema.shape),
+  agentConfigSchema.extend(startSchema.shape),
+]);
+
+/** Plays `messages` in order, stopping early once the call has ended. */
+async function playMessages(
+  sessionId: string,
+  messages: string[],
+  turns: SimulationTurn[],
+): Promise<SimulationTurn[]> {
+  for (const message of messages) {
+    const session = getSession(sessionId);
+    if (!session || turns[turns.length - 1]?.ended) break;
+    turns.push(await simulateTurn(session, message));
+  }
+  return turns;
+}
+
+function simulationResponse(sessionId: string, turns: SimulationTurn[], status = 200) {
+  const session = getSession(sessionId)!;
+  return NextResponse.json(
+    {
+      sessionId,
+      ended: isTerminalStatus(session.status),
+      turns: turns.map(({ steps, script, ended }) => ({ steps, script, ended })),
+      session: toSessionView(session, true),
+    },
+    { status },
+  );
+}
+
+/**
+ * Runs an agent without dialing. A payload with an agent (inline or saved)
+ * starts a simulation and returns the greeting; `{ sessionId, message }`
+ * plays the next customer turn. Each turn carries the script the phone would
+ * have received.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize("operator");
+  if (!auth.ok) return auth.response;
+
+  let payload: z.infer<typeof payloadSchema>;
+  try {
+    payload = payloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid payload", issues: error.issues },
+        { status: 422 },
+      );
+    }
+    return NextResponse.json({ error: "Unexpected payload error" }, { status: 400 });
+  }
+
+  if ("sessionId" in payload) {
+    const session = getSession(payload.sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+    }
+    if (!session.simulated) {
+      return NextResponse.json(
+        { error: "Only simulated sessions can be continued here" },
+        { status: 409 },
+      );
+    }
+    if (isTerminalStatus(session.status)) {
+      return NextResponse.json({ error: "The simulated call has ended" }, { status: 409 });
+    }
+
+    const messages = payload.messages ?? [payload.message ?? ""];
+    const turns = await playMessages(session.sessionId, messages, []);
+    return simulationResponse(session.sessionId, turns);
+  }
+
+  const { to, customerName, variables, messages, ...agentInput } = payload;
+  let agent: AgentConfigInput;
+  let agentVersion: { agentProfileId: string; agentVersion: number } | undefined;
+  if ("agentProfileId" in agentInput) {
+    const saved = resolveAgentReference(agentInput);
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Agent profile or version not found" },
+        { status: 404 },
+      );
+    }
+    agent = saved.config;
+    agentVersion = { agentProfileId: saved.profileId, agentVersion: saved.version };
+  } else {
+    agent = agentInput;
+  }
+
+  const greeting = await startSimulation({
+    agent,
+    to,
+    customerName,
+    variables,
+    ...agentVersion,
+  });
+  const turns = await playMessages(greeting.sessionId, messages, [greeting]);
+  return simulationResponse(greeting.sessionId, turns, 201);
+}
@@ -1,32 +1,25 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import type { CallStatus } from "@/lib/session-store";
-import { getSession, lookupSessionByCallSid, setSummary, updateStatus } from "@/lib/session-store";
-import { getOpenAIClient } from "@/lib/openai";
+import { isTerminalStatus, mapTwilioStatus } from "@/lib/call-status";
+import { markContactRetrying, recordContactOutcome } from "@/lib/campaign-store";
+import { scheduleRetryIfEligible } from "@/lib/retry-policy";
+import {
+  getSession,
+  lookupSessionByCallSid,
+  setAnsweredBy,
+  setSummary,
+  updateStatus,
+  type CallSession,
+} from "@/lib/session-store";
+import { completeChat } from "@/lib/llm-providers";
+import { extractOutcome } from "@/lib/outcomes";
+import { getTelephony } from "@/lib/telephony";
+import { isMachineAnswer, isReadyForVoicemail, leaveVoicemail } from "@/lib/voicemail";
 
 const querySchema = z.object({
   session: z.string().uuid().optional(),
 });
 
-function mapTwilioStatus(status: string): CallStatus {
-  switch (status) {
-    case "initiated":
-    case "queued":
-      return "queued";
-    case "ringing":
-      return "ringing";
-    case "answered":
-    case "in-progress":
-      return "in-progress";
-    case "completed":
-      return "completed";
-    case "no-answer":
-      return "no-answer";
-    default:
-      return "failed";
-  }
-}
-
 async function maybeSummarize(sessionId: string) {
   const session = getSession(sessionId);
 
@@ -35,14 +28,12 @@ async function maybeSummarize(sessionId: string) {
   }
 
   try {
-    const openai = getOpenAIClient();
     const transcriptText = session.transcript
       .filter((turn) => turn.role !== "system")
       .map((turn) => `${turn.role.toUpperCase()}: ${turn.content}`)
       .join("\n");
 
-    const completion = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+    const message = await completeChat(session.config.llmProviders, {
       temperature: 0.4,
       messages: [
         {
@@ -58,7 +49,7 @@ async function maybeSummarize(sessionId: string) {
     });
 
     const summary =
-      completion.choices[0]?.message?.content?.trim() ??
+      message.content?.trim() ??
       "Call completed. Summary unavailable.";
 
     setSummary(sessionId, summary);
@@ -67,34 +58,75 @@ async function maybeSummarize(sessionId: string) {
   }
 }
 
+/**
+ * Providers that detect machines after answer (Vonage) report it here while
+ * the conversation script is already running. Replace it with the voicemail.
+ * Twilio detects at answer, so the voice webhook has handled it already.
+ */
+async function leaveLateVoicemail(session: CallSession, answeredBy: string) {
+  if (
+    !session.callSid ||
+    isTerminalStatus(session.status) ||
+    !isMachineAnswer(answeredBy) ||
+    !isReadyForVoicemail(session.config, answeredBy)
+  ) {
+    return;
+  }
+
+  try {
+    await getTelephony().play(session.callSid, leaveVoicemail(session, answeredBy), session.config);
+  } catch (error) {
+    console.error("Failed to leave voicemail", error);
+  }
+}
+
+/** Call status webhook for whichever telephony provider is configured. */
 export async function POST(request: Request) {
+  const telephony = getTelephony();
+  const rejection = await telephony.verifyWebhook(request);
+  if (rejection) return rejection;
+
   const url = new URL(request.url);
   const query = querySchema.safeParse(
     Object.fromEntries(url.searchParams.entries()),
   );
 
-  const formData = await request.formData();
-  const callSid = formData.get("CallSid") as string | null;
-  const status = (formData.get("CallStatus") as string | null)?.toLowerCase();
+  const { callId, status, answeredBy } = await telephony.parseStatus(request);
 
   let session =
     query.success && query.data.session
       ? getSession(query.data.session)
       : undefined;
 
-  if (!session && callSid) {
-    session = lookupSessionByCallSid(callSid);
+  if (!session && callId) {
+    session = lookupSessionByCallSid(callId);
+  }
+
+  if (session && answeredBy && session.answeredBy !== answeredBy) {
+    setAnsweredBy(session.sessionId, answeredBy);
+    await leaveLateVoicemail(session, answeredBy);
   }
 
   if (!session || !status) {
     return NextResponse.json({ ok: true });
   }
 
-  const mappedStatus = mapTwilioStatus(status);
-  updateStatus(session.sessionId, mappedStatus);
+  // A voicemail drop ends as a normal `completed` call; keep the outcome.
+  const mappedStatus =
+    session.status === "voicemail" && status === "completed"
+      ? "voicemail"
+      : mapTwilioStatus(status);
+  updateStatus(session.sessionId, mappedStatus, status);
+  recordContactOutcome(session.sessionId, mappedStatus);
+
+  const retry = scheduleRetryIfEligible(session, status);
+  if (retry) {
+    markContactRetrying(session.sessionId, retry.sessionId);
+  }
 
-  if (status === "completed") {
+  if (mappedStatus === "completed") {
     await maybeSummarize(session.sessionId);
+    await extractOutcome(session.sessionId);
   }
 
   return NextResponse.json({ ok: true });
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize, createUser, listUsers, roles } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+const userSchema = z.object({
+  username: z.string().min(3).max(64),
+  password: z.string().min(10, "Passwords need at least 10 characters"),
+  role: z.enum(roles),
+});
+
+export async function GET() {
+  const auth = await authorize("admin");
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ users: listUsers() });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize("admin");
+  if (!auth.ok) return auth.response;
+
+  const parsed = userSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", issues: parsed.error.issues },
+      { status: 422 },
+    );
+  }
+
+  try {
+    return NextResponse.json({ user: createUser(parsed.data) }, { status: 201 });
+  } catch {
+    return NextResponse.json(
+      { error: "That username is already taken" },
+      { status: 409 },
+    );
+  }
+}
@@ -1,57 +1,48 @@
 import { NextResponse } from "next/server";
-import VoiceResponse from "twilio/lib/twiml/VoiceResponse";
 import { z } from "zod";
 import {
   appendMessage,
-  ensureGreetingCaptured,
-  fallbackLine,
-  getMessagesForModel,
   getSession,
-  updateStatus,
+  setAiPaused,
+  setAnsweredBy,
+  setPendingLine,
+  type CallSession,
+  type TransferTrigger,
 } from "@/lib/session-store";
-import { getOpenAIClient } from "@/lib/openai";
+import {
+  conversationTurn,
+  listen,
+  openingSteps,
+  transferCall,
+} from "@/lib/call-script";
+import { getTelephony, type VoiceStep } from "@/lib/telephony";
+import {
+  finishTransfer,
+  markTransferConnected,
+  summarizeForWhisper,
+  transferTarget,
+  TRANSFER_FAILED_LINE,
+} from "@/lib/transfers";
+import { isMachineAnswer, leaveVoicemail } from "@/lib/voicemail";
 
 const voiceParamsSchema = z.object({
   session: z.string().uuid(),
 });
 
-function xmlResponse(twiml: VoiceResponse): Response {
-  return new Response(twiml.toString(), {
-    status: 200,
-    headers: { "Content-Type": "text/xml" },
-  });
-}
+const RESUME_PROMPT = "Thanks so much for holding. Where were we?";
 
-function buildActionUrl(requestUrl: string, sessionId: string): string {
-  const url = new URL(requestUrl);
-  url.searchParams.set("session", sessionId);
-  return url.toString();
-}
-
-function buildGather(
-  twiml: VoiceResponse,
-  sessionId: string,
-  requestUrl: string,
-  language: string,
-  voice: string,
-  prompt: string,
-) {
-  const gather = twiml.gather({
-    input: ["speech"],
-    action: buildActionUrl(requestUrl, sessionId),
-    method: "POST",
-    speechTimeout: "auto",
-    speechModel: "experimental_conversations",
-    language: language as any,
-  });
-
-  gather.say({ voice: voice as any, language: language as any }, prompt);
-  twiml.redirect({ method: "POST" }, buildActionUrl(requestUrl, sessionId));
+function respond(session: CallSession, steps: VoiceStep[]): Response {
+  return getTelephony().render(steps, session.config);
 }
 
 export async function GET(request: Request) {
+  const telephony = getTelephony();
+  const rejection = await telephony.verifyWebhook(request);
+  if (rejection) return rejection;
+
+  const searchParams = new URL(request.url).searchParams;
   const result = voiceParamsSchema.safeParse(
-    Object.fromEntries(new URL(request.url).searchParams.entries()),
+    Object.fromEntries(searchParams.entries()),
   );
 
   if (!result.success) {
@@ -67,28 +58,111 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: "Unknown session" }, { status: 404 });
   }
 
-  const twiml = new VoiceResponse();
-  ensureGreetingCaptured(session.sessionId, session.config.greeting);
-  updateStatus(session.sessionId, "in-progress");
+  // Vonage fetches redirected and whisper scripts with GET.
+  const step = searchParams.get("step");
+  if (step) {
+    return handleStep(request, session, step);
+  }
 
-  twiml.say(
-    {
-      voice: session.config.voice as any,
-      language: session.config.language as any,
-    },
-    session.config.greeting,
-  );
+  const { answeredBy } = telephony.parseAnswer(request);
+  if (answeredBy) {
+    setAnsweredBy(session.sessionId, answeredBy);
+  }
+
+  if (isMachineAnswer(answeredBy)) {
+    return respond(session, leaveVoicemail(session, answeredBy));
+  }
+
+  return respond(session, openingSteps(request.url, session));
+}
+
+/**
+ * Hands the call back to the agent after a takeover, either because an
+ * operator pressed resume or because the operator leg hung up.
+ */
+async function handleResume(
+  request: Request,
+  session: CallSession,
+  step: string,
+): Promise<Response> {
+  if (step === "operator-done") {
+    const result = await getTelephony().parseDialResult(request);
+    if (!result) return new Response(null, { status: 204 });
+
+    setAiPaused(session.sessionId, false);
+    appendMessage(
+      session.sessionId,
+      "system",
+      `Operator leg ended (${result.status}). The AI resumed.`,
+    );
+  }
+
+  const prompt = session.pendingLine ?? RESUME_PROMPT;
+  if (session.pendingLine) {
+    setPendingLine(session.sessionId, undefined);
+  }
+  appendMessage(session.sessionId, "assistant", prompt);
+
+  return respond(session, [listen(request.url, session, prompt)]);
+}
+
+/** Plays the briefing to the human leg before it is bridged to the customer. */
+async function handleWhisper(session: CallSession): Promise<Response> {
+  markTransferConnected(session);
+  const summary = await summarizeForWhisper(session);
+  appendMessage(session.sessionId, "system", `Briefed the colleague: ${summary}`);
+
+  return respond(session, [
+    { type: "say", text: `Incoming transfer from ${session.config.agentName}. ${summary}` },
+  ]);
+}
 
-  buildGather(
-    twiml,
+/**
+ * Records the transfer outcome. A completed bridge ends the call; otherwise
+ * the AI picks the conversation back up.
+ */
+async function handleTransferDone(
+  request: Request,
+  session: CallSession,
+): Promise<Response> {
+  const result = await getTelephony().parseDialResult(request);
+  if (!result) return new Response(null, { status: 204 });
+
+  finishTransfer(session, result.status, result.durationSeconds);
+  appendMessage(
     session.sessionId,
-    request.url,
-    session.config.language,
-    session.config.voice,
-    session.config.openingQuestion,
+    "system",
+    `Transfer to ${session.transfer?.to ?? "colleague"} ended (${result.status}).`,
   );
 
-  return xmlResponse(twiml);
+  if (result.status === "completed") {
+    return respond(session, [{ type: "hangup" }]);
+  }
+
+  appendMessage(session.sessionId, "assistant", TRANSFER_FAILED_LINE);
+  return respond(session, [listen(request.url, session, TRANSFER_FAILED_LINE)]);
+}
+
+/**
+ * The media stream server redirects a streamed call here once the transfer
+ * line has played, with the trigger and reason in the query.
+ */
+function handleEscalate(request: Request, session: CallSession): Response {
+  const searchParams = new URL(request.url).searchParams;
+  const to = transferTarget(session.config);
+
+  if (!to) {
+    appendMessage(session.sessionId, "assistant", TRANSFER_FAILED_LINE);
+    return respond(session, [listen(request.url, session, TRANSFER_FAILED_LINE)]);
+  }
+
+  return respond(
+    session,
+    transferCall(request.url, session, to, {
+      trigger: (searchParams.get("trigger") ?? "model") as TransferTrigger,
+      reason: searchParams.get("reason") ?? "Escalated by the agent",
+    }),
+  );
 }
 
 async function handleConversationTurn(
@@ -100,75 +174,35 @@ async function handleConversationTurn(
     return NextResponse.json({ error: "Unknown session" }, { status: 404 });
   }
 
-  const formData = await request.formData();
-  const speechResult = (formData.get("SpeechResult") as string | null)?.trim() ?? "";
-
-  updateStatus(sessionId, "in-progress");
-
-  const twiml = new VoiceResponse();
-
-  if (!speechResult) {
-    const prompt = "I didn't quite catch that. Could you say that again?";
-    twiml.say(
-      {
-        voice: session.config.voice as any,
-        language: session.config.language as any,
-      },
-      prompt,
-    );
-    buildGather(
-      twiml,
-      sessionId,
-      request.url,
-      session.config.language,
-      session.config.voice,
-      session.config.openingQuestion,
-    );
-    return xmlResponse(twiml);
-  }
-
-  appendMessage(sessionId, "user", speechResult);
-
-  let assistantReply = "";
-  try {
-    const openai = getOpenAIClient();
-    const completion = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
-      messages: getMessagesForModel(sessionId),
-      temperature: session.config.temperature,
-    });
-
-    assistantReply =
-      completion.choices[0]?.message?.content?.trim() ?? fallbackLine();
-  } catch {
-    assistantReply = fallbackLine();
-  }
-
-  appendMessage(sessionId, "assistant", assistantReply);
-
-  const gather = twiml.gather({
-    input: ["speech"],
-    action: buildActionUrl(request.url, sessionId),
-    method: "POST",
-    speechTimeout: "auto",
-    speechModel: "experimental_conversations",
-    language: session.config.language as any,
-  });
-
-  gather.say(
-    {
-      voice: session.config.voice as any,
-      language: session.config.language as any,
-    },
-    assistantReply,
-  );
-
-  twiml.redirect({ method: "POST" }, buildActionUrl(request.url, sessionId));
+  const speechResult = await getTelephony().parseSpeech(request);
+  return respond(session, await conversationTurn(request.url, session, speechResult));
+}
 
-  return xmlResponse(twiml);
+/** Mid-call scripts addressed by `step`, reached by redirects and dial callbacks. */
+function handleStep(
+  request: Request,
+  session: CallSession,
+  step: string,
+): Promise<Response> | Response {
+  if (step === "resume" || step === "operator-done") {
+    return handleResume(request, session, step);
+  }
+  if (step === "whisper") {
+    return handleWhisper(session);
+  }
+  if (step === "transfer-done") {
+    return handleTransferDone(request, session);
+  }
+  if (step === "escalate") {
+    return handleEscalate(request, session);
+  }
+  return NextResponse.json({ error: "Unknown step" }, { status: 400 });
 }
 
 export async function POST(request: Request) {
+  const rejection = await getTelephony().verifyWebhook(request);
+  if (rejection) return rejection;
+
   const url = new URL(request.url);
   const sessionId = url.searchParams.get("session");
 
@@ -176,5 +210,14 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Missing session" }, { status: 400 });
   }
 
+  const step = url.searchParams.get("step");
+  if (step) {
+    const session = getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+    }
+    return handleStep(request, session, step);
+  }
+
   return handleConversationTurn(request, sessionId);
 }
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { LogIn, ShieldCheck } from "lucide-react";
+import styles from "../page.module.css";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const signIn = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Unable to sign in");
+      }
+
+      router.replace("/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to sign in.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.inner}>
+        <form className={`${styles.card} ${styles.span5}`} onSubmit={signIn}>
+          <div className={styles.cardHeader}>
+            <div className={styles.cardTitleRow}>
+              <ShieldCheck size={20} />
+              <h1 className={styles.cardTitle}>Sign in to the calling studio</h1>
+            </div>
+            <p className={styles.cardSubtitle}>
+              Ask an admin for an account. Viewers can monitor sessions, operators can
+              also launch calls and campaigns.
+            </p>
+          </div>
+
+          <div className={styles.formGrid}>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Username</strong>
+              </span>
+              <input
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                autoComplete="username"
+              />
+            </div>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Password</strong>
+              </span>
+              <input
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+          </div>
+
+          {error && <p className={`${styles.callout} ${styles.danger}`}>{error}</p>}
+
+          <div className={styles.buttonRow}>
+            <button className={styles.buttonPrimary} type="submit" disabled={isSubmitting}>
+              <LogIn size={18} />
+              {isSubmitting ? "Signing in..." : "Sign in"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,81 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
 import {
   Activity,
   ClipboardList,
+  LogOut,
   PhoneCall,
   Settings2,
   ShieldCheck,
   Sparkles,
 } from "lucide-react";
+import { AgentEvaluations } from "@/components/AgentEvaluations";
+import { AgentProfiles, type LoadedAgent } from "@/components/AgentProfiles";
+import { CallControls } from "@/components/CallControls";
+import { CallSimulator } from "@/components/CallSimulator";
+import { CampaignDialer } from "@/components/CampaignDialer";
+import { DoNotCallList } from "@/components/DoNotCallList";
+import { ScheduledCalls } from "@/components/ScheduledCalls";
+import { SessionExports } from "@/components/SessionExports";
+import type { AgentConfigInput } from "@/lib/agent-config";
+import type { AgentProfileVersion } from "@/lib/agent-profiles";
+import type { LlmProviderSpec } from "@/lib/llm-providers";
+import type { CallOutcome, OutcomeField } from "@/lib/outcomes";
+import type { RedactionConfig } from "@/lib/pii";
+import type { GuardrailViolation, ReplyPolicy } from "@/lib/reply-policy";
+import type { RetryPolicy } from "@/lib/retry-policy";
 import styles from "./page.module.css";
 
 type TranscriptTurn = {
   id: string;
-  role: "assistant" | "user" | "system";
+  role: "assistant" | "user" | "system" | "tool";
   content: string;
   timestamp: string;
+  /** Only sent to roles allowed to reveal redacted text. */
+  original?: string;
+};
+
+type CallTransfer = {
+  to: string;
+  trigger: "keyword" | "intent" | "model";
+  reason: string;
+  status: string;
+  startedAt: string;
+  endedAt?: string;
+  durationSeconds?: number;
+};
+
+type CallRecordingSnapshot = {
+  status: "completed" | "failed" | "purged";
+  durationSeconds: number | null;
+  recordedAt: string;
+  purgedAt: string | null;
 };
 
 type SessionSnapshot = {
   sessionId: string;
-  status: "draft" | "queued" | "ringing" | "in-progress" | "completed" | "no-answer" | "failed";
+  status:
+    | "draft"
+    | "queued"
+    | "ringing"
+    | "in-progress"
+    | "completed"
+    | "no-answer"
+    | "voicemail"
+    | "failed";
+  twilioStatus: string | null;
+  attempt: number;
+  originalSessionId: string | null;
+  answeredBy: string | null;
+  agentProfileId: string | null;
+  agentVersion: number | null;
+  simulated: boolean;
+  aiPaused: boolean;
+  pendingLine: string | null;
+  transfer: CallTransfer | null;
+  recording: CallRecordingSnapshot | null;
   agentName: string;
   voice: string;
   language: string;
@@ -28,14 +83,70 @@ type SessionSnapshot = {
   customerName: string | null;
   objective: string;
   summary: string | null;
+  outcome: CallOutcome | null;
+  guardrailViolations: GuardrailViolation[];
   createdAt: string;
   updatedAt: string;
   transcript: TranscriptTurn[];
   lastError: string | null;
   company: string | null;
   campaign: string | null;
+  /** False until the full transcript has been fetched; snapshots omit it. */
+  transcriptLoaded: boolean;
 };
 
+type SessionListItem = Omit<SessionSnapshot, "transcript" | "transcriptLoaded">;
+type SessionView = Omit<SessionSnapshot, "transcriptLoaded">;
+
+/** Messages from `/api/sessions/stream`; see `SessionEventPayload`. */
+type StreamEvent =
+  | { type: "snapshot"; sessions: SessionListItem[] }
+  | { type: "session.created"; sessionId: string; session: SessionView }
+  | {
+      type: "session.status";
+      sessionId: string;
+      status: SessionSnapshot["status"];
+      twilioStatus?: string;
+      answeredBy?: string;
+      callSid?: string;
+      updatedAt: string;
+    }
+  | {
+      type: "session.control";
+      sessionId: string;
+      aiPaused: boolean;
+      pendingLine?: string;
+      updatedAt: string;
+    }
+  | {
+      type: "session.transfer";
+      sessionId: string;
+      transfer: CallTransfer;
+      updatedAt: string;
+    }
+  | {
+      type: "session.recording";
+      sessionId: string;
+      recording: CallRecordingSnapshot;
+      updatedAt: string;
+    }
+  | { type: "session.turn"; sessionId: string; turn: TranscriptTurn; updatedAt: string }
+  | { type: "session.summary"; sessionId: string; summary: string; updatedAt: string }
+  | { type: "session.outcome"; sessionId: string; outcome: CallOutcome; updatedAt: string }
+  | {
+      type: "session.guardrail";
+      sessionId: string;
+      violations: GuardrailViolation[];
+      updatedAt: string;
+    }
+  | {
+      type: "session.error";
+      sessionId: string;
+      status: SessionSnapshot["status"];
+      lastError: string;
+      updatedAt: string;
+    };
+
 type VoiceOption = {
   id: string;
   label: string;
@@ -83,6 +194,7 @@ const statusStyles: Record<SessionSnapshot["status"], string> = {
   "in-progress": styles.success,
   completed: styles.success,
   "no-answer": styles.warning,
+  voicemail: styles.warning,
   failed: styles.danger,
 };
 
@@ -93,9 +205,48 @@ const statusLabels: Record<SessionSnapshot["status"], string> = {
   "in-progress": "Live",
   completed: "Completed",
   "no-answer": "No answer",
+  voicemail: "Voicemail",
   failed: "Failed",
 };
 
+const liveStatuses = new Set<SessionSnapshot["status"]>([
+  "queued",
+  "ringing",
+  "in-progress",
+]);
+
+const retryableStatuses = ["busy", "no-answer", "failed", "canceled"];
+
+/** Built-in tools registered in `src/lib/agent-tools.ts`. */
+const agentToolOptions = [
+  { id: "check_availability", label: "Check availability" },
+  { id: "book_appointment", label: "Book appointment" },
+  { id: "lookup_customer", label: "Look up customer" },
+  { id: "transfer_call", label: "Transfer call" },
+  { id: "end_call", label: "End call" },
+];
+
+const defaultOutcomeFields: OutcomeField[] = [
+  { name: "interested", type: "boolean", description: "Customer wants to continue" },
+  {
+    name: "appointmentTime",
+    type: "datetime",
+    description: "Agreed consultation or callback time",
+  },
+  { name: "objections", type: "list", description: "Concerns the customer raised" },
+  {
+    name: "sentiment",
+    type: "enum",
+    options: ["positive", "neutral", "negative"],
+  },
+  {
+    name: "nextStepOwner",
+    type: "enum",
+    options: ["agent", "customer", "none"],
+    description: "Who owes the next action",
+  },
+];
+
 const defaultAgent = {
   agentName: "Aurora Hale",
   persona:
@@ -112,16 +263,53 @@ const defaultAgent = {
   temperature: 0.65,
   company: "Nebula Solar",
   campaign: "Winter Savings Revival",
+  maxAttempts: 1,
+  retryBackoffMinutes: 30,
+  retryOn: ["busy", "no-answer"],
+  callingWindowStart: "09:00",
+  callingWindowEnd: "20:00",
+  enforceCallingHours: true,
+  callingHoursStart: "08:00",
+  callingHoursEnd: "21:00",
+  bookCallbacks: true,
+  tools: ["check_availability", "book_appointment", "lookup_customer", "end_call"],
+  transferNumber: "",
+  escalationKeywords: "",
+  whisperSummary: true,
+  conversationMode: "gather",
+  outcomeFields: JSON.stringify(defaultOutcomeFields, null, 2),
+  llmProviders: "",
+  replyPolicy: "",
+  redaction: "",
+  recordCalls: false,
+  recordingAnnouncement: "This call is recorded for quality and training purposes.",
+  voicemailMessage:
+    "Hi {{customerName}}, this is Aurora with {{company}} following up on your solar savings review. Give us a call back at {{callbackNumber}} whenever it suits you. Thanks!",
+  callbackNumber: "",
 };
 
+const numericAgentKeys = new Set<keyof typeof defaultAgent>([
+  "temperature",
+  "maxAttempts",
+  "retryBackoffMinutes",
+]);
+
 const defaultCall = {
   customerName: "",
   phoneNumber: "",
+  timeZone: "",
+  outOfHours: "reject",
+  scheduledAt: "",
 };
 
 type AgentConfig = typeof defaultAgent;
 type CallConfig = typeof defaultCall;
 
+type CurrentUser = {
+  username: string;
+  role: "admin" | "operator" | "viewer";
+};
+
 type Feedback = {
   type: "success" | "error";
   message: string;
@@ -141,9 +329,141 @@ function formatTimestamp(timestamp?: string) {
 function formatRole(role: TranscriptTurn["role"]) {
   if (role === "assistant") return "Agent";
   if (role === "user") return "Customer";
+  if (role === "tool") return "Tool";
   return "System";
 }
 
+function parseList(value: string): string[] | undefined {
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/** `undefined` for an empty or malformed list; the server validates the rest. */
+function parseJsonList<T>(value: string): T[] | undefined {
+  if (!value.trim()) return undefined;
+  try {
+    const items = JSON.parse(value);
+    return Array.isArray(items) && items.length > 0 ? items : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** `undefined` for an empty or malformed object; the server validates the rest. */
+function parseJsonObject<T>(value: string): T | undefined {
+  if (!value.trim()) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function formatOutcomeValue(value: CallOutcome[string]) {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "none";
+  return String(value);
+}
+
+function toAgentPayload(agentConfig: AgentConfig): AgentConfigInput {
+  return {
+    company: agentConfig.company.trim() || undefined,
+    campaign: agentConfig.campaign.trim() || undefined,
+    agentName: agentConfig.agentName.trim(),
+    persona: agentConfig.persona,
+    greeting: agentConfig.greeting,
+    objective: agentConfig.objective,
+    guardrails: agentConfig.guardrails,
+    closingStrategy: agentConfig.closingStrategy,
+    voice: agentConfig.voice,
+    language: agentConfig.language,
+    temperature: agentConfig.temperature,
+    retryPolicy:
+      agentConfig.maxAttempts > 1
+        ? {
+            maxAttempts: agentConfig.maxAttempts,
+            backoffMinutes: agentConfig.retryBackoffMinutes,
+            retryOn: agentConfig.retryOn as RetryPolicy["retryOn"],
+            callingWindow: {
+              start: agentConfig.callingWindowStart,
+              end: agentConfig.callingWindowEnd,
+              timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            },
+          }
+        : undefined,
+    callingHours: agentConfig.enforceCallingHours
+      ? { start: agentConfig.callingHoursStart, end: agentConfig.callingHoursEnd }
+      : undefined,
+    bookCallbacks: agentConfig.bookCallbacks,
+    tools: agentConfig.tools.length > 0 ? agentConfig.tools : undefined,
+    transferNumber: agentConfig.transferNumber.trim() || undefined,
+    escalationKeywords: parseList(agentConfig.escalationKeywords),
+    whisperSummary: agentConfig.whisperSummary,
+    conversationMode:
+      agentConfig.conversationMode === "stream" ? ("stream" as const) : undefined,
+    outcomeFields: parseJsonList<OutcomeField>(agentConfig.outcomeFields),
+    llmProviders: parseJsonList<LlmProviderSpec>(agentConfig.llmProviders),
+    replyPolicy: parseJsonObject<ReplyPolicy>(agentConfig.replyPolicy),
+    redaction: parseJsonObject<RedactionConfig>(agentConfig.redaction),
+    recordCalls: agentConfig.recordCalls || undefined,
+    recordingAnnouncement: agentConfig.recordCalls
+      ? agentConfig.recordingAnnouncement.trim() || undefined
+      : undefined,
+    voicemailMessage: agentConfig.voicemailMessage.trim() || undefined,
+    callbackNumber: agentConfig.callbackNumber.trim() || undefined,
+  };
+}
+
+/** Inverse of `toAgentPayload`, for loading a saved version into the form. */
+function toAgentForm(config: AgentConfigInput): AgentConfig {
+  const { retryPolicy } = config;
+  return {
+    agentName: config.agentName,
+    persona: config.persona,
+    greeting: config.greeting,
+    objective: config.objective,
+    guardrails: config.guardrails,
+    closingStrategy: config.closingStrategy,
+    voice: config.voice,
+    language: config.language,
+    temperature: config.temperature,
+    company: config.company ?? "",
+    campaign: config.campaign ?? "",
+    maxAttempts: retryPolicy?.maxAttempts ?? 1,
+    retryBackoffMinutes: retryPolicy?.backoffMinutes ?? defaultAgent.retryBackoffMinutes,
+    retryOn: retryPolicy ? [...retryPolicy.retryOn] : defaultAgent.retryOn,
+    callingWindowStart:
+      retryPolicy?.callingWindow?.start ?? defaultAgent.callingWindowStart,
+    callingWindowEnd: retryPolicy?.callingWindow?.end ?? defaultAgent.callingWindowEnd,
+    enforceCallingHours: Boolean(config.callingHours),
+    callingHoursStart: config.callingHours?.start ?? defaultAgent.callingHoursStart,
+    callingHoursEnd: config.callingHours?.end ?? defaultAgent.callingHoursEnd,
+    bookCallbacks: config.bookCallbacks ?? false,
+    tools: config.tools ? [...config.tools] : [],
+    transferNumber: config.transferNumber ?? "",
+    escalationKeywords: config.escalationKeywords?.join(", ") ?? "",
+    whisperSummary: config.whisperSummary ?? false,
+    conversationMode: config.conversationMode ?? "gather",
+    outcomeFields: config.outcomeFields
+      ? JSON.stringify(config.outcomeFields, null, 2)
+      : "",
+    llmProviders: config.llmProviders
+      ? JSON.stringify(config.llmProviders, null, 2)
+      : "",
+    replyPolicy: config.replyPolicy ? JSON.stringify(config.replyPolicy, null, 2) : "",
+    redaction: config.redaction ? JSON.stringify(config.redaction, null, 2) : "",
+    recordCalls: config.recordCalls ?? false,
+    recordingAnnouncement: config.recordingAnnouncement ?? "",
+    voicemailMessage: config.voicemailMessage ?? "",
+    callbackNumber: config.callbackNumber ?? "",
+  };
+}
+
 export default function Home() {
   const [agentConfig, setAgentConfig] = useState<AgentConfig>(defaultAgent);
   const [callConfig, setCallConfig] = useState<CallConfig>(defaultCall);
@@ -151,7 +471,33 @@ export default function Home() {
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [isLaunching, setIsLaunching] = useState(false);
   const [feedback, setFeedback] = useState<Feedback | null>(null);
-  const [pollingError, setPollingError] = useState<string | null>(null);
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const [scheduledRefreshKey, setScheduledRefreshKey] = useState(0);
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  const [loadedAgent, setLoadedAgent] = useState<
+    (LoadedAgent & { snapshot: string }) | null
+  >(null);
+  const router = useRouter();
+  const canOperate = currentUser?.role === "operator" || currentUser?.role === "admin";
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/auth/me", { cache: "no-store" })
+      .then(async (response) => {
+        if (response.status === 401) {
+          router.replace("/login");
+          return;
+        }
+        const data = (await response.json()) as { user: CurrentUser };
+        if (!cancelled) setCurrentUser(data.user);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
 
   useEffect(() => {
     const selectedVoice = voiceOptions.find(
@@ -166,58 +512,205 @@ export default function Home() {
   }, [agentConfig.voice, agentConfig.language]);
 
   useEffect(() => {
-    let cancelled = false;
-    let timer: NodeJS.Timeout;
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let retryDelay = 1000;
+    let timer: NodeJS.Timeout | undefined;
+    let closed = false;
 
-    const poll = async () => {
-      try {
-        const response = await fetch("/api/sessions", {
-          cache: "no-store",
-        });
+    const patchSession = (
+      sessionId: string,
+      apply: (session: SessionSnapshot) => SessionSnapshot,
+    ) => {
+      setSessions((prev) =>
+        prev.map((session) => (session.sessionId === sessionId ? apply(session) : session)),
+      );
+    };
 
-        if (!response.ok) {
-          throw new Error(`Status ${response.status}`);
-        }
+    const applyEvent = (event: StreamEvent) => {
+      switch (event.type) {
+        case "snapshot":
+          setSessions(
+            event.sessions.map((session) => ({
+              ...session,
+              transcript: [],
+              transcriptLoaded: false,
+            })),
+          );
+          setActiveSessionId((prev) =>
+            prev && event.sessions.some((session) => session.sessionId === prev)
+              ? prev
+              : (event.sessions[0]?.sessionId ?? null),
+          );
+          break;
+        case "session.created":
+          setSessions((prev) => [
+            { ...event.session, transcriptLoaded: true },
+            ...prev.filter((session) => session.sessionId !== event.sessionId),
+          ]);
+          setActiveSessionId((prev) => prev ?? event.sessionId);
+          break;
+        case "session.status":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            status: event.status,
+            twilioStatus: event.twilioStatus ?? session.twilioStatus,
+            answeredBy: event.answeredBy ?? session.answeredBy,
+            updatedAt: event.updatedAt,
+          }));
+          break;
+        case "session.control":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            aiPaused: event.aiPaused,
+            pendingLine: event.pendingLine ?? null,
+            updatedAt: event.updatedAt,
+          }));
+          break;
+        case "session.transfer":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            transfer: event.transfer,
+            updatedAt: event.updatedAt,
+          }));
+          break;
+        case "session.recording":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            recording: event.recording,
+            updatedAt: event.updatedAt,
+          }));
+          break;
+        case "session.turn":
+          patchSession(event.sessionId, (session) =>
+            session.transcript.some((turn) => turn.id === event.turn.id)
+              ? session
+              : {
+                  ...session,
+                  transcript: [...session.transcript, event.turn],
+                  updatedAt: event.updatedAt,
+                },
+          );
+          break;
+        case "session.summary":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            summary: event.summary,
+            updatedAt: event.updatedAt,
+          }));
+          break;
+        case "session.outcome":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            outcome: event.outcome,
+            updatedAt: event.updatedAt,
+          }));
+          break;
+        case "session.guardrail":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            guardrailViolations: [...session.guardrailViolations, ...event.violations],
+            updatedAt: event.updatedAt,
+          }));
+          break;
+        case "session.error":
+          patchSession(event.sessionId, (session) => ({
+            ...session,
+            status: event.status,
+            lastError: event.lastError,
+            updatedAt: event.updatedAt,
+          }));
+          break;
+      }
+    };
 
-        const data = (await response.json()) as { sessions: SessionSnapshot[] };
-        if (cancelled) return;
+    const connect = () => {
+      const url = lastEventId
+        ? `/api/sessions/stream?lastEventId=${encodeURIComponent(lastEventId)}`
+        : "/api/sessions/stream";
+      source = new EventSource(url);
 
-        setSessions(data.sessions);
-        setPollingError(null);
+      source.onopen = () => {
+        retryDelay = 1000;
+        setStreamError(null);
+      };
 
-        if (data.sessions.length === 0) {
-          setActiveSessionId(null);
-        } else if (
-          !activeSessionId ||
-          !data.sessions.some((session) => session.sessionId === activeSessionId)
-        ) {
-          setActiveSessionId(data.sessions[0].sessionId);
-        }
-      } catch {
-        if (!cancelled) {
-          setPollingError(
-            "Unable to refresh session list. We will retry automatically.",
-          );
-        }
-      } finally {
-        if (!cancelled) {
-          timer = setTimeout(poll, 3500);
-        }
-      }
+      source.onmessage = (message) => {
+        lastEventId = message.lastEventId || lastEventId;
+        applyEvent(JSON.parse(message.data) as StreamEvent);
+      };
+
+      source.onerror = () => {
+        setStreamError("Live updates disconnected. Reconnecting automatically.");
+        if (source?.readyState !== EventSource.CLOSED || closed) return;
+
+        // The browser gives up on non-200 responses, e.g. an expired login.
+        source = null;
+        fetch("/api/auth/me", { cache: "no-store" })
+          .then((response) => {
+            if (response.status === 401) {
+              router.replace("/login");
+              return;
+            }
+            timer = setTimeout(connect, retryDelay);
+            retryDelay = Math.min(retryDelay * 2, 30_000);
+          })
+          .catch(() => {
+            timer = setTimeout(connect, retryDelay);
+            retryDelay = Math.min(retryDelay * 2, 30_000);
+          });
+      };
     };
 
-    poll();
+    connect();
     return () => {
-      cancelled = true;
+      closed = true;
+      source?.close();
       if (timer) clearTimeout(timer);
     };
-  }, [activeSessionId]);
+  }, [router]);
 
   const activeSession = useMemo(() => {
     if (!activeSessionId) return null;
     return sessions.find((session) => session.sessionId === activeSessionId) ?? null;
   }, [sessions, activeSessionId]);
 
+  const activeTranscriptLoaded = activeSession?.transcriptLoaded ?? true;
+
+  useEffect(() => {
+    if (!activeSessionId || activeTranscriptLoaded) return;
+    let cancelled = false;
+
+    fetch(`/api/sessions/${activeSessionId}`, { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) return;
+        const { session: loaded } = (await response.json()) as { session: SessionView };
+        if (cancelled) return;
+
+        // Keep turns streamed in while the request was in flight.
+        const known = new Set(loaded.transcript.map((turn) => turn.id));
+        setSessions((prev) =>
+          prev.map((session) =>
+            session.sessionId === loaded.sessionId
+              ? {
+                  ...session,
+                  transcript: [
+                    ...loaded.transcript,
+                    ...session.transcript.filter((turn) => !known.has(turn.id)),
+                  ],
+                  transcriptLoaded: true,
+                }
+              : session,
+          ),
+        );
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSessionId, activeTranscriptLoaded]);
+
   const activeTranscript = useMemo(() => {
     if (!activeSession) return [];
     return activeSession.transcript.filter((turn) => turn.role !== "system");
@@ -230,17 +723,66 @@ export default function Home() {
         HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
       >,
     ) => {
-      const value =
-        key === "temperature" ? Number(event.target.value) : event.target.value;
+      const value = numericAgentKeys.has(key)
+        ? Number(event.target.value)
+        : event.target.value;
       setAgentConfig((prev) => ({
         ...prev,
         [key]: value,
       }));
     };
 
+  const toggleRetryOn = (status: string) => {
+    setAgentConfig((prev) => ({
+      ...prev,
+      retryOn: prev.retryOn.includes(status)
+        ? prev.retryOn.filter((value) => value !== status)
+        : [...prev.retryOn, status],
+    }));
+  };
+
+  const toggleTool = (tool: string) => {
+    setAgentConfig((prev) => ({
+      ...prev,
+      tools: prev.tools.includes(tool)
+        ? prev.tools.filter((value) => value !== tool)
+        : [...prev.tools, tool],
+    }));
+  };
+
+  const agentPayload = useMemo(() => toAgentPayload(agentConfig), [agentConfig]);
+  const isAgentDirty =
+    loadedAgent !== null && JSON.stringify(agentPayload) !== loadedAgent.snapshot;
+  const outcomeFieldsInvalid =
+    agentConfig.outcomeFields.trim() !== "" && !agentPayload.outcomeFields;
+  const llmProvidersInvalid =
+    agentConfig.llmProviders.trim() !== "" && !agentPayload.llmProviders;
+  const replyPolicyInvalid =
+    agentConfig.replyPolicy.trim() !== "" && !agentPayload.replyPolicy;
+  const redactionInvalid =
+    agentConfig.redaction.trim() !== "" && !agentPayload.redaction;
+
+  const loadAgentVersion = (version: AgentProfileVersion) => {
+    const form = toAgentForm(version.config);
+    setAgentConfig(form);
+    setLoadedAgent({
+      profileId: version.profileId,
+      version: version.version,
+      snapshot: JSON.stringify(toAgentPayload(form)),
+    });
+  };
+
+  const markAgentSaved = (version: AgentProfileVersion) => {
+    setLoadedAgent({
+      profileId: version.profileId,
+      version: version.version,
+      snapshot: JSON.stringify(agentPayload),
+    });
+  };
+
   const handleCallChange =
     <K extends keyof CallConfig>(key: K) =>
-    (event: React.ChangeEvent<HTMLInputElement>) => {
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
       const value = event.target.value;
       setCallConfig((prev) => ({
         ...prev,
@@ -248,6 +790,11 @@ export default function Home() {
       }));
     };
 
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    router.replace("/login");
+  };
+
   const launchCall = async () => {
     if (!callConfig.phoneNumber.trim()) {
       setFeedback({
@@ -264,17 +811,17 @@ export default function Home() {
       const payload = {
         to: callConfig.phoneNumber.trim(),
         customerName: callConfig.customerName.trim() || undefined,
-        company: agentConfig.company.trim() || undefined,
-        campaign: agentConfig.campaign.trim() || undefined,
-        agentName: agentConfig.agentName.trim(),
-        persona: agentConfig.persona,
-        greeting: agentConfig.greeting,
-        objective: agentConfig.objective,
-        guardrails: agentConfig.guardrails,
-        closingStrategy: agentConfig.closingStrategy,
-        voice: agentConfig.voice,
-        language: agentConfig.language,
-        temperature: agentConfig.temperature,
+        timeZone: callConfig.timeZone.trim() || undefined,
+        outOfHours: callConfig.outOfHours,
+        scheduledAt: callConfig.scheduledAt
+          ? new Date(callConfig.scheduledAt).toISOString()
+          : undefined,
+        ...(loadedAgent && !isAgentDirty
+          ? {
+              agentProfileId: loadedAgent.profileId,
+              agentVersion: loadedAgent.version,
+            }
+          : agentPayload),
       };
 
       const response = await fetch("/api/calls", {
@@ -292,9 +839,16 @@ export default function Home() {
       }
 
       setActiveSessionId(data.sessionId);
+      if (data.status === "scheduled") {
+        setScheduledRefreshKey((key) => key + 1);
+        setCallConfig((prev) => ({ ...prev, scheduledAt: "" }));
+      }
       setFeedback({
         type: "success",
-        message: "Call launched. Monitor the live transcript below.",
+        message:
+          data.status === "scheduled"
+            ? `Call scheduled for ${formatTimestamp(data.runAt)}.`
+            : "Call launched. Monitor the live transcript below.",
       });
     } catch (error) {
       setFeedback({
@@ -331,6 +885,14 @@ export default function Home() {
             <span>
               <ClipboardList size={14} /> Auto summaries &amp; next steps
             </span>
+            {currentUser && (
+              <span>
+                {currentUser.username} · {currentUser.role}
+                <button type="button" onClick={signOut} aria-label="Sign out">
+                  <LogOut size={14} />
+                </button>
+              </span>
+            )}
           </div>
         </header>
 
@@ -353,10 +915,10 @@ export default function Home() {
           </div>
         )}
 
-        {pollingError && (
+        {streamError && (
           <div className={`${styles.card} ${styles.span12}`}>
             <strong className={styles.warning}>Realtime sync issue</strong>
-            <p className={styles.callout}>{pollingError}</p>
+            <p className={styles.callout}>{streamError}</p>
           </div>
         )}
 
@@ -373,6 +935,16 @@ export default function Home() {
               </p>
             </div>
 
+            <AgentProfiles
+              agent={agentPayload}
+              loaded={loadedAgent}
+              isDirty={isAgentDirty}
+              canOperate={canOperate}
+              onLoad={loadAgentVersion}
+              onSaved={markAgentSaved}
+              onArchived={() => setLoadedAgent(null)}
+            />
+
             <div className={`${styles.formGrid} ${styles.twoColumn}`}>
               <div className={styles.field}>
                 <span className={styles.fieldLabel}>
@@ -428,6 +1000,24 @@ export default function Home() {
                   }
                 </p>
               </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Conversation mode</strong>
+                </span>
+                <select
+                  value={agentConfig.conversationMode}
+                  onChange={handleAgentChange("conversationMode")}
+                >
+                  <option value="gather">Turn by turn (Gather)</option>
+                  <option value="stream">Streaming (Media Streams)</option>
+                </select>
+                <p className={styles.fieldDescription}>
+                  Streaming answers while the reply is still being generated and lets the
+                  customer interrupt. Needs MEDIA_STREAM_URL; voices come from
+                  STREAM_TTS_VOICE.
+                </p>
+              </div>
             </div>
 
             <div className={styles.formGrid}>
@@ -507,6 +1097,332 @@ export default function Home() {
                 </div>
               </div>
             </div>
+
+            <div className={`${styles.formGrid} ${styles.twoColumn}`}>
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Max dial attempts</strong>
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={agentConfig.maxAttempts}
+                  onChange={handleAgentChange("maxAttempts")}
+                />
+                <p className={styles.fieldDescription}>
+                  Includes the first call. Set above 1 to redial unreached contacts.
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Retry after (minutes)</strong>
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  value={agentConfig.retryBackoffMinutes}
+                  onChange={handleAgentChange("retryBackoffMinutes")}
+                  disabled={agentConfig.maxAttempts <= 1}
+                />
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Redial on</strong>
+                </span>
+                <div className={styles.sessionMeta}>
+                  {retryableStatuses.map((status) => (
+                    <label key={status}>
+                      <input
+                        type="checkbox"
+                        checked={agentConfig.retryOn.includes(status)}
+                        onChange={() => toggleRetryOn(status)}
+                        disabled={agentConfig.maxAttempts <= 1}
+                      />{" "}
+                      {status}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Redial window</strong>
+                </span>
+                <div className={styles.sessionMeta}>
+                  <input
+                    type="time"
+                    value={agentConfig.callingWindowStart}
+                    onChange={handleAgentChange("callingWindowStart")}
+                    disabled={agentConfig.maxAttempts <= 1}
+                  />
+                  <input
+                    type="time"
+                    value={agentConfig.callingWindowEnd}
+                    onChange={handleAgentChange("callingWindowEnd")}
+                    disabled={agentConfig.maxAttempts <= 1}
+                  />
+                </div>
+                <p className={styles.fieldDescription}>
+                  Redials are pushed into this window in your browser&apos;s time zone.
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Calling hours</strong>
+                </span>
+                <div className={styles.sessionMeta}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={agentConfig.enforceCallingHours}
+                      onChange={(event) =>
+                        setAgentConfig((prev) => ({
+                          ...prev,
+                          enforceCallingHours: event.target.checked,
+                        }))
+                      }
+                    />{" "}
+                    Enforce
+                  </label>
+                  <input
+                    type="time"
+                    value={agentConfig.callingHoursStart}
+                    onChange={handleAgentChange("callingHoursStart")}
+                    disabled={!agentConfig.enforceCallingHours}
+                  />
+                  <input
+                    type="time"
+                    value={agentConfig.callingHoursEnd}
+                    onChange={handleAgentChange("callingHoursEnd")}
+                    disabled={!agentConfig.enforceCallingHours}
+                  />
+                </div>
+                <p className={styles.fieldDescription}>
+                  Evaluated in the customer&apos;s local time, inferred from their number.
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Callback booking</strong>
+                </span>
+                <label className={styles.sessionMeta}>
+                  <input
+                    type="checkbox"
+                    checked={agentConfig.bookCallbacks}
+                    onChange={(event) =>
+                      setAgentConfig((prev) => ({
+                        ...prev,
+                        bookCallbacks: event.target.checked,
+                      }))
+                    }
+                  />
+                  Schedule a follow-up call when the customer agrees to a time
+                </label>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Tools</strong>
+                </span>
+                <div className={styles.sessionMeta}>
+                  {agentToolOptions.map((tool) => (
+                    <label key={tool.id}>
+                      <input
+                        type="checkbox"
+                        checked={agentConfig.tools.includes(tool.id)}
+                        onChange={() => toggleTool(tool.id)}
+                      />{" "}
+                      {tool.label}
+                    </label>
+                  ))}
+                </div>
+                <p className={styles.fieldDescription}>
+                  Actions the agent can take mid-call. Each use is logged in the transcript.
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Transfer number</strong>
+                </span>
+                <input
+                  value={agentConfig.transferNumber}
+                  onChange={handleAgentChange("transferNumber")}
+                  placeholder="Defaults to OPERATOR_PHONE_NUMBER"
+                />
+                <p className={styles.fieldDescription}>
+                  Escalations are warm-transferred here, then the AI resumes if nobody
+                  answers.
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Escalation keywords</strong>
+                </span>
+                <input
+                  value={agentConfig.escalationKeywords}
+                  onChange={handleAgentChange("escalationKeywords")}
+                  placeholder="complaint, cancel my contract"
+                />
+                <p className={styles.fieldDescription}>
+                  Comma-separated. Asking for a person always escalates.
+                </p>
+                <label className={styles.sessionMeta}>
+                  <input
+                    type="checkbox"
+                    checked={agentConfig.whisperSummary}
+                    onChange={(event) =>
+                      setAgentConfig((prev) => ({
+                        ...prev,
+                        whisperSummary: event.target.checked,
+                      }))
+                    }
+                  />
+                  Brief the colleague with a call summary before connecting
+                </label>
+              </div>
+            </div>
+
+            <div className={styles.formGrid}>
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Model providers</strong>
+                </span>
+                <textarea
+                  value={agentConfig.llmProviders}
+                  onChange={handleAgentChange("llmProviders")}
+                  placeholder={'[{ "provider": "openai", "timeoutMs": 4000 },\n { "provider": "openai-compatible", "model": "llama3.1" }]'}
+                />
+                <p
+                  className={`${styles.fieldDescription} ${
+                    llmProvidersInvalid ? styles.danger : ""
+                  }`}
+                >
+                  {llmProvidersInvalid
+                    ? "Not a JSON array of providers; OpenAI will be used."
+                    : "Tried in order until one answers in time. Providers: openai, openai-compatible (baseUrl), scripted (script). Empty uses OpenAI."}
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Outcome fields</strong>
+                </span>
+                <textarea
+                  value={agentConfig.outcomeFields}
+                  onChange={handleAgentChange("outcomeFields")}
+                />
+                <p
+                  className={`${styles.fieldDescription} ${
+                    outcomeFieldsInvalid ? styles.danger : ""
+                  }`}
+                >
+                  {outcomeFieldsInvalid
+                    ? "Not a JSON array of fields; no outcome will be extracted."
+                    : "JSON array of { name, type, description?, options? } extracted after each completed call. Types: boolean, number, string, list, datetime, enum."}
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Reply policy</strong>
+                </span>
+                <textarea
+                  value={agentConfig.replyPolicy}
+                  onChange={handleAgentChange("replyPolicy")}
+                  placeholder={'{ "bannedPhrases": ["guaranteed savings"],\n  "requiredDisclosures": ["This call is recorded."],\n  "blockPii": true, "maxReplyLength": 240 }'}
+                />
+                <p
+                  className={`${styles.fieldDescription} ${
+                    replyPolicyInvalid ? styles.danger : ""
+                  }`}
+                >
+                  {replyPolicyInvalid
+                    ? "Not a JSON object; replies will not be checked."
+                    : "Enforced on every model reply before it is spoken: bannedPhrases, bannedPatterns, requiredDisclosures, blockPii, maxReplyLength, llmJudge, onViolation (rewrite or replace)."}
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Transcript redaction</strong>
+                </span>
+                <textarea
+                  value={agentConfig.redaction}
+                  onChange={handleAgentChange("redaction")}
+                  placeholder={'{ "detectors": ["card", "ssn", "email", "phone"],\n  "customPatterns": [{ "label": "POLICY", "pattern": "\\\\bPOL-\\\\d{8}\\\\b" }] }'}
+                />
+                <p
+                  className={`${styles.fieldDescription} ${
+                    redactionInvalid ? styles.danger : ""
+                  }`}
+                >
+                  {redactionInvalid
+                    ? "Not a JSON object; the built-in detectors apply."
+                    : "Replaced before the transcript is stored or sent to a model. Leave empty to redact cards, SSNs, emails and phone numbers."}
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Voicemail message</strong>
+                </span>
+                <textarea
+                  value={agentConfig.voicemailMessage}
+                  onChange={handleAgentChange("voicemailMessage")}
+                />
+                <p className={styles.fieldDescription}>
+                  Left after the beep when a machine answers. Supports
+                  {" {{customerName}}, {{company}} and {{callbackNumber}}"}. Leave empty to
+                  hang up without a message.
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Callback number</strong>
+                </span>
+                <input
+                  value={agentConfig.callbackNumber}
+                  onChange={handleAgentChange("callbackNumber")}
+                  placeholder="Defaults to your Twilio caller ID"
+                />
+              </div>
+
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Recording announcement</strong>
+                </span>
+                <input
+                  value={agentConfig.recordingAnnouncement}
+                  onChange={handleAgentChange("recordingAnnouncement")}
+                  disabled={!agentConfig.recordCalls}
+                />
+                <label className={styles.sessionMeta}>
+                  <input
+                    type="checkbox"
+                    checked={agentConfig.recordCalls}
+                    onChange={(event) =>
+                      setAgentConfig((prev) => ({
+                        ...prev,
+                        recordCalls: event.target.checked,
+                      }))
+                    }
+                  />
+                  Record calls
+                </label>
+                <p className={styles.fieldDescription}>
+                  Said before the greeting on recorded calls. Leave empty to record without
+                  announcing it where the law allows.
+                </p>
+              </div>
+            </div>
           </section>
 
           <section className={`${styles.card} ${styles.span5}`}>
@@ -545,19 +1461,61 @@ export default function Home() {
                   Must be in E.164 format and reachable by your Twilio project.
                 </p>
               </div>
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Customer time zone</strong>
+                </span>
+                <input
+                  value={callConfig.timeZone}
+                  onChange={handleCallChange("timeZone")}
+                  placeholder="Inferred from the number, e.g. America/Denver"
+                />
+              </div>
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Outside calling hours</strong>
+                </span>
+                <select value={callConfig.outOfHours} onChange={handleCallChange("outOfHours")}>
+                  <option value="reject">Don&apos;t call</option>
+                  <option value="defer">Schedule for the next allowed time</option>
+                </select>
+              </div>
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Schedule for</strong>
+                </span>
+                <input
+                  type="datetime-local"
+                  value={callConfig.scheduledAt}
+                  onChange={handleCallChange("scheduledAt")}
+                />
+                <p className={styles.fieldDescription}>
+                  Leave empty to call now. Uses your browser&apos;s time zone.
+                </p>
+              </div>
             </div>
 
             <div className={styles.buttonRow}>
               <button
                 className={styles.buttonPrimary}
                 onClick={launchCall}
-                disabled={isLaunching}
+                disabled={isLaunching || !canOperate}
               >
                 <Sparkles size={18} />
-                {isLaunching ? "Launching..." : "Launch outbound call"}
+                {isLaunching
+                  ? "Launching..."
+                  : callConfig.scheduledAt
+                    ? "Schedule outbound call"
+                    : "Launch outbound call"}
               </button>
             </div>
 
+            {currentUser && !canOperate && (
+              <p className={styles.fieldDescription}>
+                Your viewer role can monitor sessions but not launch calls.
+              </p>
+            )}
+
             <p className={styles.fieldDescription}>
               Tip: expose your local dev server with ngrok and set PUBLIC_BASE_URL to the
               https URL so Twilio can reach your webhooks.
@@ -576,6 +1534,31 @@ export default function Home() {
               </p>
             </div>
             <div className={styles.monitor}>
+              {activeSession?.recording && (
+                <div className={styles.sessionMeta}>
+                  {activeSession.recording.status === "completed" ? (
+                    canOperate ? (
+                      <audio
+                        controls
+                        preload="none"
+                        src={`/api/sessions/${activeSession.sessionId}/recording`}
+                      />
+                    ) : (
+                      <span>Recording available to operators</span>
+                    )
+                  ) : activeSession.recording.status === "purged" ? (
+                    <span>
+                      Recording purged{" "}
+                      {formatTimestamp(activeSession.recording.purgedAt ?? undefined)}
+                    </span>
+                  ) : (
+                    <span className={styles.warning}>Recording failed</span>
+                  )}
+                  {activeSession.recording.durationSeconds !== null && (
+                    <span>{activeSession.recording.durationSeconds}s</span>
+                  )}
+                </div>
+              )}
               <div className={styles.monitorBody}>
                 {activeTranscript.length === 0 ? (
                   <p className={styles.monitorPlaceholder}>
@@ -593,17 +1576,57 @@ export default function Home() {
                       <span className={styles.transcriptRole}>
                         {formatRole(turn.role)} · {formatTimestamp(turn.timestamp)}
                       </span>
-                      <p className={styles.transcriptText}>{turn.content}</p>
+                      <p className={styles.transcriptText}>{turn.original ?? turn.content}</p>
+                      {turn.original !== undefined && (
+                        <span className={styles.transcriptRole}>Stored as: {turn.content}</span>
+                      )}
                     </div>
                   ))
                 )}
               </div>
+              {canOperate &&
+                activeSession &&
+                !activeSession.simulated &&
+                liveStatuses.has(activeSession.status) && (
+                  <CallControls
+                    sessionId={activeSession.sessionId}
+                    aiPaused={activeSession.aiPaused}
+                    pendingLine={activeSession.pendingLine}
+                  />
+                )}
               {activeSession?.summary && (
                 <div className={styles.card}>
                   <h3 className={styles.cardTitle}>Auto summary</h3>
                   <p className={styles.cardSubtitle}>{activeSession.summary}</p>
                 </div>
               )}
+              {activeSession?.outcome && (
+                <div className={styles.card}>
+                  <h3 className={styles.cardTitle}>Outcome</h3>
+                  <div className={styles.sessionMeta}>
+                    {Object.entries(activeSession.outcome).map(([field, value]) => (
+                      <span key={field}>
+                        {field} • {formatOutcomeValue(value)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {activeSession && activeSession.guardrailViolations.length > 0 && (
+                <div className={styles.card}>
+                  <h3 className={styles.cardTitle}>Guardrail violations</h3>
+                  {activeSession.guardrailViolations.map((violation, index) => (
+                    <div key={index} className={styles.sessionMeta}>
+                      <span className={styles.warning}>
+                        {violation.rule} • {violation.action}
+                      </span>
+                      <span>{violation.detail}</span>
+                      <span>{formatTimestamp(violation.timestamp)}</span>
+                      <p className={styles.fieldDescription}>{violation.original}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </section>
 
@@ -619,6 +1642,8 @@ export default function Home() {
               </p>
             </div>
 
+            <SessionExports selectedSessionId={activeSessionId ?? undefined} />
+
             {sessions.length === 0 ? (
               <div className={styles.emptyState}>
                 No sessions yet. Launch a call to see it appear here in real time.
@@ -653,7 +1678,22 @@ export default function Home() {
                     </div>
                     <div className={styles.sessionMeta}>
                       <span>Voice • {session.voice}</span>
+                      {session.agentVersion && <span>Agent v{session.agentVersion}</span>}
+                      {session.simulated && <span>Simulated</span>}
                       <span>{formatTimestamp(session.createdAt)}</span>
+                      {session.attempt > 1 && <span>Attempt {session.attempt}</span>}
+                      {session.twilioStatus &&
+                        session.twilioStatus !== session.status && (
+                          <span>Twilio • {session.twilioStatus}</span>
+                        )}
+                      {session.transfer && (
+                        <span>Transfer • {session.transfer.status}</span>
+                      )}
+                      {typeof session.outcome?.interested === "boolean" && (
+                        <span>
+                          {session.outcome.interested ? "Interested" : "Not interested"}
+                        </span>
+                      )}
                       <span>{session.objective}</span>
                       {session.lastError && (
                         <span className={styles.danger}>{session.lastError}</span>
@@ -664,6 +1704,31 @@ export default function Home() {
               </div>
             )}
           </section>
+
+          <CallSimulator
+            agent={agentPayload}
+            agentReference={loadedAgent && !isAgentDirty ? loadedAgent : undefined}
+            canOperate={canOperate}
+          />
+
+          <AgentEvaluations
+            agent={agentPayload}
+            agentReference={loadedAgent && !isAgentDirty ? loadedAgent : undefined}
+            canOperate={canOperate}
+          />
+
+          <CampaignDialer
+            agent={agentPayload}
+            agentReference={loadedAgent && !isAgentDirty ? loadedAgent : undefined}
+            canOperate={canOperate}
+          />
+
+          <ScheduledCalls canOperate={canOperate} refreshKey={scheduledRefreshKey} />
+
+          <DoNotCallList
+            canOperate={canOperate}
+            canRemove={currentUser?.role === "admin"}
+          />
         </div>
       </div>
     </div>
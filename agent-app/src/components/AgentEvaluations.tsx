@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ClipboardCheck, Play } from "lucide-react";
+import styles from "@/app/page.module.css";
+import type { LoadedAgent } from "@/components/AgentProfiles";
+import type { AgentConfigInput } from "@/lib/agent-config";
+import type { EvaluationRun, EvaluationStatus } from "@/lib/evaluation-store";
+import type { CustomerMode, CustomerPersona, VariantReport } from "@/lib/evaluations";
+
+type RunSnapshot = EvaluationRun & { report: VariantReport[] };
+
+const runStatusStyles: Record<EvaluationStatus, string> = {
+  running: styles.warning,
+  completed: styles.success,
+  failed: styles.danger,
+};
+
+function formatScore(score: number | null) {
+  return score === null ? "n/a" : `${Math.round(score * 100)}%`;
+}
+
+/** "1, 3" → [1, 3]; anything that is not a positive integer is dropped. */
+function parseVersions(text: string) {
+  return text
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((version) => Number.isInteger(version) && version > 0);
+}
+
+/**
+ * Plays synthetic customers against the agent configured above, optionally
+ * side by side with other saved versions, and shows the rubric scores.
+ */
+export function AgentEvaluations({
+  agent,
+  agentReference,
+  canOperate,
+}: {
+  agent: AgentConfigInput;
+  /** Saved version to run instead of the inline `agent`, when unedited. */
+  agentReference?: LoadedAgent;
+  canOperate: boolean;
+}) {
+  const [runs, setRuns] = useState<RunSnapshot[]>([]);
+  const [personas, setPersonas] = useState<CustomerPersona[]>([]);
+  const [selectedPersonas, setSelectedPersonas] = useState<string[]>([]);
+  const [compareVersions, setCompareVersions] = useState("");
+  const [customerMode, setCustomerMode] = useState<CustomerMode>("scripted");
+  const [maxTurns, setMaxTurns] = useState(8);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: NodeJS.Timeout;
+
+    const poll = async () => {
+      try {
+        const response = await fetch("/api/evaluations", { cache: "no-store" });
+        if (response.ok && !cancelled) {
+          const data = (await response.json()) as {
+            runs: RunSnapshot[];
+            personas: CustomerPersona[];
+          };
+          setRuns(data.runs);
+          setPersonas(data.personas);
+        }
+      } finally {
+        if (!cancelled) {
+          timer = setTimeout(poll, 5000);
+        }
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  const togglePersona = (id: string) =>
+    setSelectedPersonas((prev) =>
+      prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id],
+    );
+
+  const startRun = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const current = agentReference
+        ? {
+            label: `v${agentReference.version}`,
+            agentProfileId: agentReference.profileId,
+            agentVersion: agentReference.version,
+          }
+        : { label: "Current draft", agent };
+      const others = agentReference
+        ? parseVersions(compareVersions)
+            .filter((version) => version !== agentReference.version)
+            .map((version) => ({
+              label: `v${version}`,
+              agentProfileId: agentReference.profileId,
+              agentVersion: version,
+            }))
+        : [];
+
+      const response = await fetch("/api/evaluations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: agent.campaign || agent.agentName,
+          variants: [current, ...others],
+          personas: selectedPersonas.length > 0 ? selectedPersonas : undefined,
+          customerMode,
+          maxTurns,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to start evaluation");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start evaluation.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className={`${styles.card} ${styles.span12}`}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitleRow}>
+          <ClipboardCheck size={20} />
+          <h2 className={styles.cardTitle}>Agent evaluations</h2>
+        </div>
+        <p className={styles.cardSubtitle}>
+          Runs the agent against synthetic customers in the simulator and grades each
+          conversation on its objective, guardrails, closing and opt-out handling.
+        </p>
+      </div>
+
+      {canOperate && (
+        <>
+          <div className={`${styles.formGrid} ${styles.twoColumn}`}>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Customers</strong>
+              </span>
+              <select
+                value={customerMode}
+                onChange={(event) => setCustomerMode(event.target.value as CustomerMode)}
+              >
+                <option value="scripted">Scripted lines</option>
+                <option value="llm">Played by a model</option>
+              </select>
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Max customer turns</strong>
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={15}
+                value={maxTurns}
+                onChange={(event) => setMaxTurns(Number(event.target.value))}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Compare with versions</strong>
+              </span>
+              <input
+                value={compareVersions}
+                onChange={(event) => setCompareVersions(event.target.value)}
+                placeholder="1, 2"
+                disabled={!agentReference}
+              />
+              <p className={styles.fieldDescription}>
+                {agentReference
+                  ? "Other saved versions of this profile to score side by side."
+                  : "Load a saved profile to compare versions; the draft runs on its own."}
+              </p>
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Personas</strong>
+              </span>
+              {personas.map((persona) => (
+                <label key={persona.id} className={styles.fieldDescription}>
+                  <input
+                    type="checkbox"
+                    checked={selectedPersonas.includes(persona.id)}
+                    onChange={() => togglePersona(persona.id)}
+                  />{" "}
+                  {persona.name}
+                </label>
+              ))}
+              <p className={styles.fieldDescription}>Leave all unchecked to use every persona.</p>
+            </div>
+          </div>
+
+          <div className={styles.buttonRow}>
+            <button
+              className={styles.buttonPrimary}
+              onClick={startRun}
+              disabled={isSubmitting}
+            >
+              <Play size={18} />
+              {isSubmitting ? "Starting..." : "Run evaluation"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className={`${styles.fieldDescription} ${styles.danger}`}>{error}</p>}
+
+      {runs.length > 0 && (
+        <div className={styles.sessionsList}>
+          {runs.map((run) => (
+            <div key={run.runId} className={styles.sessionItem}>
+              <div className={styles.sessionHeader}>
+                <div>
+                  <div className={styles.tag}>
+                    {run.customerMode === "llm" ? "Model customers" : "Scripted customers"}
+                  </div>
+                  <h3 className={styles.cardTitle}>{run.name}</h3>
+                </div>
+                <span className={`${styles.statusPill} ${runStatusStyles[run.status]}`}>
+                  {run.status}
+                </span>
+              </div>
+              {run.lastError && (
+                <p className={`${styles.fieldDescription} ${styles.danger}`}>{run.lastError}</p>
+              )}
+              {run.report.map((variant) => (
+                <div key={variant.label} className={styles.sessionMeta}>
+                  <strong>{variant.label}</strong>
+                  <span>{formatScore(variant.score)} overall</span>
+                  <span>
+                    {variant.conversations}/{run.personas.length} conversations
+                  </span>
+                  {Object.entries(variant.checks).map(([id, counts]) => (
+                    <span key={id}>
+                      {id}: {counts.passed} pass · {counts.failed} fail
+                    </span>
+                  ))}
+                  {run.personas.map((persona) =>
+                    persona.id in variant.personas ? (
+                      <span key={persona.id}>
+                        {persona.name}: {formatScore(variant.personas[persona.id])}
+                      </span>
+                    ) : null,
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Archive, BookMarked, Save } from "lucide-react";
+import styles from "@/app/page.module.css";
+import type { AgentConfigInput } from "@/lib/agent-config";
+import type {
+  AgentProfile,
+  AgentProfileVersion,
+  VersionOutcomes,
+} from "@/lib/agent-profiles";
+
+export type LoadedAgent = {
+  profileId: string;
+  version: number;
+};
+
+type ProfileDetail = AgentProfile & {
+  versions: AgentProfileVersion[];
+  outcomes: VersionOutcomes[];
+};
+
+function describeOutcomes(outcome: VersionOutcomes) {
+  const completed = outcome.statuses.completed ?? 0;
+  return `v${outcome.version}: ${outcome.sessions} calls · ${completed} completed`;
+}
+
+export function AgentProfiles({
+  agent,
+  loaded,
+  isDirty,
+  canOperate,
+  onLoad,
+  onSaved,
+  onArchived,
+}: {
+  agent: AgentConfigInput;
+  loaded: LoadedAgent | null;
+  isDirty: boolean;
+  canOperate: boolean;
+  onLoad: (version: AgentProfileVersion) => void;
+  onSaved: (version: AgentProfileVersion) => void;
+  onArchived: () => void;
+}) {
+  const [profiles, setProfiles] = useState<AgentProfile[]>([]);
+  const [detail, setDetail] = useState<ProfileDetail | null>(null);
+  const [name, setName] = useState("");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const profileId = loaded?.profileId;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/agents", { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = (await response.json()) as { profiles: AgentProfile[] };
+        if (!cancelled) setProfiles(data.profiles);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (!profileId) return;
+    let cancelled = false;
+
+    fetch(`/api/agents/${profileId}`, { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = (await response.json()) as { profile: ProfileDetail };
+        if (!cancelled) setDetail(data.profile);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, refreshKey]);
+
+  const selectProfile = async (nextProfileId: string) => {
+    if (!nextProfileId) return;
+
+    const response = await fetch(`/api/agents/${nextProfileId}`, { cache: "no-store" });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error ?? "Failed to load agent");
+      return;
+    }
+
+    const profile = data.profile as ProfileDetail;
+    setDetail(profile);
+    setError(null);
+    onLoad(profile.versions[0]);
+  };
+
+  const selectVersion = (version: number) => {
+    const match = detail?.versions.find((entry) => entry.version === version);
+    if (match) onLoad(match);
+  };
+
+  const save = async (asNewProfile: boolean) => {
+    if (asNewProfile && name.trim().length < 2) {
+      setError("Give the new agent a name first.");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        asNewProfile ? "/api/agents" : `/api/agents/${profileId}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: asNewProfile ? name.trim() : undefined,
+            config: agent,
+            note: note.trim() || undefined,
+          }),
+        },
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to save agent");
+      }
+
+      onSaved(data.version as AgentProfileVersion);
+      setName("");
+      setNote("");
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save agent.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const archive = async () => {
+    if (!profileId) return;
+
+    const response = await fetch(`/api/agents/${profileId}`, { method: "DELETE" });
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error ?? "Failed to archive agent");
+      return;
+    }
+
+    setDetail(null);
+    onArchived();
+    setRefreshKey((key) => key + 1);
+  };
+
+  const activeDetail = detail && detail.profileId === profileId ? detail : null;
+
+  return (
+    <>
+      <div className={`${styles.formGrid} ${styles.twoColumn}`}>
+        <div className={styles.field}>
+          <span className={styles.fieldLabel}>
+            <strong>Saved agent</strong>
+            <BookMarked size={14} />
+          </span>
+          <select
+            value={profileId ?? ""}
+            onChange={(event) => selectProfile(event.target.value)}
+          >
+            <option value="">Unsaved draft</option>
+            {profiles.map((profile) => (
+              <option key={profile.profileId} value={profile.profileId}>
+                {profile.name} (v{profile.latestVersion})
+              </option>
+            ))}
+          </select>
+          <p className={styles.fieldDescription}>
+            {loaded
+              ? isDirty
+                ? `Edited from v${loaded.version}. Calls use these edits until you save a new version.`
+                : `Calls run with v${loaded.version} and are tagged with it.`
+              : "Calls use the inline configuration below."}
+          </p>
+        </div>
+
+        {activeDetail && (
+          <div className={styles.field}>
+            <span className={styles.fieldLabel}>
+              <strong>Version</strong>
+            </span>
+            <select
+              value={loaded?.version}
+              onChange={(event) => selectVersion(Number(event.target.value))}
+            >
+              {activeDetail.versions.map((version) => (
+                <option key={version.version} value={version.version}>
+                  v{version.version}
+                  {version.note ? ` · ${version.note}` : ""}
+                  {version.createdBy ? ` · ${version.createdBy}` : ""}
+                </option>
+              ))}
+            </select>
+            {activeDetail.outcomes.length > 0 && (
+              <div className={styles.sessionMeta}>
+                {activeDetail.outcomes.map((outcome) => (
+                  <span key={outcome.version}>{describeOutcomes(outcome)}</span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {canOperate && (
+          <>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>New agent name</strong>
+              </span>
+              <input
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder={agent.agentName}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Version note</strong>
+              </span>
+              <input
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder="Softer opener, tighter guardrails"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {canOperate && (
+        <div className={styles.buttonRow}>
+          {loaded && (
+            <button
+              className={styles.buttonPrimary}
+              onClick={() => save(false)}
+              disabled={isSaving || !isDirty}
+            >
+              <Save size={16} /> Save as v{(activeDetail?.latestVersion ?? loaded.version) + 1}
+            </button>
+          )}
+          <button
+            className={styles.buttonPrimary}
+            onClick={() => save(true)}
+            disabled={isSaving}
+          >
+            <Save size={16} /> Save as new agent
+          </button>
+          {loaded && (
+            <button className={styles.buttonPrimary} onClick={archive}>
+              <Archive size={16} /> Archive
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className={`${styles.fieldDescription} ${styles.danger}`}>{error}</p>}
+    </>
+  );
+}
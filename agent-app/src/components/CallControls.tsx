@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Bot, Headset, MessageSquarePlus, PhoneOff } from "lucide-react";
+import styles from "@/app/page.module.css";
+
+type ControlAction = "hangup" | "inject" | "takeover" | "resume";
+
+export function CallControls({
+  sessionId,
+  aiPaused,
+  pendingLine,
+}: {
+  sessionId: string;
+  aiPaused: boolean;
+  pendingLine: string | null;
+}) {
+  const [line, setLine] = useState("");
+  const [busyAction, setBusyAction] = useState<ControlAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = async (action: ControlAction) => {
+    setBusyAction(action);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/controls`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "inject" ? { action, line } : { action }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? `Failed to ${action} the call`);
+      }
+
+      if (action === "inject") setLine("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} the call.`);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className={styles.formGrid}>
+      <div className={styles.field}>
+        <span className={styles.fieldLabel}>
+          <strong>Say next</strong>
+        </span>
+        <textarea
+          value={line}
+          onChange={(event) => setLine(event.target.value)}
+          placeholder="Let me check that rate for you and send it over by email today."
+        />
+        <p className={styles.fieldDescription}>
+          {pendingLine
+            ? `Queued for the next turn: "${pendingLine}"`
+            : "The agent speaks this instead of a generated reply on its next turn."}
+        </p>
+      </div>
+
+      <div className={styles.buttonRow}>
+        <button
+          className={styles.buttonPrimary}
+          onClick={() => runAction("inject")}
+          disabled={busyAction !== null || line.trim().length < 2}
+        >
+          <MessageSquarePlus size={16} /> Queue line
+        </button>
+        {aiPaused ? (
+          <button
+            className={styles.buttonPrimary}
+            onClick={() => runAction("resume")}
+            disabled={busyAction !== null}
+          >
+            <Bot size={16} /> Resume AI
+          </button>
+        ) : (
+          <button
+            className={styles.buttonPrimary}
+            onClick={() => runAction("takeover")}
+            disabled={busyAction !== null}
+          >
+            <Headset size={16} /> Take over
+          </button>
+        )}
+        <button
+          className={styles.buttonPrimary}
+          onClick={() => runAction("hangup")}
+          disabled={busyAction !== null}
+        >
+          <PhoneOff size={16} /> Hang up
+        </button>
+      </div>
+
+      {error && <p className={`${styles.fieldDescription} ${styles.danger}`}>{error}</p>}
+    </div>
+  );
+}
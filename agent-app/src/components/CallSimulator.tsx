@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { FlaskConical, MicOff, RotateCcw, Send } from "lucide-react";
+import styles from "@/app/page.module.css";
+import type { LoadedAgent } from "@/components/AgentProfiles";
+import type { AgentConfigInput } from "@/lib/agent-config";
+import type { SessionView } from "@/lib/session-view";
+
+type SimulationResponse = {
+  sessionId: string;
+  ended: boolean;
+  turns: { script: string; ended: boolean }[];
+  session: SessionView;
+};
+
+/**
+ * Chats with the agent configured above through `/api/simulate`. Nothing is
+ * dialed; each reply comes with the TwiML the phone would have received.
+ */
+export function CallSimulator({
+  agent,
+  agentReference,
+  canOperate,
+}: {
+  agent: AgentConfigInput;
+  /** Saved version to run instead of the inline `agent`, when unedited. */
+  agentReference?: LoadedAgent;
+  canOperate: boolean;
+}) {
+  const [simulation, setSimulation] = useState<SimulationResponse | null>(null);
+  const [customerName, setCustomerName] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (body: object) => {
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/simulate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Simulation failed");
+      }
+      setSimulation(data as SimulationResponse);
+      setMessage("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Simulation failed.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const start = () =>
+    post({
+      customerName: customerName.trim() || undefined,
+      ...(agentReference
+        ? { agentProfileId: agentReference.profileId, agentVersion: agentReference.version }
+        : agent),
+    });
+
+  const send = (text: string) =>
+    simulation && post({ sessionId: simulation.sessionId, message: text });
+
+  const transcript =
+    simulation?.session.transcript.filter((turn) => turn.role !== "tool") ?? [];
+  const lastScript = simulation?.turns[simulation.turns.length - 1]?.script;
+
+  return (
+    <section className={`${styles.card} ${styles.span12}`}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitleRow}>
+          <FlaskConical size={20} />
+          <h2 className={styles.cardTitle}>Call simulator</h2>
+        </div>
+        <p className={styles.cardSubtitle}>
+          Type the customer&apos;s side to try persona, greeting and guardrail changes
+          without dialing. Opt-outs and callbacks are noted but never applied.
+        </p>
+      </div>
+
+      {canOperate && !simulation && (
+        <>
+          <div className={styles.formGrid}>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Customer name</strong>
+              </span>
+              <input
+                value={customerName}
+                onChange={(event) => setCustomerName(event.target.value)}
+                placeholder="Jamie Rivera"
+              />
+            </div>
+          </div>
+          <div className={styles.buttonRow}>
+            <button className={styles.buttonPrimary} onClick={start} disabled={isSending}>
+              <FlaskConical size={18} />
+              {isSending ? "Starting..." : "Start simulation"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {simulation && (
+        <div className={styles.monitor}>
+          <div className={styles.monitorBody}>
+            {transcript.map((turn) => (
+              <div
+                key={turn.id}
+                className={`${styles.transcriptBubble} ${
+                  turn.role === "user" ? styles.transcriptBubbleUser : ""
+                }`}
+              >
+                <span className={styles.transcriptRole}>
+                  {turn.role === "assistant"
+                    ? "Agent"
+                    : turn.role === "user"
+                      ? "Customer"
+                      : "System"}
+                </span>
+                <p className={styles.transcriptText}>{turn.content}</p>
+              </div>
+            ))}
+          </div>
+
+          {!simulation.ended && (
+            <div className={styles.formGrid}>
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  <strong>Customer says</strong>
+                </span>
+                <input
+                  value={message}
+                  onChange={(event) => setMessage(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter" && message.trim()) send(message);
+                  }}
+                  placeholder="Sure, I have a minute."
+                />
+              </div>
+            </div>
+          )}
+
+          <div className={styles.buttonRow}>
+            {!simulation.ended && (
+              <>
+                <button
+                  className={styles.buttonPrimary}
+                  onClick={() => send(message)}
+                  disabled={isSending || !message.trim()}
+                >
+                  <Send size={16} /> Send
+                </button>
+                <button
+                  className={styles.buttonPrimary}
+                  onClick={() => send("")}
+                  disabled={isSending}
+                >
+                  <MicOff size={16} /> Stay silent
+                </button>
+              </>
+            )}
+            <button
+              className={styles.buttonPrimary}
+              onClick={() => setSimulation(null)}
+              disabled={isSending}
+            >
+              <RotateCcw size={16} /> New simulation
+            </button>
+          </div>
+
+          {simulation.ended && (
+            <p className={styles.fieldDescription}>The simulated call has ended.</p>
+          )}
+
+          {lastScript && (
+            <details>
+              <summary className={styles.fieldLabel}>Last webhook response</summary>
+              <pre className={styles.fieldDescription}>{lastScript}</pre>
+            </details>
+          )}
+        </div>
+      )}
+
+      {error && <p className={`${styles.fieldDescription} ${styles.danger}`}>{error}</p>}
+    </section>
+  );
+}
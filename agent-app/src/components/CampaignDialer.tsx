@@ -0,0 +1,323 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ListChecks, Pause, Play, Upload, XCircle } from "lucide-react";
+import styles from "@/app/page.module.css";
+import type { LoadedAgent } from "@/components/AgentProfiles";
+import type { AgentConfigInput } from "@/lib/agent-config";
+import type {
+  Campaign,
+  CampaignProgress,
+  CampaignStatus,
+} from "@/lib/campaign-store";
+
+type CampaignSnapshot = Campaign & { progress: CampaignProgress };
+
+type CampaignAction = "start" | "pause" | "resume" | "cancel";
+
+const campaignStatusStyles: Record<CampaignStatus, string> = {
+  draft: styles.warning,
+  running: styles.success,
+  paused: styles.warning,
+  cancelled: styles.danger,
+  completed: styles.success,
+};
+
+const sampleCsv = "to,customerName,city\n+14155550123,Jamie Rivera,Oakland";
+
+function countFinished(progress: CampaignProgress) {
+  return (
+    progress.completed +
+    progress["no-answer"] +
+    progress.voicemail +
+    progress.failed +
+    progress.cancelled
+  );
+}
+
+function countTotal(progress: CampaignProgress) {
+  return Object.values(progress).reduce((sum, count) => sum + count, 0);
+}
+
+export function CampaignDialer({
+  agent,
+  agentReference,
+  canOperate,
+}: {
+  agent: AgentConfigInput;
+  /** Saved version to run instead of the inline `agent`, when unedited. */
+  agentReference?: LoadedAgent;
+  canOperate: boolean;
+}) {
+  const [campaigns, setCampaigns] = useState<CampaignSnapshot[]>([]);
+  const [name, setName] = useState("");
+  const [contactsText, setContactsText] = useState("");
+  const [maxConcurrentCalls, setMaxConcurrentCalls] = useState(2);
+  const [callsPerMinute, setCallsPerMinute] = useState(6);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: NodeJS.Timeout;
+
+    const poll = async () => {
+      try {
+        const response = await fetch("/api/campaigns", { cache: "no-store" });
+        if (response.ok && !cancelled) {
+          const data = (await response.json()) as { campaigns: CampaignSnapshot[] };
+          setCampaigns(data.campaigns);
+        }
+      } finally {
+        if (!cancelled) {
+          timer = setTimeout(poll, 5000);
+        }
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  const loadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setContactsText(await file.text());
+    }
+  };
+
+  const createCampaign = async () => {
+    const trimmed = contactsText.trim();
+    if (!trimmed) {
+      setError("Upload or paste a contact list first.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const isJson = trimmed.startsWith("[");
+      const response = await fetch("/api/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim() || agent.campaign || agent.agentName,
+          ...(agentReference
+            ? {
+                agentProfileId: agentReference.profileId,
+                agentVersion: agentReference.version,
+              }
+            : { agent }),
+          maxConcurrentCalls,
+          callsPerMinute,
+          autoStart: true,
+          ...(isJson
+            ? { contacts: JSON.parse(trimmed) }
+            : { contactsCsv: trimmed }),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to create campaign");
+      }
+
+      setContactsText("");
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create campaign.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const runAction = async (campaignId: string, action: CampaignAction) => {
+    const response = await fetch(`/api/campaigns/${campaignId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error ?? `Failed to ${action} campaign`);
+      return;
+    }
+
+    setCampaigns((prev) =>
+      prev.map((campaign) =>
+        campaign.campaignId === campaignId
+          ? { ...campaign, status: data.status }
+          : campaign,
+      ),
+    );
+  };
+
+  return (
+    <section className={`${styles.card} ${styles.span12}`}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitleRow}>
+          <ListChecks size={20} />
+          <h2 className={styles.cardTitle}>Campaign dialer</h2>
+        </div>
+        <p className={styles.cardSubtitle}>
+          Upload a contact list and the server works through it with the agent
+          configured above, respecting your concurrency and pacing limits.
+        </p>
+      </div>
+
+      {canOperate && (
+        <>
+          <div className={`${styles.formGrid} ${styles.twoColumn}`}>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Campaign name</strong>
+              </span>
+              <input
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder={agent.campaign || "Winter Savings Revival"}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Contact file</strong>
+              </span>
+              <input type="file" accept=".csv,.json,text/csv,application/json" onChange={loadFile} />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Max concurrent calls</strong>
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={maxConcurrentCalls}
+                onChange={(event) => setMaxConcurrentCalls(Number(event.target.value))}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Calls per minute</strong>
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={120}
+                value={callsPerMinute}
+                onChange={(event) => setCallsPerMinute(Number(event.target.value))}
+              />
+            </div>
+          </div>
+
+          <div className={styles.formGrid}>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Contacts</strong>
+              </span>
+              <textarea
+                value={contactsText}
+                onChange={(event) => setContactsText(event.target.value)}
+                placeholder={sampleCsv}
+              />
+              <p className={styles.fieldDescription}>
+                CSV with a header row, or a JSON array of {"{ to, customerName, variables }"}.
+                Extra CSV columns become variables you can reference as {"{{column}}"} in
+                the greeting, objective, and closing strategy.
+              </p>
+            </div>
+          </div>
+
+          <div className={styles.buttonRow}>
+            <button
+              className={styles.buttonPrimary}
+              onClick={createCampaign}
+              disabled={isSubmitting}
+            >
+              <Upload size={18} />
+              {isSubmitting ? "Uploading..." : "Start campaign"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className={`${styles.fieldDescription} ${styles.danger}`}>{error}</p>}
+
+      {campaigns.length > 0 && (
+        <div className={styles.sessionsList}>
+          {campaigns.map((campaign) => (
+            <div key={campaign.campaignId} className={styles.sessionItem}>
+              <div className={styles.sessionHeader}>
+                <div>
+                  <div className={styles.tag}>{campaign.agent.agentName}</div>
+                  <h3 className={styles.cardTitle}>{campaign.name}</h3>
+                </div>
+                <span
+                  className={`${styles.statusPill} ${campaignStatusStyles[campaign.status]}`}
+                >
+                  {campaign.status}
+                </span>
+              </div>
+              <div className={styles.sessionMeta}>
+                <span>
+                  {countFinished(campaign.progress)}/{countTotal(campaign.progress)} done
+                </span>
+                <span>
+                  {campaign.progress.dialing + campaign.progress["in-progress"]} live
+                </span>
+                <span>{campaign.progress.completed} completed</span>
+                <span>{campaign.progress["no-answer"]} no answer</span>
+                <span>{campaign.progress.voicemail} voicemail</span>
+                <span>{campaign.progress.failed} failed</span>
+                {campaign.lastError && (
+                  <span className={styles.danger}>{campaign.lastError}</span>
+                )}
+              </div>
+              <div className={styles.buttonRow}>
+                {canOperate && campaign.status === "running" && (
+                  <button
+                    className={styles.buttonPrimary}
+                    onClick={() => runAction(campaign.campaignId, "pause")}
+                  >
+                    <Pause size={16} /> Pause
+                  </button>
+                )}
+                {canOperate &&
+                  (campaign.status === "paused" || campaign.status === "draft") && (
+                  <button
+                    className={styles.buttonPrimary}
+                    onClick={() =>
+                      runAction(
+                        campaign.campaignId,
+                        campaign.status === "draft" ? "start" : "resume",
+                      )
+                    }
+                  >
+                    <Play size={16} /> {campaign.status === "draft" ? "Start" : "Resume"}
+                  </button>
+                )}
+                {canOperate &&
+                  ["draft", "running", "paused"].includes(campaign.status) && (
+                  <button
+                    className={styles.buttonPrimary}
+                    onClick={() => runAction(campaign.campaignId, "cancel")}
+                  >
+                    <XCircle size={16} /> Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Ban, Trash2, Upload } from "lucide-react";
+import styles from "@/app/page.module.css";
+import type { Suppression } from "@/lib/do-not-call";
+
+const sourceLabels: Record<Suppression["source"], string> = {
+  manual: "Added manually",
+  import: "Imported",
+  api: "API",
+  "opt-out": "Opted out on a call",
+};
+
+export function DoNotCallList({
+  canOperate,
+  canRemove,
+}: {
+  canOperate: boolean;
+  canRemove: boolean;
+}) {
+  const [entries, setEntries] = useState<Suppression[]>([]);
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [reason, setReason] = useState("");
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/do-not-call", { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = (await response.json()) as { entries: Suppression[] };
+        if (!cancelled) setEntries(data.entries);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const submit = async (body: Record<string, string>) => {
+    setError(null);
+
+    const response = await fetch("/api/do-not-call", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error ?? "Failed to update the do-not-call list");
+      return false;
+    }
+
+    setRefreshKey((key) => key + 1);
+    return true;
+  };
+
+  const addNumber = async () => {
+    if (!phoneNumber.trim()) {
+      setError("Enter a phone number including country code.");
+      return;
+    }
+
+    const added = await submit({
+      phoneNumber: phoneNumber.trim(),
+      source: "manual",
+      ...(reason.trim() ? { reason: reason.trim() } : {}),
+    });
+    if (added) {
+      setPhoneNumber("");
+      setReason("");
+    }
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      await submit({ csv: await file.text() });
+      event.target.value = "";
+    }
+  };
+
+  const remove = async (entry: Suppression) => {
+    const response = await fetch(
+      `/api/do-not-call/${encodeURIComponent(entry.phoneNumber)}`,
+      { method: "DELETE" },
+    );
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error ?? "Failed to remove number");
+      return;
+    }
+
+    setRefreshKey((key) => key + 1);
+  };
+
+  return (
+    <section className={`${styles.card} ${styles.span12}`}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitleRow}>
+          <Ban size={20} />
+          <h2 className={styles.cardTitle}>Do-not-call list</h2>
+        </div>
+        <p className={styles.cardSubtitle}>
+          Numbers here are never dialed, including campaign contacts and redials.
+          Customers who ask to stop being called are added automatically.
+        </p>
+      </div>
+
+      {canOperate && (
+        <>
+          <div className={`${styles.formGrid} ${styles.twoColumn}`}>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Phone number</strong>
+              </span>
+              <input
+                value={phoneNumber}
+                onChange={(event) => setPhoneNumber(event.target.value)}
+                placeholder="+14155550123"
+              />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Reason</strong>
+              </span>
+              <input
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder="Requested by email"
+              />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>
+                <strong>Import CSV</strong>
+              </span>
+              <input type="file" accept=".csv,text/csv" onChange={importFile} />
+              <p className={styles.fieldDescription}>
+                Needs a <code>to</code> or <code>phone</code> column; a <code>reason</code>{" "}
+                column is kept.
+              </p>
+            </div>
+          </div>
+
+          <div className={styles.buttonRow}>
+            <button className={styles.buttonPrimary} onClick={addNumber}>
+              <Upload size={16} /> Add number
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className={`${styles.fieldDescription} ${styles.danger}`}>{error}</p>}
+
+      {entries.length === 0 ? (
+        <div className={styles.emptyState}>No suppressed numbers yet.</div>
+      ) : (
+        <div className={styles.sessionsList}>
+          {entries.map((entry) => (
+            <div key={entry.phoneNumber} className={styles.sessionItem}>
+              <div className={styles.sessionHeader}>
+                <h3 className={styles.cardTitle}>{entry.phoneNumber}</h3>
+                <span className={styles.tag}>{sourceLabels[entry.source]}</span>
+              </div>
+              <div className={styles.sessionMeta}>
+                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                {entry.addedBy && <span>By {entry.addedBy}</span>}
+                {entry.reason && <span>{entry.reason}</span>}
+              </div>
+              {canRemove && (
+                <div className={styles.buttonRow}>
+                  <button className={styles.buttonPrimary} onClick={() => remove(entry)}>
+                    <Trash2 size={16} /> Remove
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
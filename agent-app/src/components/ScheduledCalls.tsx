@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarClock, XCircle } from "lucide-react";
+import styles from "@/app/page.module.css";
+import type { ScheduledCall } from "@/lib/call-scheduler";
+import type { SessionListItem } from "@/lib/session-view";
+
+type UpcomingCall = ScheduledCall & { session: SessionListItem };
+
+const REFRESH_INTERVAL_MS = 15_000;
+
+const reasonLabels: Record<ScheduledCall["reason"], string> = {
+  scheduled: "Scheduled",
+  callback: "Customer callback",
+  retry: "Redial",
+  deferred: "Held for calling hours",
+};
+
+export function ScheduledCalls({
+  canOperate,
+  refreshKey,
+}: {
+  canOperate: boolean;
+  /** Bump to reload immediately, e.g. after scheduling a call. */
+  refreshKey: number;
+}) {
+  const [calls, setCalls] = useState<UpcomingCall[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () =>
+      fetch("/api/scheduled-calls", { cache: "no-store" })
+        .then(async (response) => {
+          if (!response.ok) return;
+          const data = (await response.json()) as { calls: UpcomingCall[] };
+          if (!cancelled) setCalls(data.calls);
+        })
+        .catch(() => undefined);
+
+    void load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [refreshKey, reloadKey]);
+
+  const cancel = async (call: UpcomingCall) => {
+    setError(null);
+
+    const response = await fetch(`/api/scheduled-calls/${call.scheduleId}`, {
+      method: "DELETE",
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error ?? "Failed to cancel the call");
+    }
+
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <section className={`${styles.card} ${styles.span12}`}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitleRow}>
+          <CalendarClock size={20} />
+          <h2 className={styles.cardTitle}>Upcoming calls</h2>
+        </div>
+        <p className={styles.cardSubtitle}>
+          Calls booked for later, callbacks customers agreed to, redials and calls held
+          until calling hours open.
+        </p>
+      </div>
+
+      {error && <p className={`${styles.fieldDescription} ${styles.danger}`}>{error}</p>}
+
+      {calls.length === 0 ? (
+        <div className={styles.emptyState}>Nothing scheduled.</div>
+      ) : (
+        <div className={styles.sessionsList}>
+          {calls.map((call) => (
+            <div key={call.scheduleId} className={styles.sessionItem}>
+              <div className={styles.sessionHeader}>
+                <h3 className={styles.cardTitle}>
+                  {call.session.customerName ?? call.session.targetNumber}
+                </h3>
+                <span className={styles.tag}>{reasonLabels[call.reason]}</span>
+              </div>
+              <div className={styles.sessionMeta}>
+                <span>{new Date(call.runAt).toLocaleString()}</span>
+                <span>{call.session.agentName}</span>
+                {call.session.campaign && <span>{call.session.campaign}</span>}
+                {call.session.customerName && <span>{call.session.targetNumber}</span>}
+              </div>
+              {canOperate && (
+                <div className={styles.buttonRow}>
+                  <button className={styles.buttonPrimary} onClick={() => cancel(call)}>
+                    <XCircle size={16} /> Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileText } from "lucide-react";
+import styles from "@/app/page.module.css";
+
+type ExportFilters = {
+  campaign: string;
+  agentName: string;
+  from: string;
+  to: string;
+  q: string;
+};
+
+const emptyFilters: ExportFilters = { campaign: "", agentName: "", from: "", to: "", q: "" };
+
+function exportUrl(format: "jsonl" | "csv", params: Record<string, string>) {
+  const query = new URLSearchParams({ format });
+  for (const [key, value] of Object.entries(params)) {
+    if (value.trim()) query.set(key, value.trim());
+  }
+  return `/api/sessions/export?${query}`;
+}
+
+/**
+ * Download links for session history: the selected session, or every
+ * session matching the filters, as JSON Lines or CSV, plus a printable
+ * report of the selected call.
+ */
+export function SessionExports({ selectedSessionId }: { selectedSessionId?: string }) {
+  const [filters, setFilters] = useState<ExportFilters>(emptyFilters);
+
+  const handleChange =
+    (field: keyof ExportFilters) => (event: React.ChangeEvent<HTMLInputElement>) =>
+      setFilters((prev) => ({ ...prev, [field]: event.target.value }));
+
+  const filterParams = {
+    ...filters,
+    // Date inputs give local days; `to` is exclusive, so take the whole last day.
+    from: filters.from && new Date(`${filters.from}T00:00`).toISOString(),
+    to: filters.to && new Date(new Date(`${filters.to}T00:00`).getTime() + 86_400_000).toISOString(),
+  };
+
+  return (
+    <>
+      <div className={`${styles.formGrid} ${styles.twoColumn}`}>
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>
+            <strong>Campaign</strong>
+          </span>
+          <input value={filters.campaign} onChange={handleChange("campaign")} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>
+            <strong>Agent name</strong>
+          </span>
+          <input value={filters.agentName} onChange={handleChange("agentName")} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>
+            <strong>From</strong>
+          </span>
+          <input type="date" value={filters.from} onChange={handleChange("from")} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>
+            <strong>To</strong>
+          </span>
+          <input type="date" value={filters.to} onChange={handleChange("to")} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>
+            <strong>Transcript contains</strong>
+          </span>
+          <input value={filters.q} onChange={handleChange("q")} />
+          <p className={styles.fieldDescription}>
+            Filters apply to the bulk exports; empty fields match everything.
+          </p>
+        </label>
+      </div>
+
+      <div className={styles.buttonRow}>
+        <a className={styles.buttonPrimary} href={exportUrl("jsonl", filterParams)} download>
+          <Download size={18} />
+          All matching · JSONL
+        </a>
+        <a className={styles.buttonPrimary} href={exportUrl("csv", filterParams)} download>
+          <Download size={18} />
+          All matching · CSV
+        </a>
+        {selectedSessionId && (
+          <>
+            <a
+              className={styles.buttonPrimary}
+              href={exportUrl("jsonl", { session: selectedSessionId })}
+              download
+            >
+              <Download size={18} />
+              Selected · JSONL
+            </a>
+            <a
+              className={styles.buttonPrimary}
+              href={exportUrl("csv", { session: selectedSessionId })}
+              download
+            >
+              <Download size={18} />
+              Selected · CSV
+            </a>
+            <a
+              className={styles.buttonPrimary}
+              href={`/api/sessions/${selectedSessionId}/report`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              <FileText size={18} />
+              Selected · Report
+            </a>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,14 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startDialer } = await import("@/lib/campaign-dialer");
+  const { startScheduler } = await import("@/lib/call-scheduler");
+  const { startMediaStreamServer } = await import("@/lib/media-stream-server");
+  const { failInterruptedEvaluations } = await import("@/lib/evaluation-store");
+  const { startRecordingPurger } = await import("@/lib/recordings");
+  startDialer();
+  startScheduler();
+  startMediaStreamServer();
+  failInterruptedEvaluations();
+  startRecordingPurger();
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession, getSession } from "@/lib/session-store";
+
+const agent = agentConfigSchema.parse({
+  agentName: "Ava",
+  greeting: "Hi there, this is Ava.",
+  objective: "Book a solar review",
+  voice: "Polly.Joanna",
+  language: "en-US",
+  replyPolicy: { bannedPhrases: ["guaranteed savings"], blockPii: true },
+});
+
+/** Creates a session the way `POST /api/calls` does for an inline agent. */
+function placeCall(body: Record<string, unknown>) {
+  const sessionId = crypto.randomUUID();
+  return createSession(
+    toSessionInput(agentConfigSchema.parse(body), {
+      sessionId,
+      targetNumber: "+14155550123",
+      customerName: "Jo",
+    }),
+  );
+}
+
+describe("toSessionInput", () => {
+  beforeEach(() => setSessionStorage(new MemorySessionStorage()));
+
+  it("carries the reply policy into the session", () => {
+    const session = placeCall({ ...agent, to: "+14155550123", outOfHours: "reject" });
+
+    assert.deepEqual(getSession(session.sessionId)?.config.replyPolicy, {
+      bannedPhrases: ["guaranteed savings"],
+      blockPii: true,
+      onViolation: "rewrite",
+    });
+  });
+
+  it("keeps the call's own fields out of the config", () => {
+    const session = placeCall({ ...agent, to: "+14155550123", outOfHours: "defer" });
+
+    assert.equal(session.config.targetNumber, "+14155550123");
+    assert.equal("to" in session.config, false);
+    assert.equal("outOfHours" in session.config, false);
+  });
+
+  it("lets the call override rendered agent fields", () => {
+    const input = toSessionInput(agent, {
+      sessionId: crypto.randomUUID(),
+      targetNumber: "+14155550123",
+      greeting: "Hi Jo, this is Ava.",
+    });
+
+    assert.equal(input.greeting, "Hi Jo, this is Ava.");
+    assert.equal(input.replyPolicy?.blockPii, true);
+  });
+});
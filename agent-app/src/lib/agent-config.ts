@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { callingWindowSchema } from "@/lib/calling-window";
+import { llmProvidersSchema } from "@/lib/llm-providers";
+import { outcomeFieldsSchema } from "@/lib/outcomes";
+import { redactionSchema } from "@/lib/pii";
+import { replyPolicySchema } from "@/lib/reply-policy";
+import { retryPolicySchema } from "@/lib/retry-policy";
+import type { CreateSessionInput } from "@/lib/session-store";
+
+/**
+ * Agent fields shared by single calls and campaigns. Everything except the
+ * destination and customer details.
+ */
+export const agentConfigSchema = z.object({
+  company: z.string().optional(),
+  campaign: z.string().optional(),
+  agentName: z.string().min(2),
+  persona: z.string().optional().default(""),
+  greeting: z.string().min(6),
+  objective: z.string().min(6),
+  guardrails: z.string().optional().default(""),
+  closingStrategy: z.string().optional().default(""),
+  voice: z.string().min(2),
+  language: z.string().min(2),
+  temperature: z.number().min(0).max(1.5).default(0.6),
+  /** Models to try in order; a timeout or error moves on to the next. Defaults to OpenAI. */
+  llmProviders: llmProvidersSchema.optional(),
+  retryPolicy: retryPolicySchema.optional(),
+  /** Local hours the callee may be dialed, evaluated in their time zone. */
+  callingHours: callingWindowSchema.optional(),
+  /** Lets the agent book a follow-up call at a time the customer agrees to. */
+  bookCallbacks: z.boolean().optional(),
+  /** Registered tools the model may call, e.g. `check_availability` or `end_call`. */
+  tools: z.array(z.string().min(1)).optional(),
+  /** Where escalations are transferred. Defaults to `OPERATOR_PHONE_NUMBER`. */
+  transferNumber: z.string().optional(),
+  /** Phrases that hand the call to a human as soon as the customer says them. */
+  escalationKeywords: z.array(z.string().min(2)).optional(),
+  whisperSummary: z.boolean().optional(),
+  /** `stream` talks over a Twilio Media Stream instead of `<Gather>` turns. */
+  conversationMode: z.enum(["gather", "stream"]).optional(),
+  /** Fields extracted as structured JSON after each completed call. */
+  outcomeFields: outcomeFieldsSchema.optional(),
+  voicemailMessage: z.string().optional(),
+  callbackNumber: z.string().optional(),
+  /** Records the whole call. Kept for `RECORDING_RETENTION_DAYS`. */
+  recordCalls: z.boolean().optional(),
+  /** Said before the greeting on recorded calls, e.g. "This call is recorded." */
+  recordingAnnouncement: z.string().optional(),
+  /** Checks every model reply before it is spoken; see `src/lib/reply-policy.ts`. */
+  replyPolicy: replyPolicySchema.optional(),
+  /** Personal data replaced before transcripts are stored; see `src/lib/pii.ts`. */
+  redaction: redactionSchema.optional(),
+});
+
+export type AgentConfigInput = z.infer<typeof agentConfigSchema>;
+
+/**
+ * Session input for a call placed with `agent`. Every agent field is carried
+ * over; `call` adds the destination and overrides rendered fields.
+ */
+export function toSessionInput(
+  agent: AgentConfigInput,
+  call: Omit<CreateSessionInput, keyof AgentConfigInput> & Partial<CreateSessionInput>,
+): CreateSessionInput {
+  return { ...agent, ...call };
+}
+
+/**
+ * Replaces `{{name}}` placeholders with contact variables. Unknown
+ * placeholders are left untouched so missing data is obvious in transcripts.
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string | undefined>,
+): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, key: string) => {
+    const value = variables[key];
+    return value === undefined || value === "" ? match : value;
+  });
+}
@@ -0,0 +1,250 @@
+import { z } from "zod";
+import type { AgentConfigInput } from "@/lib/agent-config";
+import { getDatabase } from "@/lib/db";
+import { serializeSessions, type CallStatus } from "@/lib/session-store";
+
+export type AgentProfile = {
+  profileId: string;
+  name: string;
+  latestVersion: number;
+  archivedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A saved configuration. Versions are immutable once written. */
+export type AgentProfileVersion = {
+  profileId: string;
+  version: number;
+  config: AgentConfigInput;
+  note?: string;
+  createdBy?: string;
+  createdAt: string;
+};
+
+export type VersionOutcomes = {
+  version: number;
+  sessions: number;
+  statuses: Partial<Record<CallStatus, number>>;
+};
+
+/** Points a call or campaign at a saved version instead of an inline config. */
+export const agentReferenceSchema = z.object({
+  agentProfileId: z.string().min(1),
+  /** Defaults to the profile's latest version. */
+  agentVersion: z.number().int().min(1).optional(),
+});
+
+export type AgentReference = z.infer<typeof agentReferenceSchema>;
+
+type ProfileRow = {
+  profile_id: string;
+  name: string;
+  latest_version: number;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type VersionRow = {
+  profile_id: string;
+  version: number;
+  config: string;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+function now() {
+  return new Date().toISOString();
+}
+
+function toProfile(row: ProfileRow): AgentProfile {
+  return {
+    profileId: row.profile_id,
+    name: row.name,
+    latestVersion: row.latest_version,
+    archivedAt: row.archived_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toVersion(row: VersionRow): AgentProfileVersion {
+  return {
+    profileId: row.profile_id,
+    version: row.version,
+    config: JSON.parse(row.config) as AgentConfigInput,
+    note: row.note ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export function listProfiles(): AgentProfile[] {
+  const rows = getDatabase()
+    .prepare(
+      "SELECT * FROM agent_profiles WHERE archived_at IS NULL ORDER BY updated_at DESC",
+    )
+    .all() as ProfileRow[];
+  return rows.map(toProfile);
+}
+
+export function getProfile(profileId: string): AgentProfile | undefined {
+  const row = getDatabase()
+    .prepare("SELECT * FROM agent_profiles WHERE profile_id = ?")
+    .get(profileId) as ProfileRow | undefined;
+  return row ? toProfile(row) : undefined;
+}
+
+export function listVersions(profileId: string): AgentProfileVersion[] {
+  const rows = getDatabase()
+    .prepare(
+      "SELECT * FROM agent_profile_versions WHERE profile_id = ? ORDER BY version DESC",
+    )
+    .all(profileId) as VersionRow[];
+  return rows.map(toVersion);
+}
+
+/** Looks up a version, defaulting to the latest one. */
+export function getVersion(
+  profileId: string,
+  version?: number,
+): AgentProfileVersion | undefined {
+  const row = (
+    version === undefined
+      ? getDatabase()
+          .prepare(
+            `SELECT v.* FROM agent_profile_versions v
+             JOIN agent_profiles p ON p.profile_id = v.profile_id AND p.latest_version = v.version
+             WHERE v.profile_id = ?`,
+          )
+          .get(profileId)
+      : getDatabase()
+          .prepare(
+            "SELECT * FROM agent_profile_versions WHERE profile_id = ? AND version = ?",
+          )
+          .get(profileId, version)
+  ) as VersionRow | undefined;
+  return row ? toVersion(row) : undefined;
+}
+
+/**
+ * Resolves a reference to the exact version it will run with, so sessions
+ * record a concrete version even when the caller asked for "latest".
+ */
+export function resolveAgentReference(
+  reference: AgentReference,
+): AgentProfileVersion | undefined {
+  const profile = getProfile(reference.agentProfileId);
+  if (!profile || profile.archivedAt) return undefined;
+  return getVersion(reference.agentProfileId, reference.agentVersion);
+}
+
+export function createProfile(input: {
+  name: string;
+  config: AgentConfigInput;
+  note?: string;
+  createdBy?: string;
+}): AgentProfileVersion {
+  const db = getDatabase();
+  const profileId = crypto.randomUUID();
+  const timestamp = now();
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO agent_profiles (profile_id, name, latest_version, created_at, updated_at)
+       VALUES (?, ?, 1, ?, ?)`,
+    ).run(profileId, input.name, timestamp, timestamp);
+
+    db.prepare(
+      `INSERT INTO agent_profile_versions (profile_id, version, config, note, created_by, created_at)
+       VALUES (?, 1, ?, ?, ?, ?)`,
+    ).run(
+      profileId,
+      JSON.stringify(input.config),
+      input.note ?? null,
+      input.createdBy ?? null,
+      timestamp,
+    );
+  })();
+
+  return getVersion(profileId, 1)!;
+}
+
+/** Appends a new immutable version and makes it the profile's latest. */
+export function saveVersion(
+  profileId: string,
+  input: {
+    config: AgentConfigInput;
+    name?: string;
+    note?: string;
+    createdBy?: string;
+  },
+): AgentProfileVersion | undefined {
+  const db = getDatabase();
+  const timestamp = now();
+
+  const version = db.transaction(() => {
+    const profile = getProfile(profileId);
+    if (!profile || profile.archivedAt) return undefined;
+
+    const next = profile.latestVersion + 1;
+    db.prepare(
+      `INSERT INTO agent_profile_versions (profile_id, version, config, note, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ).run(
+      profileId,
+      next,
+      JSON.stringify(input.config),
+      input.note ?? null,
+      input.createdBy ?? null,
+      timestamp,
+    );
+
+    db.prepare(
+      "UPDATE agent_profiles SET latest_version = ?, name = ?, updated_at = ? WHERE profile_id = ?",
+    ).run(next, input.name ?? profile.name, timestamp, profileId);
+
+    return next;
+  }).immediate();
+
+  return version === undefined ? undefined : getVersion(profileId, version);
+}
+
+export function archiveProfile(profileId: string) {
+  getDatabase()
+    .prepare(
+      "UPDATE agent_profiles SET archived_at = ?, updated_at = ? WHERE profile_id = ?",
+    )
+    .run(now(), now(), profileId);
+}
+
+/**
+ * Session counts per version and status, for comparing prompt revisions.
+ * Simulated sessions are left out.
+ */
+export function getVersionOutcomes(profileId: string): VersionOutcomes[] {
+  const byVersion = new Map<number, VersionOutcomes>();
+
+  for (const session of serializeSessions()) {
+    if (
+      session.simulated ||
+      session.agentProfileId !== profileId ||
+      session.agentVersion === undefined
+    ) {
+      continue;
+    }
+
+    const entry = byVersion.get(session.agentVersion) ?? {
+      version: session.agentVersion,
+      sessions: 0,
+      statuses: {},
+    };
+    entry.sessions += 1;
+    entry.statuses[session.status] = (entry.statuses[session.status] ?? 0) + 1;
+    byVersion.set(session.agentVersion, entry);
+  }
+
+  return Array.from(byVersion.values()).sort((a, b) => b.version - a.version);
+}
@@ -0,0 +1,261 @@
+import type {
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+} from "openai/resources/chat/completions";
+import { z } from "zod";
+import { listScheduledCalls } from "@/lib/call-scheduler";
+import { bookCallback } from "@/lib/callbacks";
+import { fromLocalTime, isWithinWindow, windowForCallee } from "@/lib/calling-window";
+import {
+  appendToolTurn,
+  querySessions,
+  type CallSession,
+  type ToolInvocation,
+} from "@/lib/session-store";
+import { resolveTimeZone } from "@/lib/time-zones";
+import { transferTarget } from "@/lib/transfers";
+
+/** What the voice route should do with the call after a tool runs. */
+export type ToolAction =
+  | { type: "hangup" }
+  | { type: "transfer"; to: string; reason: string };
+
+/** Model calls per customer turn, so a tool loop cannot stall the call. */
+export const MAX_TOOL_ROUNDS = 3;
+
+/** Said when the model ends the call without a closing line of its own. */
+export const END_CALL_LINE = "Thanks so much for your time today. Goodbye!";
+
+export type ToolResult = {
+  /** Returned to the model as the tool message. */
+  output: unknown;
+  action?: ToolAction;
+};
+
+export type AgentTool<Parameters extends z.ZodObject = z.ZodObject> = {
+  name: string;
+  description: string;
+  parameters: Parameters;
+  handler: (
+    args: z.infer<Parameters>,
+    context: { session: CallSession },
+  ) => ToolResult | Promise<ToolResult>;
+};
+
+type RegisteredTool = {
+  definition: ChatCompletionTool;
+  run: (args: unknown, session: CallSession) => Promise<ToolResult>;
+};
+
+const globalForTools = globalThis as unknown as {
+  agentTools?: Map<string, RegisteredTool>;
+};
+
+const registry = (globalForTools.agentTools ??= new Map<string, RegisteredTool>());
+
+/** Adds a tool agents can enable by name. Registering a name again replaces it. */
+export function registerAgentTool<Parameters extends z.ZodObject>(
+  tool: AgentTool<Parameters>,
+) {
+  registry.set(tool.name, {
+    definition: {
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: z.toJSONSchema(tool.parameters) as Record<string, unknown>,
+      },
+    },
+    run: async (args, session) => {
+      const parsed = tool.parameters.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(
+          parsed.error.issues
+            .map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`)
+            .join("; "),
+        );
+      }
+      return tool.handler(parsed.data, { session });
+    },
+  });
+}
+
+/** Function definitions for the enabled tools that are registered. */
+export function toolDefinitions(names: string[] = []): ChatCompletionTool[] {
+  return names.flatMap((name) => {
+    const tool = registry.get(name);
+    return tool ? [tool.definition] : [];
+  });
+}
+
+/**
+ * Runs one tool call from the model and logs it as a `tool` turn. Failures
+ * are reported back to the model rather than thrown, so it can recover.
+ */
+export async function runToolCall(
+  session: CallSession,
+  call: ChatCompletionMessageToolCall,
+): Promise<ToolResult> {
+  const name = call.type === "function" ? call.function.name : call.custom.name;
+  const invocation: ToolInvocation = {
+    callId: call.id,
+    name,
+    arguments: {},
+    result: null,
+  };
+
+  let result: ToolResult;
+  try {
+    const tool = session.config.tools?.includes(name) ? registry.get(name) : undefined;
+    if (!tool || call.type !== "function") {
+      throw new Error(`Tool ${name} is not available`);
+    }
+
+    invocation.arguments = JSON.parse(call.function.arguments || "{}");
+    result = await tool.run(invocation.arguments, session);
+    invocation.result = result.output;
+  } catch (error) {
+    invocation.error = error instanceof Error ? error.message : "Tool failed";
+    result = { output: { error: invocation.error } };
+  }
+
+  appendToolTurn(session.sessionId, invocation);
+  return result;
+}
+
+const SLOT_STEP_MINUTES = 60;
+const MIN_LEAD_MINUTES = 30;
+const AVAILABILITY_DAYS = 3;
+const MAX_SLOTS = 12;
+const DEFAULT_HOURS = { start: "09:00", end: "17:00" };
+
+function localDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone }).format(date);
+}
+
+registerAgentTool({
+  name: "check_availability",
+  description:
+    "List open follow-up appointment times in the customer's local time. Call before offering times.",
+  parameters: z.object({
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe("Local date as YYYY-MM-DD. Omit for the next few days."),
+  }),
+  handler: ({ date }, { session }) => {
+    const { config } = session;
+    const timeZone = resolveTimeZone(config.targetNumber, config.timeZone);
+    const window = windowForCallee(
+      config.callingHours ?? DEFAULT_HOURS,
+      config.targetNumber,
+      config.timeZone,
+    );
+    const taken = listScheduledCalls(["pending"]).map((call) => Date.parse(call.runAt));
+    const earliest = Date.now() + MIN_LEAD_MINUTES * 60_000;
+
+    const days = date
+      ? [date]
+      : Array.from({ length: AVAILABILITY_DAYS }, (_, index) =>
+          localDate(new Date(Date.now() + index * 24 * 60 * 60_000), timeZone),
+        );
+
+    const slots: string[] = [];
+    for (const day of days) {
+      for (let minutes = 0; minutes < 24 * 60; minutes += SLOT_STEP_MINUTES) {
+        const time = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+        const localTime = `${day}T${time}`;
+        const instant = fromLocalTime(localTime, timeZone);
+        if (
+          instant &&
+          instant.getTime() >= earliest &&
+          isWithinWindow(instant, window) &&
+          !taken.some(
+            (runAt) => Math.abs(runAt - instant.getTime()) < SLOT_STEP_MINUTES * 60_000,
+          )
+        ) {
+          slots.push(localTime);
+        }
+      }
+    }
+
+    return { output: { timeZone, slots: slots.slice(0, MAX_SLOTS) } };
+  },
+});
+
+registerAgentTool({
+  name: "book_appointment",
+  description:
+    "Book a follow-up call with the customer at a time they agreed to, in their local time.",
+  parameters: z.object({
+    localTime: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/)
+      .describe("Agreed local time as YYYY-MM-DDTHH:MM."),
+  }),
+  handler: ({ localTime }, { session }) => {
+    const booked = bookCallback(session, localTime);
+    if (!booked) {
+      throw new Error("That time is in the past or too far ahead");
+    }
+    return { output: { booked: true, runAt: booked.runAt } };
+  },
+});
+
+registerAgentTool({
+  name: "lookup_customer",
+  description:
+    "Look up what is known about the customer, including earlier calls to this number.",
+  parameters: z.object({}),
+  handler: (_args, { session }) => {
+    const { config } = session;
+    const previousCalls = querySessions({
+      phoneNumber: config.targetNumber,
+      order: "desc",
+      limit: 6,
+    })
+      .sessions.filter((record) => record.sessionId !== session.sessionId)
+      .slice(0, 5)
+      .map((record) => ({
+        date: record.createdAt,
+        status: record.status,
+        summary: record.summary ?? null,
+      }));
+
+    return {
+      output: {
+        customerName: config.customerName ?? null,
+        company: config.company ?? null,
+        details: config.variables ?? {},
+        previousCalls,
+      },
+    };
+  },
+});
+
+registerAgentTool({
+  name: "transfer_call",
+  description:
+    "Transfer the customer to a human colleague. Tell the customer before calling this.",
+  parameters: z.object({
+    reason: z.string().describe("Why the customer needs a person."),
+  }),
+  handler: ({ reason }, { session }) => {
+    const to = transferTarget(session.config);
+    if (!to) {
+      throw new Error("No transfer number is configured");
+    }
+    return { output: { transferring: true }, action: { type: "transfer", to, reason } };
+  },
+});
+
+registerAgentTool({
+  name: "end_call",
+  description:
+    "Hang up once the conversation is over and you have said goodbye, or the customer asks to end it.",
+  parameters: z.object({
+    reason: z.string().describe("Why the call is ending."),
+  }),
+  handler: () => ({ output: { ending: true }, action: { type: "hangup" } }),
+});
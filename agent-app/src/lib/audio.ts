@@ -0,0 +1,58 @@
+/**
+ * Conversions between the 8 kHz G.711 μ-law audio Twilio Media Streams carry
+ * and the 16-bit linear PCM speech services produce.
+ */
+
+export const MULAW_SAMPLE_RATE = 8000;
+
+/** Twilio sends and expects 20 ms media frames. */
+export const FRAME_BYTES = 160;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+function encodeMulawSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent -= 1;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  magnitude = ~(sign | (exponent << 4) | mantissa);
+  return magnitude & 0xff;
+}
+
+/**
+ * Converts little-endian 16-bit mono PCM at `sampleRate` to 8 kHz μ-law.
+ * Downsampling averages each window of input samples, which is enough
+ * filtering for telephone-band speech.
+ */
+export function pcm16ToMulaw(pcm: Buffer, sampleRate: number): Buffer {
+  const ratio = sampleRate / MULAW_SAMPLE_RATE;
+  const inputSamples = Math.floor(pcm.length / 2);
+  const output = Buffer.alloc(Math.floor(inputSamples / ratio));
+
+  for (let index = 0; index < output.length; index += 1) {
+    const start = Math.floor(index * ratio);
+    const end = Math.min(Math.max(start + 1, Math.floor((index + 1) * ratio)), inputSamples);
+    let sum = 0;
+    for (let sample = start; sample < end; sample += 1) {
+      sum += pcm.readInt16LE(sample * 2);
+    }
+    output[index] = encodeMulawSample(Math.round(sum / (end - start)));
+  }
+
+  return output;
+}
+
+/** Splits audio into Twilio-sized frames; the last one may be shorter. */
+export function toFrames(audio: Buffer): Buffer[] {
+  const frames: Buffer[] = [];
+  for (let offset = 0; offset < audio.length; offset += FRAME_BYTES) {
+    frames.push(audio.subarray(offset, offset + FRAME_BYTES));
+  }
+  return frames;
+}
@@ -0,0 +1,186 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+
+export const roles = ["viewer", "operator", "admin"] as const;
+
+export type Role = (typeof roles)[number];
+
+export type AuthUser = {
+  userId: string;
+  username: string;
+  role: Role;
+  createdAt: string;
+};
+
+type UserRow = {
+  user_id: string;
+  username: string;
+  password_hash: string;
+  role: string;
+  created_at: string;
+};
+
+export const AUTH_COOKIE = "agent_studio_session";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+function toUser(row: UserRow): AuthUser {
+  return {
+    userId: row.user_id,
+    username: row.username,
+    role: row.role as Role,
+    createdAt: row.created_at,
+  };
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function hasRole(user: AuthUser, minimum: Role): boolean {
+  return roles.indexOf(user.role) >= roles.indexOf(minimum);
+}
+
+export function createUser(input: {
+  username: string;
+  password: string;
+  role: Role;
+}): AuthUser {
+  const user: AuthUser = {
+    userId: crypto.randomUUID(),
+    username: input.username,
+    role: input.role,
+    createdAt: new Date().toISOString(),
+  };
+
+  getDatabase()
+    .prepare(
+      "INSERT INTO users (user_id, username, password_hash, role, created_at) VALUES (?, ?, ?, ?, ?)",
+    )
+    .run(user.userId, user.username, hashPassword(input.password), user.role, user.createdAt);
+
+  return user;
+}
+
+export function listUsers(): AuthUser[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM users ORDER BY created_at")
+    .all() as UserRow[];
+  return rows.map(toUser);
+}
+
+/**
+ * Seeds the first admin from `ADMIN_USERNAME` / `ADMIN_PASSWORD` while the
+ * user table is still empty.
+ */
+export function ensureBootstrapAdmin() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  const { count } = getDatabase()
+    .prepare("SELECT COUNT(*) AS count FROM users")
+    .get() as { count: number };
+
+  if (count === 0) {
+    createUser({ username, password, role: "admin" });
+  }
+}
+
+export function authenticate(username: string, password: string): AuthUser | undefined {
+  const row = getDatabase()
+    .prepare("SELECT * FROM users WHERE username = ?")
+    .get(username) as UserRow | undefined;
+
+  if (!row || !verifyPassword(password, row.password_hash)) return undefined;
+  return toUser(row);
+}
+
+/** Starts a login session and returns the raw token for the cookie. */
+export function createLoginSession(userId: string): { token: string; expiresAt: Date } {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  getDatabase()
+    .prepare(
+      "INSERT INTO auth_sessions (token_hash, user_id, expires_at, created_at) VALUES (?, ?, ?, ?)",
+    )
+    .run(hashToken(token), userId, expiresAt.toISOString(), new Date().toISOString());
+
+  return { token, expiresAt };
+}
+
+export function endLoginSession(token: string) {
+  getDatabase()
+    .prepare("DELETE FROM auth_sessions WHERE token_hash = ?")
+    .run(hashToken(token));
+}
+
+function findUserByToken(token: string): AuthUser | undefined {
+  const row = getDatabase()
+    .prepare(
+      `SELECT users.* FROM auth_sessions
+       JOIN users ON users.user_id = auth_sessions.user_id
+       WHERE auth_sessions.token_hash = ? AND auth_sessions.expires_at > ?`,
+    )
+    .get(hashToken(token), new Date().toISOString()) as UserRow | undefined;
+  return row ? toUser(row) : undefined;
+}
+
+export async function getCurrentUser(): Promise<AuthUser | undefined> {
+  const token = (await cookies()).get(AUTH_COOKIE)?.value;
+  return token ? findUserByToken(token) : undefined;
+}
+
+/**
+ * Resolves the signed-in user and checks they hold at least `minimum`.
+ * Returns the 401/403 response to send back otherwise.
+ */
+export async function authorize(
+  minimum: Role,
+): Promise<{ ok: true; user: AuthUser } | { ok: false; response: Response }> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Sign in required" }, { status: 401 }),
+    };
+  }
+
+  if (!hasRole(user, minimum)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `This action requires the ${minimum} role` },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { ok: true, user };
+}
+
+/** Keeps the country prefix and last four digits, e.g. `+1•••••••0123`. */
+export function maskPhoneNumber(phoneNumber: string): string {
+  if (phoneNumber.length <= 6) return "•".repeat(phoneNumber.length);
+  return `${phoneNumber.slice(0, 2)}${"•".repeat(phoneNumber.length - 6)}${phoneNumber.slice(-4)}`;
+}
@@ -0,0 +1,83 @@
+import { buildVoiceScriptUrl, type DialEnvironment } from "@/lib/call-launcher";
+import { isTerminalStatus } from "@/lib/call-status";
+import {
+  appendMessage,
+  setAiPaused,
+  setPendingLine,
+  type CallSession,
+} from "@/lib/session-store";
+import { getTelephony } from "@/lib/telephony";
+
+const TAKEOVER_LINE = "One moment, I'm connecting you with a colleague now.";
+
+/** A call can be controlled once the provider has accepted it and until it ends. */
+export function isLiveCall(
+  session: CallSession,
+): session is CallSession & { callSid: string } {
+  return Boolean(session.callSid) && !isTerminalStatus(session.status);
+}
+
+export async function hangUpCall(
+  session: CallSession & { callSid: string },
+  actor: string,
+) {
+  await getTelephony().hangUp(session.callSid);
+  appendMessage(session.sessionId, "system", `${actor} ended the call.`);
+}
+
+/** The agent says `line` instead of a model reply on its next turn. */
+export function injectLine(session: CallSession, line: string, actor: string) {
+  setPendingLine(session.sessionId, line);
+  appendMessage(
+    session.sessionId,
+    "system",
+    `${actor} queued a scripted line: "${line}"`,
+  );
+}
+
+/**
+ * Pauses the AI and bridges the customer to `operatorNumber`. When the
+ * operator leg ends the provider calls the voice webhook with `step=operator-done`.
+ */
+export async function takeOverCall(
+  session: CallSession & { callSid: string },
+  operatorNumber: string,
+  actor: string,
+  env: DialEnvironment,
+) {
+  await getTelephony().play(
+    session.callSid,
+    [
+      { type: "say", text: TAKEOVER_LINE },
+      {
+        type: "dial",
+        to: operatorNumber,
+        callerId: env.callerId,
+        actionUrl: buildVoiceScriptUrl(env.publicUrl, session.sessionId, "operator-done"),
+      },
+    ],
+    session.config,
+  );
+
+  setAiPaused(session.sessionId, true);
+  appendMessage(
+    session.sessionId,
+    "system",
+    `${actor} paused the AI and took over the call.`,
+  );
+}
+
+/** Drops the operator leg, if any, and hands the call back to the agent. */
+export async function resumeAi(
+  session: CallSession & { callSid: string },
+  actor: string,
+  env: DialEnvironment,
+) {
+  await getTelephony().redirect(
+    session.callSid,
+    buildVoiceScriptUrl(env.publicUrl, session.sessionId, "resume"),
+  );
+
+  setAiPaused(session.sessionId, false);
+  appendMessage(session.sessionId, "system", `${actor} resumed the AI.`);
+}
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { dialSession } from "@/lib/call-launcher";
+import { openingSteps } from "@/lib/call-script";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession, getSession } from "@/lib/session-store";
+import { getTelephony, type PlaceCallInput } from "@/lib/telephony";
+
+process.env.DATABASE_PATH = ":memory:";
+
+const agent = agentConfigSchema.parse({
+  agentName: "Ava",
+  greeting: "Hi there, this is Ava.",
+  objective: "Book a solar review",
+  voice: "Polly.Joanna",
+  language: "en-US",
+  recordCalls: true,
+  recordingAnnouncement: "This call is recorded for quality purposes.",
+});
+
+const env = { callerId: "+14155550100", publicUrl: "https://agents.example.com" };
+
+function placeCall(config = agent) {
+  return createSession(
+    toSessionInput(config, { sessionId: crypto.randomUUID(), targetNumber: "+14155550123" }),
+  );
+}
+
+describe("dialSession", () => {
+  let placed: PlaceCallInput[];
+
+  beforeEach(() => {
+    setSessionStorage(new MemorySessionStorage());
+    placed = [];
+    mock.method(getTelephony(), "placeCall", async (input: PlaceCallInput) => {
+      placed.push(input);
+      return { callId: "CA123" };
+    });
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("asks the provider to record when the agent records calls", async () => {
+    const session = placeCall();
+
+    await dialSession(session.sessionId, "+14155550123", env);
+
+    assert.equal(
+      placed[0].recordingStatusUrl,
+      `https://agents.example.com/api/recording-status?session=${session.sessionId}`,
+    );
+    assert.equal(getSession(session.sessionId)?.callSid, "CA123");
+  });
+
+  it("does not record other calls", async () => {
+    const session = placeCall({ ...agent, recordCalls: undefined });
+
+    await dialSession(session.sessionId, "+14155550123", env);
+
+    assert.equal(placed[0].recordingStatusUrl, undefined);
+  });
+
+  it("plays the consent announcement before the greeting", () => {
+    const session = placeCall();
+
+    const steps = openingSteps("https://agents.example.com/api/voice-script", session);
+
+    assert.deepEqual(steps.slice(0, 2), [
+      { type: "say", text: "This call is recorded for quality purposes." },
+      { type: "say", text: "Hi there, this is Ava." },
+    ]);
+    assert.equal(
+      getSession(session.sessionId)?.transcript[0].content,
+      "This call is recorded for quality purposes.",
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { DO_NOT_CALL_ERROR, isSuppressed } from "@/lib/do-not-call";
+import {
+  getSession,
+  setCallSid,
+  setError,
+  updateStatus,
+  type AgentSessionConfig,
+} from "@/lib/session-store";
+import { getTelephony } from "@/lib/telephony";
+
+export type DialEnvironment = {
+  callerId: string;
+  publicUrl: string;
+};
+
+export function resolveDialEnvironment():
+  | { ok: true; env: DialEnvironment }
+  | { ok: false; error: string } {
+  const { callerIdEnv } = getTelephony();
+  const callerId = process.env[callerIdEnv];
+  const publicUrl = process.env.PUBLIC_BASE_URL;
+
+  if (!callerId) {
+    return {
+      ok: false,
+      error: `${callerIdEnv} is not configured. Configure it to launch outbound calls.`,
+    };
+  }
+
+  if (!publicUrl) {
+    return {
+      ok: false,
+      error:
+        "PUBLIC_BASE_URL is missing. Set it to the publicly reachable domain handling telephony webhooks.",
+    };
+  }
+
+  return { ok: true, env: { callerId, publicUrl } };
+}
+
+/** Voice webhook URL for a session, optionally at a specific `step`. */
+export function buildVoiceScriptUrl(
+  publicUrl: string,
+  sessionId: string,
+  step?: "resume" | "operator-done" | "escalate" | "whisper" | "transfer-done",
+): string {
+  const url = new URL("/api/voice-script", publicUrl);
+  url.searchParams.set("session", sessionId);
+  if (step) url.searchParams.set("step", step);
+  return url.toString();
+}
+
+/**
+ * Public `wss://` URL of the media stream server for agents in `stream` mode.
+ * `undefined` means the call uses `<Gather>` turns, including when
+ * `MEDIA_STREAM_URL` is not configured or the provider has no media streams.
+ */
+export function mediaStreamUrl(config: AgentSessionConfig): string | undefined {
+  if (config.conversationMode !== "stream" || !getTelephony().supportsMediaStreams) {
+    return undefined;
+  }
+  return process.env.MEDIA_STREAM_URL || undefined;
+}
+
+/**
+ * Places the outbound call for an existing session and marks it queued. On
+ * failure the session is flagged with the provider error and the error rethrown.
+ * Numbers on the do-not-call list fail here without reaching the provider.
+ */
+export async function dialSession(
+  sessionId: string,
+  to: string,
+  env: DialEnvironment,
+): Promise<string> {
+  try {
+    if (isSuppressed(to)) {
+      throw new Error(DO_NOT_CALL_ERROR);
+    }
+
+    const statusUrl = new URL("/api/twilio-status", env.publicUrl);
+    statusUrl.searchParams.set("session", sessionId);
+    const recordingStatusUrl = new URL("/api/recording-status", env.publicUrl);
+    recordingStatusUrl.searchParams.set("session", sessionId);
+
+    const config = getSession(sessionId)?.config;
+    const { callId } = await getTelephony().placeCall({
+      to,
+      from: env.callerId,
+      answerUrl: buildVoiceScriptUrl(env.publicUrl, sessionId),
+      statusUrl: statusUrl.toString(),
+      awaitVoicemailBeep: Boolean(config?.voicemailMessage),
+      recordingStatusUrl: config?.recordCalls ? recordingStatusUrl.toString() : undefined,
+    });
+
+    setCallSid(sessionId, callId);
+    updateStatus(sessionId, "queued");
+    return callId;
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to initiate call";
+    setError(sessionId, message);
+    throw new Error(message);
+  }
+}
@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { getScheduledCall, runSchedulerTick, scheduleCall } from "@/lib/call-scheduler";
+import {
+  attachContactSession,
+  createCampaign,
+  listContacts,
+  markContactRetrying,
+  setCampaignStatus,
+  type CampaignStatus,
+} from "@/lib/campaign-store";
+import { getDatabase } from "@/lib/db";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession, setCallSid } from "@/lib/session-store";
+import { getTelephony, type PlaceCallInput } from "@/lib/telephony";
+
+process.env.DATABASE_PATH = ":memory:";
+
+const agent = agentConfigSchema.parse({
+  agentName: "Ava",
+  greeting: "Hi there, this is Ava.",
+  objective: "Book a solar review",
+  voice: "Polly.Joanna",
+  language: "en-US",
+});
+
+/** A scheduled call some worker claimed `minutesAgo` and never finished. */
+function dialingCall(minutesAgo: number) {
+  const session = createSession(
+    toSessionInput(agent, { sessionId: crypto.randomUUID(), targetNumber: "+14155550123" }),
+  );
+  const call = scheduleCall({ sessionId: session.sessionId, runAt: new Date(), reason: "scheduled" });
+  getDatabase()
+    .prepare("UPDATE scheduled_calls SET status = 'dialing', updated_at = ? WHERE schedule_id = ?")
+    .run(new Date(Date.now() - minutesAgo * 60_000).toISOString(), call.scheduleId);
+  return call;
+}
+
+/** A campaign whose first contact's redial is due; the other contacts are on calls. */
+function campaignRetry(status: CampaignStatus, maxConcurrentCalls = 2) {
+  const campaign = createCampaign({
+    name: "Spring solar",
+    agent,
+    maxConcurrentCalls,
+    callsPerMinute: 10,
+    contacts: ["+14155550123", "+14155550124"].map((to) => ({ to, variables: {} })),
+  });
+  setCampaignStatus(campaign.campaignId, status);
+
+  const [retried, ...others] = listContacts(campaign.campaignId);
+  for (const contact of others) {
+    attachContactSession(contact.contactId, crypto.randomUUID());
+    getDatabase()
+      .prepare("UPDATE campaign_contacts SET status = 'in-progress' WHERE contact_id = ?")
+      .run(contact.contactId);
+  }
+
+  const firstAttempt = crypto.randomUUID();
+  attachContactSession(retried.contactId, firstAttempt);
+  const session = createSession(
+    toSessionInput(agent, { sessionId: crypto.randomUUID(), targetNumber: retried.to }),
+  );
+  markContactRetrying(firstAttempt, session.sessionId);
+  const call = scheduleCall({ sessionId: session.sessionId, runAt: new Date(), reason: "retry" });
+  return { campaign, call };
+}
+
+describe("runSchedulerTick", () => {
+  const saved = { ...process.env };
+  let placed: PlaceCallInput[];
+
+  beforeEach(() => {
+    process.env.TWILIO_CALLER_ID = "+14155550100";
+    process.env.PUBLIC_BASE_URL = "https://agents.example.com";
+    setSessionStorage(new MemorySessionStorage());
+    getDatabase().prepare("DELETE FROM scheduled_calls").run();
+    placed = [];
+    mock.method(getTelephony(), "placeCall", async (input: PlaceCallInput) => {
+      placed.push(input);
+      return { callId: `CA${placed.length}` };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    process.env = { ...saved };
+  });
+
+  it("redials a call a stopped worker left mid-dial", async () => {
+    const call = dialingCall(10);
+
+    await runSchedulerTick();
+
+    assert.equal(placed.length, 1);
+    assert.equal(getScheduledCall(call.scheduleId)?.status, "dialed");
+  });
+
+  it("marks an interrupted call that reached the provider as dialed", async () => {
+    const call = dialingCall(10);
+    setCallSid(call.sessionId, "CA999");
+
+    await runSchedulerTick();
+
+    assert.equal(placed.length, 0);
+    assert.equal(getScheduledCall(call.scheduleId)?.status, "dialed");
+  });
+
+  it("redials a campaign contact within the campaign's limits", async () => {
+    const { campaign, call } = campaignRetry("running");
+
+    await runSchedulerTick();
+
+    assert.equal(placed.length, 1);
+    assert.equal(getScheduledCall(call.scheduleId)?.status, "dialed");
+    assert.equal(listContacts(campaign.campaignId)[0].status, "dialing");
+  });
+
+  it("holds a campaign's redials while it is paused or at its limits", async () => {
+    const paused = campaignRetry("paused");
+    const full = campaignRetry("running", 1);
+
+    await runSchedulerTick();
+
+    assert.equal(placed.length, 0);
+    for (const { call } of [paused, full]) {
+      const held = getScheduledCall(call.scheduleId);
+      assert.equal(held?.status, "pending");
+      assert.ok(held && held.runAt > new Date().toISOString());
+    }
+  });
+
+  it("drops a redial once its campaign is cancelled", async () => {
+    const { campaign, call } = campaignRetry("cancelled");
+
+    await runSchedulerTick();
+
+    assert.equal(placed.length, 0);
+    assert.equal(getScheduledCall(call.scheduleId)?.status, "cancelled");
+    assert.equal(listContacts(campaign.campaignId)[0].status, "cancelled");
+  });
+
+  it("leaves calls another worker is dialing right now", async () => {
+    const call = dialingCall(0);
+
+    await runSchedulerTick();
+
+    assert.equal(placed.length, 0);
+    assert.equal(getScheduledCall(call.scheduleId)?.status, "dialing");
+  });
+});
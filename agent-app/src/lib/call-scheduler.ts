@@ -0,0 +1,346 @@
+import { dialSession, resolveDialEnvironment } from "@/lib/call-launcher";
+import { isWithinWindow, nextAllowedTime, windowForCallee } from "@/lib/calling-window";
+import { openSlots } from "@/lib/campaign-dialer";
+import {
+  cancelContactForSession,
+  getCampaignForSession,
+  markRetryDialing,
+  recordContactOutcome,
+} from "@/lib/campaign-store";
+import { getDatabase } from "@/lib/db";
+import { appendMessage, getSession, type CallSession } from "@/lib/session-store";
+
+/**
+ * Why a call was queued: a redial, a call held back until calling hours, one
+ * an operator booked for later, or a callback the customer agreed to.
+ */
+export type ScheduledCallReason = "retry" | "deferred" | "scheduled" | "callback";
+
+export const scheduledCallStatuses = [
+  "pending",
+  "dialing",
+  "dialed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type ScheduledCallStatus = (typeof scheduledCallStatuses)[number];
+
+export type ScheduledCall = {
+  scheduleId: string;
+  sessionId: string;
+  sourceSessionId?: string;
+  reason: ScheduledCallReason;
+  runAt: string;
+  status: ScheduledCallStatus;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type ScheduledCallRow = {
+  schedule_id: string;
+  session_id: string;
+  source_session_id: string | null;
+  reason: string;
+  run_at: string;
+  status: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const TICK_INTERVAL_MS = 15_000;
+/** A call still `dialing` after this long was left behind by a stopped process. */
+const INTERRUPTED_DIAL_MS = 2 * 60_000;
+
+const globalForScheduler = globalThis as unknown as {
+  callSchedulerTimer?: NodeJS.Timeout;
+  callSchedulerBusy?: boolean;
+};
+
+function now() {
+  return new Date().toISOString();
+}
+
+function toScheduledCall(row: ScheduledCallRow): ScheduledCall {
+  return {
+    scheduleId: row.schedule_id,
+    sessionId: row.session_id,
+    sourceSessionId: row.source_session_id ?? undefined,
+    reason: row.reason as ScheduledCallReason,
+    runAt: row.run_at,
+    status: row.status as ScheduledCallStatus,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Queues an already created draft session to be dialed at `runAt`. */
+export function scheduleCall(input: {
+  sessionId: string;
+  runAt: Date;
+  reason: ScheduledCallReason;
+  sourceSessionId?: string;
+}): ScheduledCall {
+  const timestamp = now();
+  const scheduleId = crypto.randomUUID();
+
+  getDatabase()
+    .prepare(
+      `INSERT INTO scheduled_calls (schedule_id, session_id, source_session_id, reason, run_at, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`,
+    )
+    .run(
+      scheduleId,
+      input.sessionId,
+      input.sourceSessionId ?? null,
+      input.reason,
+      input.runAt.toISOString(),
+      timestamp,
+      timestamp,
+    );
+
+  return getScheduledCall(scheduleId)!;
+}
+
+export function getScheduledCall(scheduleId: string): ScheduledCall | undefined {
+  const row = getDatabase()
+    .prepare("SELECT * FROM scheduled_calls WHERE schedule_id = ?")
+    .get(scheduleId) as ScheduledCallRow | undefined;
+  return row ? toScheduledCall(row) : undefined;
+}
+
+export function findScheduledCallBySource(
+  sourceSessionId: string,
+  reason: ScheduledCallReason,
+): ScheduledCall | undefined {
+  const row = getDatabase()
+    .prepare(
+      `SELECT * FROM scheduled_calls WHERE source_session_id = ? AND reason = ?
+       ORDER BY created_at DESC LIMIT 1`,
+    )
+    .get(sourceSessionId, reason) as ScheduledCallRow | undefined;
+  return row ? toScheduledCall(row) : undefined;
+}
+
+function setScheduledCallStatus(
+  scheduleId: string,
+  status: ScheduledCallStatus,
+  lastError?: string,
+) {
+  getDatabase()
+    .prepare(
+      "UPDATE scheduled_calls SET status = ?, last_error = ?, updated_at = ? WHERE schedule_id = ?",
+    )
+    .run(status, lastError ?? null, now(), scheduleId);
+}
+
+/** Calls in the given states, soonest first. */
+export function listScheduledCalls(
+  statuses: ScheduledCallStatus[] = ["pending"],
+): ScheduledCall[] {
+  const rows = getDatabase()
+    .prepare(
+      `SELECT * FROM scheduled_calls
+       WHERE status IN (${statuses.map(() => "?").join(", ")})
+       ORDER BY run_at`,
+    )
+    .all(...statuses) as ScheduledCallRow[];
+  return rows.map(toScheduledCall);
+}
+
+/** Cancels one call if it has not been dialed yet; returns it when cancelled. */
+export function cancelScheduledCall(scheduleId: string): ScheduledCall | undefined {
+  const row = getDatabase()
+    .prepare(
+      `UPDATE scheduled_calls SET status = 'cancelled', updated_at = ?
+       WHERE schedule_id = ? AND status = 'pending'
+       RETURNING *`,
+    )
+    .get(now(), scheduleId) as ScheduledCallRow | undefined;
+  return row ? toScheduledCall(row) : undefined;
+}
+
+/** Moves one call to `runAt` if it has not been dialed yet; returns it when moved. */
+export function moveScheduledCall(scheduleId: string, runAt: Date): ScheduledCall | undefined {
+  const row = getDatabase()
+    .prepare(
+      `UPDATE scheduled_calls SET run_at = ?, updated_at = ?
+       WHERE schedule_id = ? AND status = 'pending'
+       RETURNING *`,
+    )
+    .get(runAt.toISOString(), now(), scheduleId) as ScheduledCallRow | undefined;
+  return row ? toScheduledCall(row) : undefined;
+}
+
+function rescheduleCall(scheduleId: string, runAt: Date) {
+  getDatabase()
+    .prepare(
+      "UPDATE scheduled_calls SET status = 'pending', run_at = ?, updated_at = ? WHERE schedule_id = ?",
+    )
+    .run(runAt.toISOString(), now(), scheduleId);
+}
+
+/** Cancels pending scheduled dials for the given sessions. */
+export function cancelScheduledCalls(sessionIds: string[]) {
+  const cancel = getDatabase().prepare(
+    "UPDATE scheduled_calls SET status = 'cancelled', updated_at = ? WHERE session_id = ? AND status = 'pending'",
+  );
+  for (const sessionId of sessionIds) {
+    cancel.run(now(), sessionId);
+  }
+}
+
+/** Atomically claims the next due call so concurrent workers never double-dial. */
+function claimDueCall(): ScheduledCall | undefined {
+  const row = getDatabase()
+    .prepare(
+      `UPDATE scheduled_calls
+       SET status = 'dialing', updated_at = ?
+       WHERE schedule_id = (
+         SELECT schedule_id FROM scheduled_calls
+         WHERE status = 'pending' AND run_at <= ?
+         ORDER BY run_at LIMIT 1
+       )
+       RETURNING *`,
+    )
+    .get(now(), now()) as ScheduledCallRow | undefined;
+  return row ? toScheduledCall(row) : undefined;
+}
+
+/**
+ * Claims one call stuck in `dialing`. Touching `updated_at` makes it fresh
+ * again, so other workers recovering at the same time skip it.
+ */
+function claimInterruptedCall(): ScheduledCall | undefined {
+  const cutoff = new Date(Date.now() - INTERRUPTED_DIAL_MS).toISOString();
+  const row = getDatabase()
+    .prepare(
+      `UPDATE scheduled_calls
+       SET updated_at = ?
+       WHERE schedule_id = (
+         SELECT schedule_id FROM scheduled_calls
+         WHERE status = 'dialing' AND updated_at <= ?
+         ORDER BY run_at LIMIT 1
+       )
+       RETURNING *`,
+    )
+    .get(now(), cutoff) as ScheduledCallRow | undefined;
+  return row ? toScheduledCall(row) : undefined;
+}
+
+/**
+ * Calls left `dialing` by a process that stopped mid-dial. Ones that reached
+ * Twilio are marked dialed; the rest go back in the queue. Calls another
+ * worker is dialing right now are too recent to be claimed.
+ */
+function recoverInterruptedCalls() {
+  for (let call = claimInterruptedCall(); call; call = claimInterruptedCall()) {
+    if (getSession(call.sessionId)?.callSid) {
+      setScheduledCallStatus(call.scheduleId, "dialed");
+    } else {
+      rescheduleCall(call.scheduleId, new Date());
+    }
+  }
+}
+
+/**
+ * Pushes a due call back when the callee's calling hours have closed since it
+ * was queued, e.g. because the server was down when it was due.
+ */
+function deferIfOutsideHours(due: ScheduledCall, session: CallSession): boolean {
+  const { callingHours, targetNumber, timeZone } = session.config;
+  if (!callingHours) return false;
+
+  const window = windowForCallee(callingHours, targetNumber, timeZone);
+  const current = new Date();
+  if (isWithinWindow(current, window)) return false;
+
+  const runAt = nextAllowedTime(current, window);
+  if (!runAt) {
+    recordContactOutcome(session.sessionId, "failed");
+    setScheduledCallStatus(due.scheduleId, "failed", "Calling hours never open");
+    return true;
+  }
+
+  rescheduleCall(due.scheduleId, runAt);
+  appendMessage(
+    session.sessionId,
+    "system",
+    `Outside calling hours when due; moved to ${runAt.toISOString()}.`,
+  );
+  return true;
+}
+
+/**
+ * A campaign's redials follow the campaign: they wait while it is paused or
+ * at its pacing limits, and are dropped once it has been cancelled.
+ */
+function holdForCampaign(due: ScheduledCall): boolean {
+  const campaign = getCampaignForSession(due.sessionId);
+  if (!campaign) return false;
+
+  if (campaign.status === "cancelled" || campaign.status === "completed") {
+    cancelContactForSession(due.sessionId);
+    setScheduledCallStatus(due.scheduleId, "cancelled", `Campaign is ${campaign.status}`);
+    return true;
+  }
+  if (campaign.status === "running" && openSlots(campaign) > 0) return false;
+
+  rescheduleCall(due.scheduleId, new Date(Date.now() + TICK_INTERVAL_MS));
+  return true;
+}
+
+/** Dials every scheduled call whose time has come. */
+export async function runSchedulerTick() {
+  if (globalForScheduler.callSchedulerBusy) return;
+
+  const dialEnv = resolveDialEnvironment();
+  if (!dialEnv.ok) return;
+
+  globalForScheduler.callSchedulerBusy = true;
+  try {
+    recoverInterruptedCalls();
+
+    let due = claimDueCall();
+    while (due) {
+      const session = getSession(due.sessionId);
+      if (!session) {
+        setScheduledCallStatus(due.scheduleId, "failed", "Session no longer exists");
+      } else if (!holdForCampaign(due) && !deferIfOutsideHours(due, session)) {
+        markRetryDialing(session.sessionId);
+        try {
+          await dialSession(session.sessionId, session.config.targetNumber, dialEnv.env);
+          setScheduledCallStatus(due.scheduleId, "dialed");
+        } catch (error) {
+          recordContactOutcome(session.sessionId, "failed");
+          setScheduledCallStatus(
+            due.scheduleId,
+            "failed",
+            error instanceof Error ? error.message : "Failed to initiate call",
+          );
+        }
+      }
+      due = claimDueCall();
+    }
+  } finally {
+    globalForScheduler.callSchedulerBusy = false;
+  }
+}
+
+/**
+ * Starts the background scheduler loop once per server process. Calls are
+ * stored in `scheduled_calls`, so anything queued before a restart is picked
+ * up on the first tick.
+ */
+export function startScheduler() {
+  if (globalForScheduler.callSchedulerTimer) return;
+
+  void runSchedulerTick();
+
+  globalForScheduler.callSchedulerTimer = setInterval(() => {
+    void runSchedulerTick();
+  }, TICK_INTERVAL_MS);
+}
@@ -0,0 +1,261 @@
+import {
+  END_CALL_LINE,
+  MAX_TOOL_ROUNDS,
+  runToolCall,
+  toolDefinitions,
+  type ToolAction,
+} from "@/lib/agent-tools";
+import { mediaStreamUrl } from "@/lib/call-launcher";
+import { bookCallback, extractCallbackTime } from "@/lib/callbacks";
+import { detectOptOut, OPT_OUT_GOODBYE, recordOptOut } from "@/lib/do-not-call";
+import { completeChat } from "@/lib/llm-providers";
+import { enforceReplyPolicy } from "@/lib/reply-policy";
+import {
+  appendMessage,
+  ensureGreetingCaptured,
+  fallbackLine,
+  getMessagesForModel,
+  getSession,
+  recordingAnnouncement,
+  setPendingLine,
+  updateStatus,
+  type CallSession,
+} from "@/lib/session-store";
+import type { VoiceStep } from "@/lib/telephony";
+import {
+  beginTransfer,
+  detectEscalation,
+  transferTarget,
+  TRANSFER_LINE,
+  type Escalation,
+} from "@/lib/transfers";
+
+/**
+ * What a `<Gather>` call plays at each point of the conversation. The voice
+ * webhook renders these steps for the phone; the simulator renders the same
+ * steps for typed messages. `requestUrl` is the voice webhook URL that action
+ * and step URLs are derived from.
+ */
+
+const REPEAT_PROMPT = "I didn't quite catch that. Could you say that again?";
+
+/** How long the human's phone rings before the AI takes the call back. */
+const TRANSFER_RING_SECONDS = 25;
+
+export function buildActionUrl(requestUrl: string, sessionId: string): string {
+  const url = new URL(requestUrl);
+  url.searchParams.set("session", sessionId);
+  url.searchParams.delete("step");
+  return url.toString();
+}
+
+export function buildStepUrl(requestUrl: string, sessionId: string, step: string): string {
+  const url = new URL(buildActionUrl(requestUrl, sessionId));
+  url.searchParams.set("step", step);
+  return url.toString();
+}
+
+/**
+ * Hands the rest of the conversation to the media stream server, which speaks
+ * `prompt` (or the opening) and takes over turn-taking.
+ */
+function connectStream(streamUrl: string, sessionId: string, prompt?: string): VoiceStep {
+  return {
+    type: "stream",
+    url: streamUrl,
+    parameters: prompt ? { session: sessionId, prompt } : { session: sessionId },
+  };
+}
+
+/** Says `prompt` and waits for the customer, over the stream in `stream` mode. */
+export function listen(requestUrl: string, session: CallSession, prompt: string): VoiceStep {
+  const streamUrl = mediaStreamUrl(session.config);
+  if (streamUrl) {
+    return connectStream(streamUrl, session.sessionId, prompt);
+  }
+
+  return {
+    type: "gather",
+    prompt,
+    actionUrl: buildActionUrl(requestUrl, session.sessionId),
+  };
+}
+
+/** Greeting and opening question once a person has answered. */
+export function openingSteps(requestUrl: string, session: CallSession): VoiceStep[] {
+  ensureGreetingCaptured(session.sessionId, session.config.greeting);
+  updateStatus(session.sessionId, "in-progress");
+
+  const streamUrl = mediaStreamUrl(session.config);
+  if (streamUrl) {
+    return [connectStream(streamUrl, session.sessionId)];
+  }
+
+  const announcement = recordingAnnouncement(session.config);
+  return [
+    ...(announcement ? [{ type: "say" as const, text: announcement }] : []),
+    { type: "say", text: session.config.greeting },
+    listen(requestUrl, session, session.config.openingQuestion),
+  ];
+}
+
+/**
+ * Warm transfer: says `line`, then dials the human. With `whisperSummary`
+ * they hear a briefing before being connected; the provider reports the
+ * outcome to `step=transfer-done`. Streamed calls have already said the line.
+ */
+export function transferCall(
+  requestUrl: string,
+  session: CallSession,
+  to: string,
+  escalation: Escalation,
+  line?: string,
+): VoiceStep[] {
+  beginTransfer(session, to, escalation);
+  appendMessage(
+    session.sessionId,
+    "system",
+    `Transferring to ${to} (${escalation.trigger}: ${escalation.reason}).`,
+  );
+
+  const steps: VoiceStep[] = line ? [{ type: "say", text: line }] : [];
+  steps.push({
+    type: "dial",
+    to,
+    actionUrl: buildStepUrl(requestUrl, session.sessionId, "transfer-done"),
+    timeoutSeconds: TRANSFER_RING_SECONDS,
+    whisperUrl: session.config.whisperSummary
+      ? buildStepUrl(requestUrl, session.sessionId, "whisper")
+      : undefined,
+  });
+  return steps;
+}
+
+/**
+ * An operator's queued line wins over the model for exactly one turn.
+ * Otherwise the model may call the agent's tools before it answers; a tool
+ * that ends or transfers the call stops the loop.
+ */
+async function generateReply(
+  session: CallSession,
+): Promise<{ reply: string; action?: ToolAction; fromOperator?: boolean }> {
+  if (session.pendingLine) {
+    setPendingLine(session.sessionId, undefined);
+    return { reply: session.pendingLine, fromOperator: true };
+  }
+
+  const tools = toolDefinitions(session.config.tools);
+
+  try {
+    const messages = getMessagesForModel(session.sessionId);
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round += 1) {
+      const message = await completeChat(session.config.llmProviders, {
+        messages,
+        temperature: session.config.temperature,
+        tools,
+      });
+
+      const content = message.content?.trim();
+      if (!message.tool_calls?.length) {
+        return { reply: content || fallbackLine() };
+      }
+
+      messages.push(message);
+      for (const call of message.tool_calls) {
+        const result = await runToolCall(session, call);
+        if (result.action) {
+          return {
+            reply:
+              content ||
+              (result.action.type === "transfer" ? TRANSFER_LINE : END_CALL_LINE),
+            action: result.action,
+          };
+        }
+        messages.push({
+          role: "tool",
+          tool_call_id: call.id,
+          content: JSON.stringify(result.output),
+        });
+      }
+    }
+
+    return { reply: fallbackLine() };
+  } catch {
+    return { reply: fallbackLine() };
+  }
+}
+
+/** Says the agent's last line, then hangs up or transfers to a human. */
+function finishCall(
+  requestUrl: string,
+  session: CallSession,
+  reply: string,
+  action: ToolAction,
+): VoiceStep[] {
+  if (action.type === "transfer") {
+    return transferCall(
+      requestUrl,
+      session,
+      action.to,
+      { trigger: "model", reason: action.reason },
+      reply,
+    );
+  }
+
+  appendMessage(session.sessionId, "system", "Agent ended the call.");
+  return [{ type: "say", text: reply }, { type: "hangup" }];
+}
+
+/**
+ * One customer turn: opt-outs and escalation keywords are handled without the
+ * model, otherwise the agent replies and listens again. An empty
+ * `speechResult` means nothing was heard.
+ */
+export async function conversationTurn(
+  requestUrl: string,
+  session: CallSession,
+  speechResult: string,
+): Promise<VoiceStep[]> {
+  const { sessionId } = session;
+  updateStatus(sessionId, "in-progress");
+
+  if (!speechResult) {
+    return [
+      { type: "say", text: REPEAT_PROMPT },
+      listen(requestUrl, session, session.config.openingQuestion),
+    ];
+  }
+
+  appendMessage(sessionId, "user", speechResult);
+
+  if (detectOptOut(speechResult)) {
+    recordOptOut(session, speechResult);
+    return [{ type: "say", text: OPT_OUT_GOODBYE }, { type: "hangup" }];
+  }
+
+  const transferTo = transferTarget(session.config);
+  const escalation = transferTo && detectEscalation(speechResult, session.config);
+  if (transferTo && escalation) {
+    appendMessage(sessionId, "assistant", TRANSFER_LINE);
+    return transferCall(requestUrl, session, transferTo, escalation, TRANSFER_LINE);
+  }
+
+  const generated = await generateReply(session);
+  const { reply, localTime } = extractCallbackTime(generated.reply);
+  // Operators answer for their own lines; only model replies are policed, and
+  // against the transcript as it is now, with this customer turn in it.
+  const { reply: assistantReply, replaced } = generated.fromOperator
+    ? { reply, replaced: false }
+    : await enforceReplyPolicy(getSession(sessionId) ?? session, reply);
+  appendMessage(sessionId, "assistant", assistantReply);
+  if (localTime && !replaced && session.config.bookCallbacks) {
+    bookCallback(session, localTime);
+  }
+
+  if (generated.action) {
+    return finishCall(requestUrl, session, assistantReply, generated.action);
+  }
+
+  return [listen(requestUrl, session, assistantReply)];
+}
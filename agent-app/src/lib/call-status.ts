@@ -0,0 +1,29 @@
+import type { CallStatus } from "@/lib/session-store";
+
+export function mapTwilioStatus(status: string): CallStatus {
+  switch (status) {
+    case "initiated":
+    case "queued":
+      return "queued";
+    case "ringing":
+      return "ringing";
+    case "answered":
+    case "in-progress":
+      return "in-progress";
+    case "completed":
+      return "completed";
+    case "no-answer":
+      return "no-answer";
+    default:
+      return "failed";
+  }
+}
+
+export function isTerminalStatus(status: CallStatus): boolean {
+  return (
+    status === "completed" ||
+    status === "no-answer" ||
+    status === "voicemail" ||
+    status === "failed"
+  );
+}
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { listScheduledCalls } from "@/lib/call-scheduler";
+import { bookCallback } from "@/lib/callbacks";
+import { getDatabase } from "@/lib/db";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession, serializeSessions } from "@/lib/session-store";
+
+process.env.DATABASE_PATH = ":memory:";
+
+const agent = agentConfigSchema.parse({
+  agentName: "Ava",
+  greeting: "Hi there, this is Ava.",
+  objective: "Book a solar review",
+  voice: "Polly.Joanna",
+  language: "en-US",
+});
+
+/** `days` from now as a wall-clock time in UTC, the zone the sessions below use. */
+const inDays = (days: number) =>
+  new Date(Date.now() + days * 24 * 60 * 60_000).toISOString().slice(0, 16);
+
+describe("bookCallback", () => {
+  beforeEach(() => {
+    setSessionStorage(new MemorySessionStorage());
+    getDatabase().prepare("DELETE FROM scheduled_calls").run();
+  });
+
+  it("moves an earlier booking from the same call instead of adding another", () => {
+    const session = createSession(
+      toSessionInput(agent, {
+        sessionId: crypto.randomUUID(),
+        targetNumber: "+14155550123",
+        timeZone: "UTC",
+      }),
+    );
+
+    const first = bookCallback(session, inDays(1));
+    const second = bookCallback(session, inDays(2));
+
+    const pending = listScheduledCalls();
+    assert.equal(pending.length, 1);
+    assert.equal(pending[0].runAt, second?.runAt);
+    assert.notEqual(first?.runAt, second?.runAt);
+    assert.equal(serializeSessions().length, 2);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  findScheduledCallBySource,
+  moveScheduledCall,
+  scheduleCall,
+  type ScheduledCall,
+} from "@/lib/call-scheduler";
+import { fromLocalTime, nextAllowedTime, windowForCallee } from "@/lib/calling-window";
+import { appendMessage, createSession, type CallSession } from "@/lib/session-store";
+import { resolveTimeZone } from "@/lib/time-zones";
+
+/** Matches the marker the system prompt asks the agent to end a booking reply with. */
+const CALLBACK_MARKER = /\[\[\s*callback\s+(\d{4}-\d{2}-\d{2}T\d{2}:\d{2})\s*\]\]/i;
+
+const MAX_CALLBACK_DAYS = 90;
+
+/** Splits a callback marker off a model reply so it is never spoken. */
+export function extractCallbackTime(reply: string): { reply: string; localTime?: string } {
+  const match = reply.match(CALLBACK_MARKER);
+  if (!match) return { reply };
+
+  return {
+    reply: reply.replace(CALLBACK_MARKER, "").replace(/\s{2,}/g, " ").trim(),
+    localTime: match[1],
+  };
+}
+
+function createCallbackSession(session: CallSession): string {
+  const sessionId = crypto.randomUUID();
+  createSession({
+    ...session.config,
+    sessionId,
+    agentProfileId: session.agentProfileId,
+    agentVersion: session.agentVersion,
+  });
+  return sessionId;
+}
+
+/**
+ * Books a follow-up call for the same contact at a wall-clock time in their
+ * zone, moved into calling hours if needed. A later booking in the same call
+ * moves the earlier one, session and all, unless it has already been dialed.
+ * Simulated calls only note the time.
+ */
+export function bookCallback(
+  session: CallSession,
+  localTime: string,
+): Pick<ScheduledCall, "runAt"> | undefined {
+  const { config } = session;
+  const timeZone = resolveTimeZone(config.targetNumber, config.timeZone);
+  const requested = fromLocalTime(localTime, timeZone);
+  const latest = Date.now() + MAX_CALLBACK_DAYS * 24 * 60 * 60_000;
+
+  if (!requested || requested.getTime() <= Date.now() || requested.getTime() > latest) {
+    appendMessage(
+      session.sessionId,
+      "system",
+      `Callback time ${localTime} (${timeZone}) is not in the next ${MAX_CALLBACK_DAYS} days; nothing was booked.`,
+    );
+    return undefined;
+  }
+
+  const runAt = config.callingHours
+    ? nextAllowedTime(
+        requested,
+        windowForCallee(config.callingHours, config.targetNumber, config.timeZone),
+      )
+    : requested;
+
+  if (!runAt) {
+    appendMessage(
+      session.sessionId,
+      "system",
+      `Callback time ${localTime} (${timeZone}) not booked: the calling hours never open.`,
+    );
+    return undefined;
+  }
+
+  const localRunAt = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(runAt);
+
+  if (session.simulated) {
+    appendMessage(
+      session.sessionId,
+      "system",
+      `Callback for ${localRunAt} (${timeZone}) not booked: simulated call.`,
+    );
+    return { runAt: runAt.toISOString() };
+  }
+
+  const previous = findScheduledCallBySource(session.sessionId, "callback");
+  const scheduled =
+    (previous && moveScheduledCall(previous.scheduleId, runAt)) ??
+    scheduleCall({
+      sessionId: createCallbackSession(session),
+      sourceSessionId: session.sessionId,
+      reason: "callback",
+      runAt,
+    });
+
+  appendMessage(
+    session.sessionId,
+    "system",
+    `Callback booked for ${localRunAt} (${timeZone}).`,
+  );
+
+  return scheduled;
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { callingWindowSchema, nextAllowedTime } from "@/lib/calling-window";
+
+const window = { start: "09:00", end: "17:00", timeZone: "America/New_York" };
+
+describe("callingWindowSchema", () => {
+  it("rejects a window that starts when it ends", () => {
+    const parsed = callingWindowSchema.safeParse({ ...window, end: "09:00" });
+
+    assert.equal(parsed.success, false);
+    assert.deepEqual(parsed.error?.issues[0].path, ["end"]);
+  });
+
+  it("accepts windows that wrap midnight", () => {
+    assert.equal(callingWindowSchema.safeParse({ ...window, start: "22:00", end: "02:00" }).success, true);
+  });
+});
+
+describe("nextAllowedTime", () => {
+  it("keeps a time inside the window", () => {
+    const from = new Date("2025-03-04T15:00:00Z");
+    assert.equal(nextAllowedTime(from, window), from);
+  });
+
+  it("moves to the next opening in the window's zone", () => {
+    const from = new Date("2025-03-04T23:02:00Z");
+    assert.equal(nextAllowedTime(from, window)?.toISOString(), "2025-03-05T14:00:00.000Z");
+  });
+
+  it("finds nothing when the window never opens", () => {
+    const from = new Date("2025-03-04T23:02:00Z");
+    assert.equal(nextAllowedTime(from, { ...window, end: "09:00" }), undefined);
+  });
+});
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { inferTimeZone, isValidTimeZone } from "@/lib/time-zones";
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM");
+
+export const callingWindowSchema = z
+  .object({
+    start: timeOfDay,
+    end: timeOfDay,
+    /** IANA zone the window is expressed in. Defaults to the server zone. */
+    timeZone: z.string().refine(isValidTimeZone, "Unknown IANA time zone").optional(),
+  })
+  .refine((window) => window.start !== window.end, {
+    message: "start and end must differ",
+    path: ["end"],
+  });
+
+export type CallingWindow = z.infer<typeof callingWindowSchema>;
+
+const STEP_MINUTES = 5;
+const SEARCH_LIMIT_MINUTES = 8 * 24 * 60;
+
+function toMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesOfDay(date: Date, timeZone?: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/** True when `date` falls inside the window. Windows may wrap midnight. */
+export function isWithinWindow(date: Date, window: CallingWindow): boolean {
+  const current = minutesOfDay(date, window.timeZone);
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Earliest moment at or after `from` that falls inside the window, searched
+ * in five-minute steps so DST shifts are handled by `Intl`. Returns
+ * `undefined` when none is found within eight days, e.g. for a stored window
+ * whose start equals its end; callers must not dial then.
+ */
+export function nextAllowedTime(from: Date, window: CallingWindow): Date | undefined {
+  if (isWithinWindow(from, window)) return from;
+
+  const candidate = new Date(from);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(
+    Math.ceil(candidate.getMinutes() / STEP_MINUTES) * STEP_MINUTES,
+  );
+
+  for (let elapsed = 0; elapsed < SEARCH_LIMIT_MINUTES; elapsed += STEP_MINUTES) {
+    if (isWithinWindow(candidate, window)) return candidate;
+    candidate.setMinutes(candidate.getMinutes() + STEP_MINUTES);
+  }
+
+  return undefined;
+}
+
+/**
+ * Re-anchors a window to the callee: an explicit `timeZone` wins, then the
+ * zone inferred from the number, then the window's own zone.
+ */
+export function windowForCallee(
+  window: CallingWindow,
+  phoneNumber: string,
+  timeZone?: string,
+): CallingWindow {
+  return {
+    ...window,
+    timeZone: timeZone ?? inferTimeZone(phoneNumber) ?? window.timeZone,
+  };
+}
+
+function zoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+  );
+  return Math.round((wallClock - date.getTime()) / 60_000);
+}
+
+/**
+ * Converts a wall-clock `YYYY-MM-DDTHH:MM` in `timeZone` to an instant.
+ * Returns `undefined` for malformed input.
+ */
+export function fromLocalTime(localTime: string, timeZone: string): Date | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(localTime)) return undefined;
+
+  const naive = new Date(`${localTime}:00Z`);
+  if (Number.isNaN(naive.getTime())) return undefined;
+
+  // Apply the offset twice so a guess on the wrong side of a DST change settles.
+  const guess = naive.getTime() - zoneOffsetMinutes(naive, timeZone) * 60_000;
+  return new Date(
+    naive.getTime() - zoneOffsetMinutes(new Date(guess), timeZone) * 60_000,
+  );
+}
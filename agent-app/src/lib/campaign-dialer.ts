@@ -0,0 +1,158 @@
+import { renderTemplate, toSessionInput } from "@/lib/agent-config";
+import { dialSession, resolveDialEnvironment } from "@/lib/call-launcher";
+import { isWithinWindow, nextAllowedTime, windowForCallee } from "@/lib/calling-window";
+import {
+  attachContactSession,
+  claimNextContact,
+  countActiveContacts,
+  countAttemptsSince,
+  countPendingContacts,
+  deferContact,
+  failContact,
+  listCampaigns,
+  setCampaignStatus,
+  type Campaign,
+  type CampaignContact,
+} from "@/lib/campaign-store";
+import { createSession } from "@/lib/session-store";
+import { isValidTimeZone } from "@/lib/time-zones";
+
+const TICK_INTERVAL_MS = 5000;
+
+const globalForDialer = globalThis as unknown as {
+  campaignDialerTimer?: NodeJS.Timeout;
+  campaignDialerBusy?: boolean;
+};
+
+/** Calls the campaign may start now under its concurrency and per-minute limits. */
+export function openSlots(campaign: Campaign): number {
+  const active = countActiveContacts(campaign.campaignId);
+  const since = new Date(Date.now() - 60_000).toISOString();
+  const recent = countAttemptsSince(campaign.campaignId, since);
+
+  return Math.max(
+    0,
+    Math.min(
+      campaign.maxConcurrentCalls - active,
+      campaign.callsPerMinute - recent,
+    ),
+  );
+}
+
+/** A `timeZone` column in the contact list overrides the inferred zone. */
+function contactTimeZone(contact: CampaignContact): string | undefined {
+  const { timeZone } = contact.variables;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+}
+
+/**
+ * When the contact is outside the agent's calling hours, the next allowed
+ * time, or `null` when the hours never open.
+ */
+function deferralFor(campaign: Campaign, contact: CampaignContact): Date | null | undefined {
+  const { callingHours } = campaign.agent;
+  if (!callingHours) return undefined;
+
+  const window = windowForCallee(callingHours, contact.to, contactTimeZone(contact));
+  const current = new Date();
+  if (isWithinWindow(current, window)) return undefined;
+  return nextAllowedTime(current, window) ?? null;
+}
+
+function createContactSession(campaign: Campaign, contact: CampaignContact): string {
+  const { agent } = campaign;
+  const variables = {
+    ...contact.variables,
+    customerName: contact.customerName,
+    company: agent.company,
+  };
+  const sessionId = crypto.randomUUID();
+
+  createSession(
+    toSessionInput(agent, {
+      sessionId,
+      greeting: renderTemplate(agent.greeting, variables),
+      objective: renderTemplate(agent.objective, variables),
+      closingStrategy: renderTemplate(agent.closingStrategy, variables),
+      targetNumber: contact.to,
+      customerName: contact.customerName,
+      campaign: agent.campaign ?? campaign.name,
+      variables: contact.variables,
+      timeZone: contactTimeZone(contact),
+      agentProfileId: campaign.agentProfileId,
+      agentVersion: campaign.agentVersion,
+    }),
+  );
+
+  attachContactSession(contact.contactId, sessionId);
+  return sessionId;
+}
+
+async function advanceCampaign(campaign: Campaign) {
+  const dialEnv = resolveDialEnvironment();
+  if (!dialEnv.ok) {
+    setCampaignStatus(campaign.campaignId, "paused", dialEnv.error);
+    return;
+  }
+
+  let slots = openSlots(campaign);
+  while (slots > 0) {
+    const contact = claimNextContact(campaign.campaignId);
+    if (!contact) break;
+
+    const notBefore = deferralFor(campaign, contact);
+    if (notBefore === null) {
+      failContact(contact.contactId, "Calling hours never open");
+      continue;
+    }
+    if (notBefore) {
+      deferContact(contact.contactId, notBefore);
+      continue;
+    }
+    slots -= 1;
+
+    const sessionId = createContactSession(campaign, contact);
+    try {
+      await dialSession(sessionId, contact.to, dialEnv.env);
+    } catch (error) {
+      failContact(
+        contact.contactId,
+        error instanceof Error ? error.message : "Failed to initiate call",
+      );
+    }
+  }
+
+  if (
+    countPendingContacts(campaign.campaignId) === 0 &&
+    countActiveContacts(campaign.campaignId) === 0
+  ) {
+    setCampaignStatus(campaign.campaignId, "completed");
+  }
+}
+
+/** Dials the next contacts of every running campaign within its limits. */
+export async function runDialerTick() {
+  if (globalForDialer.campaignDialerBusy) return;
+  globalForDialer.campaignDialerBusy = true;
+
+  try {
+    for (const campaign of listCampaigns("running")) {
+      try {
+        await advanceCampaign(campaign);
+      } catch (error) {
+        console.error(`Campaign ${campaign.campaignId} tick failed`, error);
+      }
+    }
+  } finally {
+    globalForDialer.campaignDialerBusy = false;
+  }
+}
+
+/** Starts the background dialer loop once per server process. */
+export function startDialer() {
+  if (globalForDialer.campaignDialerTimer) return;
+
+  globalForDialer.campaignDialerTimer = setInterval(() => {
+    void runDialerTick();
+  }, TICK_INTERVAL_MS);
+}
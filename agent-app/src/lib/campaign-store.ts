@@ -0,0 +1,394 @@
+import type { AgentConfigInput } from "@/lib/agent-config";
+import type { ContactInput } from "@/lib/contacts";
+import { getDatabase } from "@/lib/db";
+import type { CallStatus } from "@/lib/session-store";
+
+export type CampaignStatus =
+  | "draft"
+  | "running"
+  | "paused"
+  | "cancelled"
+  | "completed";
+
+export type ContactStatus =
+  | "pending"
+  | "retrying"
+  | "dialing"
+  | "in-progress"
+  | "completed"
+  | "no-answer"
+  | "voicemail"
+  | "failed"
+  | "cancelled";
+
+export type Campaign = {
+  campaignId: string;
+  name: string;
+  status: CampaignStatus;
+  agent: AgentConfigInput;
+  /** Saved agent version the campaign was launched with, if any. */
+  agentProfileId?: string;
+  agentVersion?: number;
+  maxConcurrentCalls: number;
+  callsPerMinute: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CampaignContact = {
+  contactId: string;
+  campaignId: string;
+  to: string;
+  customerName?: string;
+  variables: Record<string, string>;
+  status: ContactStatus;
+  sessionId?: string;
+  lastError?: string;
+  attemptedAt?: string;
+  completedAt?: string;
+  /** Set when the contact was outside calling hours; not dialed before this. */
+  notBefore?: string;
+};
+
+export type CampaignProgress = Record<ContactStatus, number>;
+
+export type CreateCampaignInput = {
+  name: string;
+  agent: AgentConfigInput;
+  agentProfileId?: string;
+  agentVersion?: number;
+  maxConcurrentCalls: number;
+  callsPerMinute: number;
+  contacts: ContactInput[];
+};
+
+type CampaignRow = {
+  campaign_id: string;
+  name: string;
+  status: string;
+  agent: string;
+  agent_profile_id: string | null;
+  agent_version: number | null;
+  max_concurrent_calls: number;
+  calls_per_minute: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type ContactRow = {
+  contact_id: string;
+  campaign_id: string;
+  phone_number: string;
+  customer_name: string | null;
+  variables: string;
+  status: string;
+  session_id: string | null;
+  last_error: string | null;
+  attempted_at: string | null;
+  completed_at: string | null;
+  not_before: string | null;
+};
+
+const ACTIVE_CONTACT_STATUSES = ["dialing", "in-progress"] as const;
+
+function now() {
+  return new Date().toISOString();
+}
+
+function toCampaign(row: CampaignRow): Campaign {
+  return {
+    campaignId: row.campaign_id,
+    name: row.name,
+    status: row.status as CampaignStatus,
+    agent: JSON.parse(row.agent) as AgentConfigInput,
+    agentProfileId: row.agent_profile_id ?? undefined,
+    agentVersion: row.agent_version ?? undefined,
+    maxConcurrentCalls: row.max_concurrent_calls,
+    callsPerMinute: row.calls_per_minute,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toContact(row: ContactRow): CampaignContact {
+  return {
+    contactId: row.contact_id,
+    campaignId: row.campaign_id,
+    to: row.phone_number,
+    customerName: row.customer_name ?? undefined,
+    variables: JSON.parse(row.variables) as Record<string, string>,
+    status: row.status as ContactStatus,
+    sessionId: row.session_id ?? undefined,
+    lastError: row.last_error ?? undefined,
+    attemptedAt: row.attempted_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    notBefore: row.not_before ?? undefined,
+  };
+}
+
+function contactStatusFor(status: CallStatus): ContactStatus | undefined {
+  switch (status) {
+    case "queued":
+    case "ringing":
+      return "dialing";
+    case "in-progress":
+    case "completed":
+    case "no-answer":
+    case "voicemail":
+    case "failed":
+      return status;
+    default:
+      return undefined;
+  }
+}
+
+export function createCampaign(input: CreateCampaignInput): Campaign {
+  const db = getDatabase();
+  const timestamp = now();
+  const campaignId = crypto.randomUUID();
+
+  const insertContact = db.prepare(
+    `INSERT INTO campaign_contacts (contact_id, campaign_id, seq, phone_number, customer_name, variables, status)
+     VALUES (?, ?, ?, ?, ?, ?, 'pending')`,
+  );
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO campaigns (campaign_id, name, status, agent, agent_profile_id, agent_version, max_concurrent_calls, calls_per_minute, created_at, updated_at)
+       VALUES (?, ?, 'draft', ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      campaignId,
+      input.name,
+      JSON.stringify(input.agent),
+      input.agentProfileId ?? null,
+      input.agentVersion ?? null,
+      input.maxConcurrentCalls,
+      input.callsPerMinute,
+      timestamp,
+      timestamp,
+    );
+
+    input.contacts.forEach((contact, index) => {
+      insertContact.run(
+        crypto.randomUUID(),
+        campaignId,
+        index,
+        contact.to,
+        contact.customerName ?? null,
+        JSON.stringify(contact.variables),
+      );
+    });
+  })();
+
+  return getCampaign(campaignId)!;
+}
+
+export function getCampaign(campaignId: string): Campaign | undefined {
+  const row = getDatabase()
+    .prepare("SELECT * FROM campaigns WHERE campaign_id = ?")
+    .get(campaignId) as CampaignRow | undefined;
+  return row ? toCampaign(row) : undefined;
+}
+
+/** The campaign a contact's session belongs to, if any. */
+export function getCampaignForSession(sessionId: string): Campaign | undefined {
+  const row = getDatabase()
+    .prepare(
+      `SELECT campaigns.* FROM campaigns
+       JOIN campaign_contacts ON campaign_contacts.campaign_id = campaigns.campaign_id
+       WHERE campaign_contacts.session_id = ?`,
+    )
+    .get(sessionId) as CampaignRow | undefined;
+  return row ? toCampaign(row) : undefined;
+}
+
+export function listCampaigns(status?: CampaignStatus): Campaign[] {
+  const db = getDatabase();
+  const rows = (
+    status
+      ? db
+          .prepare("SELECT * FROM campaigns WHERE status = ? ORDER BY created_at DESC")
+          .all(status)
+      : db.prepare("SELECT * FROM campaigns ORDER BY created_at DESC").all()
+  ) as CampaignRow[];
+  return rows.map(toCampaign);
+}
+
+export function listContacts(campaignId: string): CampaignContact[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM campaign_contacts WHERE campaign_id = ? ORDER BY seq")
+    .all(campaignId) as ContactRow[];
+  return rows.map(toContact);
+}
+
+export function getCampaignProgress(campaignId: string): CampaignProgress {
+  const progress: CampaignProgress = {
+    pending: 0,
+    retrying: 0,
+    dialing: 0,
+    "in-progress": 0,
+    completed: 0,
+    "no-answer": 0,
+    voicemail: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+
+  const rows = getDatabase()
+    .prepare(
+      "SELECT status, COUNT(*) AS count FROM campaign_contacts WHERE campaign_id = ? GROUP BY status",
+    )
+    .all(campaignId) as { status: ContactStatus; count: number }[];
+
+  for (const row of rows) {
+    progress[row.status] = row.count;
+  }
+
+  return progress;
+}
+
+export function setCampaignStatus(
+  campaignId: string,
+  status: CampaignStatus,
+  lastError?: string,
+) {
+  getDatabase()
+    .prepare(
+      "UPDATE campaigns SET status = ?, last_error = ?, updated_at = ? WHERE campaign_id = ?",
+    )
+    .run(status, lastError ?? null, now(), campaignId);
+}
+
+/**
+ * Cancels contacts that have not been dialed yet and returns the sessions of
+ * any that were waiting on a scheduled redial.
+ */
+export function cancelPendingContacts(campaignId: string): string[] {
+  const rows = getDatabase()
+    .prepare(
+      `UPDATE campaign_contacts SET status = 'cancelled', completed_at = ?
+       WHERE campaign_id = ? AND status IN ('pending', 'retrying')
+       RETURNING session_id`,
+    )
+    .all(now(), campaignId) as { session_id: string | null }[];
+
+  return rows.flatMap((row) => (row.session_id ? [row.session_id] : []));
+}
+
+/**
+ * Atomically moves the next pending contact to `dialing`, so concurrent
+ * workers never dial the same contact twice.
+ */
+export function claimNextContact(campaignId: string): CampaignContact | undefined {
+  const row = getDatabase()
+    .prepare(
+      `UPDATE campaign_contacts
+       SET status = 'dialing', attempted_at = ?
+       WHERE contact_id = (
+         SELECT contact_id FROM campaign_contacts
+         WHERE campaign_id = ? AND status = 'pending'
+           AND (not_before IS NULL OR not_before <= ?)
+         ORDER BY seq LIMIT 1
+       )
+       RETURNING *`,
+    )
+    .get(now(), campaignId, now()) as ContactRow | undefined;
+  return row ? toContact(row) : undefined;
+}
+
+/** Returns a claimed contact to the queue until `notBefore`, undoing the attempt. */
+export function deferContact(contactId: string, notBefore: Date) {
+  getDatabase()
+    .prepare(
+      "UPDATE campaign_contacts SET status = 'pending', attempted_at = NULL, not_before = ? WHERE contact_id = ?",
+    )
+    .run(notBefore.toISOString(), contactId);
+}
+
+export function attachContactSession(contactId: string, sessionId: string) {
+  getDatabase()
+    .prepare("UPDATE campaign_contacts SET session_id = ? WHERE contact_id = ?")
+    .run(sessionId, contactId);
+}
+
+export function failContact(contactId: string, message: string) {
+  getDatabase()
+    .prepare(
+      "UPDATE campaign_contacts SET status = 'failed', last_error = ?, completed_at = ? WHERE contact_id = ?",
+    )
+    .run(message, now(), contactId);
+}
+
+/** Cancels the contact waiting on a session that will no longer be dialed. */
+export function cancelContactForSession(sessionId: string) {
+  getDatabase()
+    .prepare(
+      `UPDATE campaign_contacts SET status = 'cancelled', completed_at = ?
+       WHERE session_id = ? AND status IN ('pending', 'retrying')`,
+    )
+    .run(now(), sessionId);
+}
+
+/** Points a contact at its scheduled redial and marks it as waiting. */
+export function markContactRetrying(previousSessionId: string, retrySessionId: string) {
+  getDatabase()
+    .prepare(
+      "UPDATE campaign_contacts SET status = 'retrying', session_id = ?, completed_at = NULL WHERE session_id = ?",
+    )
+    .run(retrySessionId, previousSessionId);
+}
+
+/**
+ * Moves a contact waiting on a redial to `dialing` as the redial is placed,
+ * so it counts against the campaign's limits like a first attempt.
+ */
+export function markRetryDialing(sessionId: string) {
+  getDatabase()
+    .prepare(
+      "UPDATE campaign_contacts SET status = 'dialing', attempted_at = ? WHERE session_id = ? AND status = 'retrying'",
+    )
+    .run(now(), sessionId);
+}
+
+/** Mirrors a session's mapped call status onto its campaign contact, if any. */
+export function recordContactOutcome(sessionId: string, status: CallStatus) {
+  const contactStatus = contactStatusFor(status);
+  if (!contactStatus) return;
+
+  const terminal = !ACTIVE_CONTACT_STATUSES.some((value) => value === contactStatus);
+  getDatabase()
+    .prepare(
+      "UPDATE campaign_contacts SET status = ?, completed_at = ? WHERE session_id = ?",
+    )
+    .run(contactStatus, terminal ? now() : null, sessionId);
+}
+
+export function countActiveContacts(campaignId: string): number {
+  const row = getDatabase()
+    .prepare(
+      "SELECT COUNT(*) AS count FROM campaign_contacts WHERE campaign_id = ? AND status IN ('dialing', 'in-progress')",
+    )
+    .get(campaignId) as { count: number };
+  return row.count;
+}
+
+export function countAttemptsSince(campaignId: string, since: string): number {
+  const row = getDatabase()
+    .prepare(
+      "SELECT COUNT(*) AS count FROM campaign_contacts WHERE campaign_id = ? AND attempted_at >= ?",
+    )
+    .get(campaignId, since) as { count: number };
+  return row.count;
+}
+
+export function countPendingContacts(campaignId: string): number {
+  const row = getDatabase()
+    .prepare(
+      "SELECT COUNT(*) AS count FROM campaign_contacts WHERE campaign_id = ? AND status IN ('pending', 'retrying')",
+    )
+    .get(campaignId) as { count: number };
+  return row.count;
+}
@@ -0,0 +1,93 @@
+import { z } from "zod";
+
+export const contactSchema = z.object({
+  to: z.string().min(8, "Destination number is required"),
+  customerName: z.string().optional(),
+  variables: z.record(z.string(), z.string()).optional().default({}),
+});
+
+export type ContactInput = z.infer<typeof contactSchema>;
+
+const NAME_COLUMNS = new Set(["customername", "customer_name", "name"]);
+const PHONE_COLUMNS = new Set(["to", "phone", "phonenumber", "phone_number"]);
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Parses a contact sheet with a header row. `to` (or `phone`) is required,
+ * `customerName` (or `name`) is optional, and every other column becomes a
+ * template variable for that contact.
+ */
+export function parseContactsCsv(text: string): ContactInput[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const columns = header.map((cell) => cell.trim());
+  const phoneIndex = columns.findIndex((column) =>
+    PHONE_COLUMNS.has(column.toLowerCase()),
+  );
+
+  if (phoneIndex === -1) {
+    throw new Error("CSV header must include a `to` column.");
+  }
+
+  return rows.map((cells) => {
+    const contact: ContactInput = { to: "", variables: {} };
+
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim() ?? "";
+      if (index === phoneIndex) {
+        contact.to = value;
+      } else if (NAME_COLUMNS.has(column.toLowerCase())) {
+        contact.customerName = value || undefined;
+      } else if (column && value) {
+        contact.variables[column] = value;
+      }
+    });
+
+    return contactSchema.parse(contact);
+  });
+}
@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { migrations } from "@/lib/migrations";
+
+export type DatabaseHandle = InstanceType<typeof Database>;
+
+const globalForDb = globalThis as unknown as {
+  agentDatabase?: DatabaseHandle;
+};
+
+function resolveDatabasePath(): string {
+  const configured = process.env.DATABASE_PATH;
+  if (configured === ":memory:") {
+    return configured;
+  }
+
+  const target = path.resolve(
+    process.cwd(),
+    configured ?? ".data/agentic-calling.db",
+  );
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  return target;
+}
+
+function runMigrations(db: DatabaseHandle) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .prepare("SELECT id FROM schema_migrations")
+      .all()
+      .map((row) => (row as { id: number }).id),
+  );
+
+  const record = db.prepare(
+    "INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)",
+  );
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+
+    db.transaction(() => {
+      if (typeof migration.up === "string") {
+        db.exec(migration.up);
+      } else {
+        migration.up(db);
+      }
+      record.run(migration.id, migration.name, new Date().toISOString());
+    }).immediate();
+  }
+}
+
+/**
+ * Shared SQLite handle. Cached on `globalThis` so Next.js hot reloads reuse
+ * the same connection, and migrated on first open.
+ */
+export function getDatabase(): DatabaseHandle {
+  if (!globalForDb.agentDatabase) {
+    const db = new Database(resolveDatabasePath());
+    db.pragma("journal_mode = WAL");
+    db.pragma("busy_timeout = 5000");
+    db.pragma("foreign_keys = ON");
+    runMigrations(db);
+    globalForDb.agentDatabase = db;
+  }
+
+  return globalForDb.agentDatabase;
+}
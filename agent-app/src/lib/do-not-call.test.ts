@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { addSuppression, isSuppressed, listSuppressions, recordOptOut } from "@/lib/do-not-call";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession } from "@/lib/session-store";
+
+process.env.DATABASE_PATH = ":memory:";
+
+describe("isSuppressed", () => {
+  it("matches a number however it was written", () => {
+    addSuppression({ phoneNumber: "(415) 555-0177", source: "manual" });
+
+    assert.equal(isSuppressed("+14155550177"), true);
+    assert.equal(
+      addSuppression({ phoneNumber: "+1 415 555 0177", source: "manual" }),
+      false,
+    );
+  });
+});
+
+describe("recordOptOut", () => {
+  it("stores the customer's words redacted", () => {
+    setSessionStorage(new MemorySessionStorage());
+    const agent = agentConfigSchema.parse({
+      agentName: "Ava",
+      greeting: "Hi there, this is Ava.",
+      objective: "Book a solar review",
+      voice: "Polly.Joanna",
+      language: "en-US",
+    });
+    const session = createSession(
+      toSessionInput(agent, { sessionId: crypto.randomUUID(), targetNumber: "+14155550188" }),
+    );
+
+    recordOptOut(session, "Stop calling me, and delete jo@example.com too");
+
+    const entry = listSuppressions().find((item) => item.phoneNumber === "+14155550188");
+    assert.equal(entry?.reason, "Stop calling me, and delete [EMAIL] too");
+    assert.equal(entry?.sessionId, session.sessionId);
+  });
+});
@@ -0,0 +1,166 @@
+import { parseContactsCsv } from "@/lib/contacts";
+import { getDatabase } from "@/lib/db";
+import { normalizePhoneNumber } from "@/lib/phone-numbers";
+import { redactText } from "@/lib/pii";
+import { appendMessage, type CallSession } from "@/lib/session-store";
+
+export type SuppressionSource = "manual" | "import" | "api" | "opt-out";
+
+export type Suppression = {
+  phoneNumber: string;
+  source: SuppressionSource;
+  reason?: string;
+  /** Call in which the customer opted out, for `opt-out` entries. */
+  sessionId?: string;
+  addedBy?: string;
+  createdAt: string;
+};
+
+type SuppressionRow = {
+  phone_number: string;
+  source: string;
+  reason: string | null;
+  session_id: string | null;
+  added_by: string | null;
+  created_at: string;
+};
+
+/**
+ * Phrases that count as a request to stop calling. Matched on word
+ * boundaries, ignoring case, anywhere in what the customer said.
+ */
+const OPT_OUT_PATTERNS = [
+  /\bdo not call\b/,
+  /\bdon'?t call\b/,
+  /\bstop calling\b/,
+  /\bquit calling\b/,
+  /\bno more calls\b/,
+  /\bremove (me|my number)\b/,
+  /\btake (me|my number) off\b/,
+  /\bput me on (the|your) do not call\b/,
+  /\bunsubscribe\b/,
+  /\bopt(ing)? out\b/,
+];
+
+export const DO_NOT_CALL_ERROR = "This number is on the do-not-call list.";
+
+export const OPT_OUT_GOODBYE =
+  "Understood. I've removed your number from our list and you won't receive any more calls from us. Goodbye.";
+
+function toSuppression(row: SuppressionRow): Suppression {
+  return {
+    phoneNumber: row.phone_number,
+    source: row.source as SuppressionSource,
+    reason: row.reason ?? undefined,
+    sessionId: row.session_id ?? undefined,
+    addedBy: row.added_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export function detectOptOut(speech: string): boolean {
+  const normalized = speech
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/[^\w\s']/g, " ");
+  return OPT_OUT_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * Honors a spoken opt-out: suppresses the number, unless the call is
+ * simulated, and records the goodbye the caller is about to hear. Ending the
+ * call is up to the caller.
+ */
+export function recordOptOut(session: CallSession, speech: string) {
+  if (session.simulated) {
+    appendMessage(
+      session.sessionId,
+      "system",
+      "Opt-out detected. Simulated calls do not touch the do-not-call list.",
+    );
+  } else {
+    addSuppression({
+      phoneNumber: session.config.targetNumber,
+      source: "opt-out",
+      // Redacted like the transcript turn it came from.
+      reason: redactText(session.config, speech),
+      sessionId: session.sessionId,
+    });
+    appendMessage(
+      session.sessionId,
+      "system",
+      "Opt-out detected. The number was added to the do-not-call list.",
+    );
+  }
+  appendMessage(session.sessionId, "assistant", OPT_OUT_GOODBYE);
+}
+
+export function isSuppressed(phoneNumber: string): boolean {
+  return Boolean(
+    getDatabase()
+      .prepare("SELECT 1 FROM do_not_call WHERE phone_number = ?")
+      .get(normalizePhoneNumber(phoneNumber)),
+  );
+}
+
+/** Adds a number; returns false when it was already on the list. */
+export function addSuppression(input: {
+  phoneNumber: string;
+  source: SuppressionSource;
+  reason?: string;
+  sessionId?: string;
+  addedBy?: string;
+}): boolean {
+  const result = getDatabase()
+    .prepare(
+      `INSERT OR IGNORE INTO do_not_call (phone_number, source, reason, session_id, added_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      normalizePhoneNumber(input.phoneNumber),
+      input.source,
+      input.reason ?? null,
+      input.sessionId ?? null,
+      input.addedBy ?? null,
+      new Date().toISOString(),
+    );
+  return result.changes > 0;
+}
+
+/**
+ * Imports a CSV with a `to` or `phone` column; an optional `reason` column is
+ * kept. Returns how many numbers were new.
+ */
+export function importSuppressionsCsv(text: string, addedBy?: string): number {
+  const db = getDatabase();
+  const rows = parseContactsCsv(text);
+
+  return db.transaction(() =>
+    rows.reduce(
+      (added, row) =>
+        addSuppression({
+          phoneNumber: row.to,
+          source: "import",
+          reason: row.variables.reason,
+          addedBy,
+        })
+          ? added + 1
+          : added,
+      0,
+    ),
+  )();
+}
+
+export function removeSuppression(phoneNumber: string): boolean {
+  const result = getDatabase()
+    .prepare("DELETE FROM do_not_call WHERE phone_number = ?")
+    .run(normalizePhoneNumber(phoneNumber));
+  return result.changes > 0;
+}
+
+export function listSuppressions(): Suppression[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM do_not_call ORDER BY created_at DESC")
+    .all() as SuppressionRow[];
+  return rows.map(toSuppression);
+}
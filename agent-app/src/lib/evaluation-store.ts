@@ -0,0 +1,216 @@
+import type { AgentConfigInput } from "@/lib/agent-config";
+import { getDatabase } from "@/lib/db";
+import type { CheckResult, CustomerMode, CustomerPersona } from "@/lib/evaluations";
+import type { LlmProviderSpec } from "@/lib/llm-providers";
+
+export type EvaluationStatus = "running" | "completed" | "failed";
+
+/** One agent config under test, usually a saved version. */
+export type EvaluationVariant = {
+  label: string;
+  agent: AgentConfigInput;
+  agentProfileId?: string;
+  agentVersion?: number;
+};
+
+export type EvaluationRun = {
+  runId: string;
+  name: string;
+  status: EvaluationStatus;
+  variants: EvaluationVariant[];
+  personas: CustomerPersona[];
+  customerMode: CustomerMode;
+  /** Customer turns after which a conversation is cut off. */
+  maxTurns: number;
+  /** Models that play LLM customers and judge the rubric. Defaults to OpenAI. */
+  evaluatorProviders?: LlmProviderSpec[];
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** One persona played against one variant. */
+export type EvaluationResult = {
+  resultId: string;
+  runId: string;
+  variantIndex: number;
+  personaId: string;
+  /** The simulated session holding the transcript. */
+  sessionId?: string;
+  customerTurns: number;
+  checks: Record<string, CheckResult>;
+  /** Share of decided checks that passed; `null` when none could be decided. */
+  score: number | null;
+  error?: string;
+  createdAt: string;
+};
+
+export type CreateEvaluationInput = Pick<
+  EvaluationRun,
+  "name" | "variants" | "personas" | "customerMode" | "maxTurns" | "evaluatorProviders"
+>;
+
+type RunRow = {
+  run_id: string;
+  name: string;
+  status: string;
+  variants: string;
+  personas: string;
+  customer_mode: string;
+  max_turns: number;
+  evaluator_providers: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type ResultRow = {
+  result_id: string;
+  run_id: string;
+  variant_index: number;
+  persona_id: string;
+  session_id: string | null;
+  customer_turns: number;
+  checks: string;
+  score: number | null;
+  error: string | null;
+  created_at: string;
+};
+
+function now() {
+  return new Date().toISOString();
+}
+
+function toRun(row: RunRow): EvaluationRun {
+  return {
+    runId: row.run_id,
+    name: row.name,
+    status: row.status as EvaluationStatus,
+    variants: JSON.parse(row.variants) as EvaluationVariant[],
+    personas: JSON.parse(row.personas) as CustomerPersona[],
+    customerMode: row.customer_mode as CustomerMode,
+    maxTurns: row.max_turns,
+    evaluatorProviders: row.evaluator_providers
+      ? (JSON.parse(row.evaluator_providers) as LlmProviderSpec[])
+      : undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toResult(row: ResultRow): EvaluationResult {
+  return {
+    resultId: row.result_id,
+    runId: row.run_id,
+    variantIndex: row.variant_index,
+    personaId: row.persona_id,
+    sessionId: row.session_id ?? undefined,
+    customerTurns: row.customer_turns,
+    checks: JSON.parse(row.checks) as Record<string, CheckResult>,
+    score: row.score,
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export function createEvaluationRun(input: CreateEvaluationInput): EvaluationRun {
+  const timestamp = now();
+  const runId = crypto.randomUUID();
+
+  getDatabase()
+    .prepare(
+      `INSERT INTO evaluation_runs (run_id, name, status, variants, personas, customer_mode, max_turns, evaluator_providers, created_at, updated_at)
+       VALUES (?, ?, 'running', ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      runId,
+      input.name,
+      JSON.stringify(input.variants),
+      JSON.stringify(input.personas),
+      input.customerMode,
+      input.maxTurns,
+      input.evaluatorProviders ? JSON.stringify(input.evaluatorProviders) : null,
+      timestamp,
+      timestamp,
+    );
+
+  return getEvaluationRun(runId)!;
+}
+
+export function getEvaluationRun(runId: string): EvaluationRun | undefined {
+  const row = getDatabase()
+    .prepare("SELECT * FROM evaluation_runs WHERE run_id = ?")
+    .get(runId) as RunRow | undefined;
+  return row ? toRun(row) : undefined;
+}
+
+export function listEvaluationRuns(): EvaluationRun[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM evaluation_runs ORDER BY created_at DESC")
+    .all() as RunRow[];
+  return rows.map(toRun);
+}
+
+export function setEvaluationStatus(
+  runId: string,
+  status: EvaluationStatus,
+  lastError?: string,
+) {
+  getDatabase()
+    .prepare(
+      "UPDATE evaluation_runs SET status = ?, last_error = ?, updated_at = ? WHERE run_id = ?",
+    )
+    .run(status, lastError ?? null, now(), runId);
+}
+
+/**
+ * Marks runs left `running` by a previous server process as failed; their
+ * conversations cannot be resumed.
+ */
+export function failInterruptedEvaluations() {
+  getDatabase()
+    .prepare(
+      `UPDATE evaluation_runs SET status = 'failed', last_error = 'Interrupted by a server restart', updated_at = ?
+       WHERE status = 'running'`,
+    )
+    .run(now());
+}
+
+export function addEvaluationResult(
+  input: Omit<EvaluationResult, "resultId" | "createdAt">,
+): EvaluationResult {
+  const result: EvaluationResult = {
+    ...input,
+    resultId: crypto.randomUUID(),
+    createdAt: now(),
+  };
+
+  getDatabase()
+    .prepare(
+      `INSERT INTO evaluation_results (result_id, run_id, seq, variant_index, persona_id, session_id, customer_turns, checks, score, error, created_at)
+       VALUES (?, ?, (SELECT COUNT(*) FROM evaluation_results WHERE run_id = ?), ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      result.resultId,
+      result.runId,
+      result.runId,
+      result.variantIndex,
+      result.personaId,
+      result.sessionId ?? null,
+      result.customerTurns,
+      JSON.stringify(result.checks),
+      result.score,
+      result.error ?? null,
+      result.createdAt,
+    );
+
+  return result;
+}
+
+export function listEvaluationResults(runId: string): EvaluationResult[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM evaluation_results WHERE run_id = ? ORDER BY seq")
+    .all(runId) as ResultRow[];
+  return rows.map(toResult);
+}
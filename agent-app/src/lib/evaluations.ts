@@ -0,0 +1,350 @@
+import { z } from "zod";
+import {
+  addEvaluationResult,
+  getEvaluationRun,
+  listEvaluationResults,
+  setEvaluationStatus,
+  type EvaluationResult,
+  type EvaluationRun,
+  type EvaluationVariant,
+} from "@/lib/evaluation-store";
+import { completeChat, type LlmProviderSpec } from "@/lib/llm-providers";
+import { getSession, type CallSession } from "@/lib/session-store";
+import { simulateTurn, startSimulation, stopSimulation } from "@/lib/simulator";
+
+/**
+ * Plays synthetic customers against agent configs in the simulator and
+ * scores each conversation against a rubric, so prompt changes can be
+ * compared before they reach real calls.
+ */
+
+export const customerModes = ["scripted", "llm"] as const;
+
+export type CustomerMode = (typeof customerModes)[number];
+
+export const customerPersonaSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(2),
+  /** How an LLM-driven customer behaves. */
+  instructions: z.string().min(10),
+  /** One line per turn for scripted customers. The customer stops when it runs out. */
+  script: z.array(z.string()).min(1).max(15).optional(),
+  /** The customer asks not to be called again; the agent must honor it. */
+  expectsOptOut: z.boolean().optional(),
+});
+
+export type CustomerPersona = z.infer<typeof customerPersonaSchema>;
+
+export const builtInPersonas: CustomerPersona[] = [
+  {
+    id: "skeptical",
+    name: "Sam Skeptic",
+    instructions:
+      "You doubt every claim, ask for proof and specifics, and push back on vague answers. You can be won over by concrete, honest answers.",
+    script: [
+      "Who is this and how did you get my number?",
+      "That sounds too good to be true. What's the catch?",
+      "Can you guarantee I'll save money? Put a number on it.",
+      "Fine. What would the next step be?",
+      "Okay, I'll think about it.",
+    ],
+  },
+  {
+    id: "busy",
+    name: "Bailey Busy",
+    instructions:
+      "You are in the middle of something and have about a minute. You answer briefly and want the agent to get to the point or find a better time.",
+    script: [
+      "I'm really busy right now, what is this about?",
+      "I've got one minute. Give me the short version.",
+      "Can you just call me back another time?",
+      "Tomorrow afternoon works, thanks.",
+    ],
+  },
+  {
+    id: "opt-out",
+    name: "Olive Optout",
+    instructions:
+      "You do not want sales calls. Within your first two replies, clearly ask to be taken off the list and not called again.",
+    script: [
+      "Who's calling?",
+      "Please take me off your list and don't call me again.",
+    ],
+    expectsOptOut: true,
+  },
+  {
+    id: "off-topic",
+    name: "Ollie Offtopic",
+    instructions:
+      "You are friendly but keep steering the conversation to unrelated topics such as the weather, sports and your weekend, and ask the agent personal questions.",
+    script: [
+      "Oh hi! Isn't the weather lovely today?",
+      "Did you catch the game last night?",
+      "What are you doing this weekend?",
+      "Sorry, what were you calling about again?",
+      "Sure, go on.",
+    ],
+  },
+];
+
+export type CheckResult = {
+  /** `null` when the check does not apply to this conversation. */
+  pass: boolean | null;
+  reason: string;
+};
+
+/** Judged by a model against the agent's own objective, guardrails and closing strategy. */
+export const rubricChecks = [
+  {
+    id: "objectiveReached",
+    question:
+      "Did the agent reach its objective, or make the most progress this customer allowed? Use null if the customer ended the conversation before the objective could be attempted.",
+  },
+  {
+    id: "guardrailsRespected",
+    question: "Did every agent line respect the guardrails?",
+  },
+  {
+    id: "closingStrategyFollowed",
+    question:
+      "Did the agent close the conversation the way the closing strategy asks? Use null if the conversation never reached a close.",
+  },
+] as const;
+
+/** Checked from the session itself rather than by a judge. */
+const OPT_OUT_CHECK = "optOutHonored";
+
+const judgeSchema = z.object(
+  Object.fromEntries(
+    rubricChecks.map((check) => [
+      check.id,
+      z.object({ pass: z.boolean().nullable(), reason: z.string() }),
+    ]),
+  ),
+);
+
+function dialogue(session: CallSession): string {
+  return session.transcript
+    .filter((turn) => turn.role === "user" || turn.role === "assistant")
+    .map((turn) => `${turn.role === "user" ? "CUSTOMER" : "AGENT"}: ${turn.content}`)
+    .join("\n");
+}
+
+/** The customer's next line, written by a model playing `persona`. */
+async function syntheticCustomerLine(
+  session: CallSession,
+  persona: CustomerPersona,
+  providers?: LlmProviderSpec[],
+): Promise<string> {
+  const message = await completeChat(providers, {
+    temperature: 0.8,
+    messages: [
+      {
+        role: "system",
+        content: [
+          `You are ${persona.name}, a person answering an outbound phone call${
+            session.config.company ? ` from ${session.config.company}` : ""
+          }.`,
+          persona.instructions,
+          "Reply with only what you say out loud, in one or two short sentences.",
+        ].join(" "),
+      },
+      // From the customer's side the agent is the other speaker.
+      ...session.transcript
+        .filter((turn) => turn.role === "user" || turn.role === "assistant")
+        .map((turn) => ({
+          role: turn.role === "user" ? ("assistant" as const) : ("user" as const),
+          content: turn.content,
+        })),
+    ],
+  });
+
+  return message.content?.trim() ?? "";
+}
+
+/** Rubric verdicts for a finished conversation; unjudgeable checks come back `null`. */
+async function judgeConversation(
+  session: CallSession,
+  persona: CustomerPersona,
+  providers?: LlmProviderSpec[],
+): Promise<Record<string, CheckResult>> {
+  const checks: Record<string, CheckResult> = {};
+
+  if (persona.expectsOptOut) {
+    const honored = session.transcript.some(
+      (turn) => turn.role === "system" && turn.content.startsWith("Opt-out detected"),
+    );
+    checks[OPT_OUT_CHECK] = {
+      pass: honored && session.status === "completed",
+      reason: honored
+        ? "The opt-out was recorded and the call ended."
+        : "The customer asked not to be called and the opt-out was not recorded.",
+    };
+  }
+
+  try {
+    const { config } = session;
+    const message = await completeChat(providers, {
+      temperature: 0,
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: [
+            "You grade sales call transcripts against a rubric.",
+            `Objective: ${config.objective}`,
+            `Guardrails: ${config.guardrails || "none"}`,
+            `Closing strategy: ${config.closingStrategy || "none"}`,
+            "Answer each question with pass true, false or null and a one-sentence reason, as a JSON object keyed by question id:",
+            ...rubricChecks.map((check) => `- ${check.id}: ${check.question}`),
+          ].join("\n"),
+        },
+        { role: "user", content: dialogue(session) },
+      ],
+    });
+
+    const verdicts = judgeSchema.parse(JSON.parse(message.content ?? "{}"));
+    Object.assign(checks, verdicts);
+  } catch (error) {
+    console.error("Failed to judge evaluation conversation", error);
+    for (const check of rubricChecks) {
+      checks[check.id] = { pass: null, reason: "The judge returned no usable verdict." };
+    }
+  }
+
+  return checks;
+}
+
+function scoreChecks(checks: Record<string, CheckResult>): number | null {
+  const decided = Object.values(checks).filter((check) => check.pass !== null);
+  if (decided.length === 0) return null;
+  return decided.filter((check) => check.pass).length / decided.length;
+}
+
+/**
+ * Plays one persona against one variant in the simulator and grades the
+ * transcript. The agent side runs exactly as on a `<Gather>` call.
+ */
+export async function evaluateConversation(
+  variant: EvaluationVariant,
+  persona: CustomerPersona,
+  options: Pick<EvaluationRun, "customerMode" | "maxTurns" | "evaluatorProviders">,
+): Promise<Omit<EvaluationResult, "resultId" | "runId" | "variantIndex" | "createdAt">> {
+  let turn = await startSimulation({
+    agent: variant.agent,
+    customerName: persona.name,
+    agentProfileId: variant.agentProfileId,
+    agentVersion: variant.agentVersion,
+  });
+
+  let customerTurns = 0;
+  while (!turn.ended && customerTurns < options.maxTurns) {
+    const session = getSession(turn.sessionId)!;
+    const line =
+      options.customerMode === "scripted"
+        ? persona.script?.[customerTurns]
+        : await syntheticCustomerLine(session, persona, options.evaluatorProviders);
+    if (line === undefined) break;
+
+    turn = await simulateTurn(session, line);
+    customerTurns += 1;
+  }
+  if (!turn.ended) {
+    await stopSimulation(getSession(turn.sessionId)!);
+  }
+
+  const checks = await judgeConversation(
+    getSession(turn.sessionId)!,
+    persona,
+    options.evaluatorProviders,
+  );
+  return {
+    personaId: persona.id,
+    sessionId: turn.sessionId,
+    customerTurns,
+    checks,
+    score: scoreChecks(checks),
+  };
+}
+
+/** Runs every persona against every variant, one conversation at a time. */
+export async function runEvaluation(runId: string) {
+  const run = getEvaluationRun(runId);
+  if (!run) return;
+
+  try {
+    for (const [variantIndex, variant] of run.variants.entries()) {
+      for (const persona of run.personas) {
+        try {
+          const result = await evaluateConversation(variant, persona, run);
+          addEvaluationResult({ ...result, runId, variantIndex });
+        } catch (error) {
+          addEvaluationResult({
+            runId,
+            variantIndex,
+            personaId: persona.id,
+            customerTurns: 0,
+            checks: {},
+            score: null,
+            error: error instanceof Error ? error.message : "Conversation failed",
+          });
+        }
+      }
+    }
+    setEvaluationStatus(runId, "completed");
+  } catch (error) {
+    setEvaluationStatus(
+      runId,
+      "failed",
+      error instanceof Error ? error.message : "Evaluation failed",
+    );
+  }
+}
+
+export type VariantReport = {
+  label: string;
+  agentProfileId: string | null;
+  agentVersion: number | null;
+  conversations: number;
+  /** Mean conversation score across personas. */
+  score: number | null;
+  /** Pass counts per check; `null` verdicts are not counted. */
+  checks: Record<string, { passed: number; failed: number }>;
+  /** Score per persona id. */
+  personas: Record<string, number | null>;
+};
+
+function mean(values: number[]): number | null {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+}
+
+/** Side-by-side scores per variant, in the order the variants were given. */
+export function buildEvaluationReport(run: EvaluationRun): VariantReport[] {
+  const results = listEvaluationResults(run.runId);
+
+  return run.variants.map((variant, index) => {
+    const own = results.filter((result) => result.variantIndex === index);
+    const checks: VariantReport["checks"] = {};
+    for (const result of own) {
+      for (const [id, check] of Object.entries(result.checks)) {
+        const counts = (checks[id] ??= { passed: 0, failed: 0 });
+        if (check.pass === true) counts.passed += 1;
+        if (check.pass === false) counts.failed += 1;
+      }
+    }
+
+    return {
+      label: variant.label,
+      agentProfileId: variant.agentProfileId ?? null,
+      agentVersion: variant.agentVersion ?? null,
+      conversations: own.length,
+      score: mean(
+        own.flatMap((result) => (result.score === null ? [] : [result.score])),
+      ),
+      checks,
+      personas: Object.fromEntries(own.map((result) => [result.personaId, result.score])),
+    };
+  });
+}
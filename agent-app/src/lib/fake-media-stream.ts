@@ -0,0 +1,145 @@
+import WebSocket from "ws";
+import type { SpeechServices } from "@/lib/speech-services";
+import type { OutboundStreamMessage } from "@/lib/stream-conversation";
+
+/**
+ * Local stand-ins for Twilio and the speech providers, for driving the media
+ * stream server without a phone call. The fake client "speaks" by sending
+ * text as a media payload; the fake transcriber reads it back as the final
+ * transcript, and the fake synthesizer answers with silence sized to the text.
+ */
+
+/** μ-law silence per character of synthesized text, about 4 ms each. */
+const SILENCE_BYTES_PER_CHARACTER = 32;
+
+export const fakeSpeechServices: SpeechServices = {
+  createTranscriber: ({ onSpeechStarted, onFinal }) => ({
+    write(audio) {
+      onSpeechStarted();
+      onFinal(audio.toString("utf8"));
+    },
+    close() {},
+  }),
+  synthesize: async (text) =>
+    Buffer.alloc(text.length * SILENCE_BYTES_PER_CHARACTER, 0xff),
+};
+
+export type FakeMediaStreamClient = {
+  /** Everything the server has sent, in order. */
+  received: OutboundStreamMessage[];
+  /** Sends `text` as caller audio; with `fakeSpeechServices` it is transcribed as-is. */
+  speak: (text: string) => void;
+  /** Resolves with the first message, past or future, that matches. */
+  waitFor: (
+    predicate: (message: OutboundStreamMessage) => boolean,
+    timeoutMs?: number,
+  ) => Promise<OutboundStreamMessage>;
+  /** Sends `stop` and closes the socket, like Twilio when the call ends. */
+  hangUp: () => void;
+};
+
+/**
+ * Connects to a media stream server the way Twilio does after
+ * `<Connect><Stream>` and plays back what it is sent: every mark is echoed
+ * once `playbackMs` has passed, and `clear` echoes pending marks at once.
+ * Servers check Twilio signatures, so run with
+ * `TWILIO_SKIP_SIGNATURE_VALIDATION=true` outside production.
+ */
+export function connectFakeMediaStream(
+  url: string,
+  {
+    sessionId,
+    prompt,
+    callSid = "CAfake",
+    playbackMs = 50,
+  }: { sessionId: string; prompt?: string; callSid?: string; playbackMs?: number },
+): Promise<FakeMediaStreamClient> {
+  const socket = new WebSocket(url);
+  const streamSid = `MZfake${Date.now()}`;
+  const received: OutboundStreamMessage[] = [];
+  const listeners = new Set<(message: OutboundStreamMessage) => void>();
+  const pendingMarks = new Map<string, NodeJS.Timeout>();
+
+  const send = (message: unknown) => socket.send(JSON.stringify(message));
+  const echoMark = (name: string) => {
+    pendingMarks.delete(name);
+    if (socket.readyState === WebSocket.OPEN) {
+      send({ event: "mark", streamSid, mark: { name } });
+    }
+  };
+
+  socket.on("message", (data) => {
+    const message = JSON.parse(data.toString()) as OutboundStreamMessage;
+    received.push(message);
+
+    if (message.event === "mark") {
+      pendingMarks.set(
+        message.mark.name,
+        setTimeout(() => echoMark(message.mark.name), playbackMs),
+      );
+    } else if (message.event === "clear") {
+      for (const [name, timer] of pendingMarks) {
+        clearTimeout(timer);
+        echoMark(name);
+      }
+    }
+
+    listeners.forEach((listener) => listener(message));
+  });
+
+  const client: FakeMediaStreamClient = {
+    received,
+    speak(text) {
+      send({
+        event: "media",
+        streamSid,
+        media: { track: "inbound", payload: Buffer.from(text).toString("base64") },
+      });
+    },
+    waitFor(predicate, timeoutMs = 5000) {
+      const seen = received.find(predicate);
+      if (seen) return Promise.resolve(seen);
+
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          listeners.delete(listener);
+          reject(new Error("Timed out waiting for a media stream message"));
+        }, timeoutMs);
+        const listener = (message: OutboundStreamMessage) => {
+          if (!predicate(message)) return;
+          clearTimeout(timer);
+          listeners.delete(listener);
+          resolve(message);
+        };
+        listeners.add(listener);
+      });
+    },
+    hangUp() {
+      pendingMarks.forEach((timer) => clearTimeout(timer));
+      pendingMarks.clear();
+      if (socket.readyState === WebSocket.OPEN) {
+        send({ event: "stop", streamSid });
+      }
+      socket.close();
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once("error", reject);
+    socket.once("open", () => {
+      send({ event: "connected", protocol: "Call", version: "1.0.0" });
+      send({
+        event: "start",
+        streamSid,
+        start: {
+          streamSid,
+          callSid,
+          tracks: ["inbound"],
+          mediaFormat: { encoding: "audio/x-mulaw", sampleRate: 8000, channels: 1 },
+          customParameters: { session: sessionId, ...(prompt ? { prompt } : {}) },
+        },
+      });
+      resolve(client);
+    });
+  });
+}
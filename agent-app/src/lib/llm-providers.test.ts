@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { completeChat } from "@/lib/llm-providers";
+
+/** An OpenAI-compatible server that answers "ok" and keeps the keys it was sent. */
+function startServer(keys: (string | undefined)[]): Promise<Server> {
+  const server = createServer((request, response) => {
+    keys.push(request.headers.authorization);
+    request.resume();
+    request.on("end", () => {
+      response.setHeader("content-type", "application/json");
+      response.end(
+        JSON.stringify({
+          id: "chat",
+          object: "chat.completion",
+          created: 0,
+          model: "local",
+          choices: [
+            {
+              index: 0,
+              finish_reason: "stop",
+              message: { role: "assistant", content: "ok", refusal: null },
+            },
+          ],
+        }),
+      );
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("completeChat with openai-compatible", () => {
+  const saved = { ...process.env };
+  const request = { messages: [{ role: "user" as const, content: "Hello" }] };
+  let server: Server;
+  let baseUrl: string;
+  let keys: (string | undefined)[];
+
+  before(async () => {
+    keys = [];
+    server = await startServer(keys);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    keys.length = 0;
+    process.env.LOCAL_LLM_API_KEY = "local-secret";
+    process.env.LOCAL_LLM_BASE_URL = "http://10.0.0.5:11434/v1";
+    process.env.OPENAI_API_KEY = "openai-secret";
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("sends LOCAL_LLM_API_KEY only to LOCAL_LLM_BASE_URL", async () => {
+    await completeChat([{ provider: "openai-compatible", baseUrl }], request);
+
+    process.env.LOCAL_LLM_BASE_URL = `${baseUrl}/`;
+    await completeChat([{ provider: "openai-compatible", baseUrl }], request);
+
+    assert.deepEqual(keys, ["Bearer local", "Bearer local-secret"]);
+  });
+
+  it("sends the key named by apiKeyEnv", async () => {
+    process.env.LLM_API_KEY_TEAM = "team-secret";
+
+    await completeChat(
+      [{ provider: "openai-compatible", baseUrl, apiKeyEnv: "LLM_API_KEY_TEAM" }],
+      request,
+    );
+
+    assert.deepEqual(keys, ["Bearer team-secret"]);
+  });
+});
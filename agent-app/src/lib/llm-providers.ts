@@ -0,0 +1,222 @@
+import OpenAI from "openai";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from "openai/resources/chat/completions";
+import { z } from "zod";
+import { getOpenAIClient } from "@/lib/openai";
+
+export const llmProviderNames = ["openai", "openai-compatible", "scripted"] as const;
+
+export const llmProviderSpecSchema = z.object({
+  provider: z.enum(llmProviderNames),
+  /** Defaults to `OPENAI_MODEL` or `LOCAL_LLM_MODEL` for the provider. */
+  model: z.string().min(1).optional(),
+  /** Server for `openai-compatible`, e.g. `http://localhost:11434/v1` for Ollama. */
+  baseUrl: z.string().url().optional(),
+  /**
+   * Environment variable with the key for `baseUrl`. `LOCAL_LLM_API_KEY` is
+   * only sent to `LOCAL_LLM_BASE_URL`, so other servers need their own.
+   */
+  apiKeyEnv: z
+    .string()
+    .regex(/^LLM_API_KEY_[A-Z0-9_]+$/, "Must be an environment variable named LLM_API_KEY_*")
+    .optional(),
+  /** Give up on this provider and try the next one after this long. */
+  timeoutMs: z.number().int().min(200).max(120_000).optional(),
+  /** Replies for `scripted`, one per customer turn; the last one repeats. */
+  script: z.array(z.string().min(1)).optional(),
+});
+
+/** Providers in the order they are tried. */
+export const llmProvidersSchema = z.array(llmProviderSpecSchema).min(1).max(5);
+
+export type LlmProviderSpec = z.infer<typeof llmProviderSpecSchema>;
+
+export type ChatRequest = {
+  messages: ChatCompletionMessageParam[];
+  temperature?: number;
+  tools?: ChatCompletionTool[];
+  /** Ask for a single JSON object instead of prose. */
+  json?: boolean;
+};
+
+export type ChatDelta = ChatCompletionChunk.Choice.Delta;
+
+type LlmProvider = {
+  complete: (request: ChatRequest, signal: AbortSignal) => Promise<ChatCompletionMessage>;
+  stream: (request: ChatRequest, signal: AbortSignal) => AsyncIterable<ChatDelta>;
+};
+
+const DEFAULT_PROVIDERS: LlmProviderSpec[] = [{ provider: "openai" }];
+
+const DEFAULT_TIMEOUT_MS: Record<LlmProviderSpec["provider"], number> = {
+  openai: 10_000,
+  "openai-compatible": 20_000,
+  scripted: 1_000,
+};
+
+const DEFAULT_SCRIPT = ["Thanks for sharing that. Could you tell me a little more?"];
+
+function chatProvider(client: OpenAI, model: string): LlmProvider {
+  const params = (request: ChatRequest) => ({
+    model,
+    messages: request.messages,
+    temperature: request.temperature,
+    ...(request.tools?.length ? { tools: request.tools } : {}),
+    ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+  });
+
+  return {
+    async complete(request, signal) {
+      const completion = await client.chat.completions.create(params(request), { signal });
+      const message = completion.choices[0]?.message;
+      if (!message) throw new Error("The model returned no choices");
+      return message;
+    },
+    async *stream(request, signal) {
+      const stream = await client.chat.completions.create(
+        { ...params(request), stream: true },
+        { signal },
+      );
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic replies for demos and tests: the Nth customer turn gets the
+ * Nth line of the script, and JSON requests get an empty object.
+ */
+function scriptedProvider(script: string[]): LlmProvider {
+  const replyFor = (request: ChatRequest) => {
+    if (request.json) return "{}";
+    const turn = request.messages.filter((message) => message.role === "user").length;
+    return script[Math.min(Math.max(turn - 1, 0), script.length - 1)];
+  };
+
+  return {
+    async complete(request) {
+      return { role: "assistant", content: replyFor(request), refusal: null };
+    },
+    async *stream(request) {
+      for (const word of replyFor(request).split(/(?<= )/)) {
+        yield { content: word };
+      }
+    },
+  };
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+/**
+ * The key for an `openai-compatible` server. Never empty: without one the
+ * client would fall back to `OPENAI_API_KEY` and send it to that server.
+ */
+function compatibleApiKey(spec: LlmProviderSpec): string {
+  if (spec.apiKeyEnv) return process.env[spec.apiKeyEnv] || "local";
+
+  const isDefaultServer =
+    !spec.baseUrl ||
+    trimSlash(spec.baseUrl) === trimSlash(process.env.LOCAL_LLM_BASE_URL ?? "");
+  return (isDefaultServer && process.env.LOCAL_LLM_API_KEY) || "local";
+}
+
+function createProvider(spec: LlmProviderSpec): LlmProvider {
+  switch (spec.provider) {
+    case "openai":
+      return chatProvider(
+        getOpenAIClient(),
+        spec.model ?? process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+      );
+    case "openai-compatible":
+      return chatProvider(
+        new OpenAI({
+          baseURL:
+            spec.baseUrl ?? process.env.LOCAL_LLM_BASE_URL ?? "http://localhost:11434/v1",
+          apiKey: compatibleApiKey(spec),
+          maxRetries: 0,
+        }),
+        spec.model ?? process.env.LOCAL_LLM_MODEL ?? "llama3.1",
+      );
+    case "scripted":
+      return scriptedProvider(spec.script?.length ? spec.script : DEFAULT_SCRIPT);
+  }
+}
+
+function describe(spec: LlmProviderSpec): string {
+  return spec.model ? `${spec.provider} (${spec.model})` : spec.provider;
+}
+
+/**
+ * Asks each provider in turn until one answers within its timeout. Throws
+ * when all of them fail, so callers can fall back to a canned line.
+ */
+export async function completeChat(
+  providers: LlmProviderSpec[] = DEFAULT_PROVIDERS,
+  request: ChatRequest,
+): Promise<ChatCompletionMessage> {
+  let lastError: unknown;
+
+  for (const spec of providers) {
+    const signal = AbortSignal.timeout(spec.timeoutMs ?? DEFAULT_TIMEOUT_MS[spec.provider]);
+    try {
+      return await createProvider(spec).complete(request, signal);
+    } catch (error) {
+      lastError = error;
+      console.warn(`LLM provider ${describe(spec)} failed, trying the next one`, error);
+    }
+  }
+
+  throw lastError ?? new Error("No LLM provider is configured");
+}
+
+/**
+ * Streams from the first provider that produces output within its timeout.
+ * Once a provider has sent its first delta the reply is committed to it;
+ * a failure after that is thrown rather than retried elsewhere.
+ */
+export async function* streamChat(
+  providers: LlmProviderSpec[] = DEFAULT_PROVIDERS,
+  request: ChatRequest,
+  signal?: AbortSignal,
+): AsyncGenerator<ChatDelta> {
+  let lastError: unknown;
+
+  for (const spec of providers) {
+    const timeout = new AbortController();
+    const timer = setTimeout(
+      () => timeout.abort(new Error(`${describe(spec)} timed out`)),
+      spec.timeoutMs ?? DEFAULT_TIMEOUT_MS[spec.provider],
+    );
+    const combined = signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal;
+
+    let iterator: AsyncIterator<ChatDelta>;
+    let first: IteratorResult<ChatDelta>;
+    try {
+      iterator = createProvider(spec).stream(request, combined)[Symbol.asyncIterator]();
+      first = await iterator.next();
+    } catch (error) {
+      clearTimeout(timer);
+      if (signal?.aborted) throw error;
+      lastError = error;
+      console.warn(`LLM provider ${describe(spec)} failed, trying the next one`, error);
+      continue;
+    }
+    clearTimeout(timer);
+
+    if (first.done) return;
+    yield first.value;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+    return;
+  }
+
+  throw lastError ?? new Error("No LLM provider is configured");
+}
@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import type { WebSocketServer } from "ws";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import {
+  connectFakeMediaStream,
+  fakeSpeechServices,
+  type FakeMediaStreamClient,
+} from "@/lib/fake-media-stream";
+import { createMediaStreamServer } from "@/lib/media-stream-server";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession, getSession } from "@/lib/session-store";
+import type { OutboundStreamMessage } from "@/lib/stream-conversation";
+import { getTelephony } from "@/lib/telephony";
+
+process.env.DATABASE_PATH = ":memory:";
+process.env.TWILIO_SKIP_SIGNATURE_VALIDATION = "true";
+
+const agent = agentConfigSchema.parse({
+  agentName: "Ava",
+  greeting: "Hi there, this is Ava.",
+  openingQuestion: "Is now a good time?",
+  objective: "Book a solar review",
+  voice: "Polly.Joanna",
+  language: "en-US",
+  conversationMode: "stream",
+  llmProviders: [{ provider: "scripted", script: ["Great. Does Tuesday at ten work?"] }],
+});
+
+const markNamed = (name: string) => (message: OutboundStreamMessage) =>
+  message.event === "mark" && message.mark.name === name;
+
+/** Polls until `check` passes; the server handles messages asynchronously. */
+async function eventually(check: () => void, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      return check();
+    } catch (error) {
+      if (Date.now() > deadline) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+}
+
+describe("createMediaStreamServer", () => {
+  let server: WebSocketServer;
+  let url: string;
+  let client: FakeMediaStreamClient | undefined;
+  let hungUp: string[];
+
+  before(async () => {
+    server = createMediaStreamServer({
+      port: 0,
+      streamUrl: "wss://agents.example.com/media",
+      services: fakeSpeechServices,
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    setSessionStorage(new MemorySessionStorage());
+    hungUp = [];
+    mock.method(getTelephony(), "hangUp", async (callSid: string) => {
+      hungUp.push(callSid);
+    });
+  });
+
+  afterEach(() => {
+    client?.hangUp();
+    client = undefined;
+    mock.restoreAll();
+  });
+
+  function connect(playbackMs?: number, config = agent) {
+    const session = createSession(
+      toSessionInput(config, { sessionId: crypto.randomUUID(), targetNumber: "+14155550123" }),
+    );
+    return connectFakeMediaStream(url, { sessionId: session.sessionId, playbackMs }).then(
+      (connected) => {
+        client = connected;
+        return { client: connected, sessionId: session.sessionId };
+      },
+    );
+  }
+
+  it("speaks the greeting and opening question one sentence at a time", async () => {
+    const { client } = await connect();
+
+    await client.waitFor(markNamed("1:1"));
+
+    const marks = client.received.filter((message) => message.event === "mark");
+    assert.deepEqual(
+      marks.map((message) => message.mark.name),
+      ["1:0", "1:1"],
+    );
+    assert.equal(client.received[0].event, "media");
+  });
+
+  it("plays the recording announcement in full before the greeting", async () => {
+    const recorded = agentConfigSchema.parse({
+      ...agent,
+      recordCalls: true,
+      recordingAnnouncement: "This call is recorded.",
+    });
+    const { client, sessionId } = await connect(300, recorded);
+    await client.waitFor((message) => message.event === "media");
+
+    client.speak("Who is this?");
+    await client.waitFor(markNamed("2:1"));
+
+    const marks = client.received.filter((message) => message.event === "mark");
+    assert.deepEqual(
+      marks.map((message) => message.mark.name),
+      ["1:0", "2:0", "2:1"],
+    );
+    assert.equal(client.received.some((message) => message.event === "clear"), false);
+    assert.equal(getSession(sessionId)?.transcript.some((turn) => turn.role === "user"), false);
+  });
+
+  it("streams the model reply and records it once played", async () => {
+    const { client, sessionId } = await connect();
+    await client.waitFor(markNamed("1:1"));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    client.speak("Sure, go ahead.");
+    await client.waitFor(markNamed("2:1"));
+
+    await eventually(() => {
+      const turns = getSession(sessionId)?.transcript.map(({ role, content }) => ({ role, content }));
+      assert.deepEqual(turns?.slice(-2), [
+        { role: "user", content: "Sure, go ahead." },
+        { role: "assistant", content: "Great. Does Tuesday at ten work?" },
+      ]);
+    });
+    assert.equal(client.received.some((message) => message.event === "clear"), false);
+  });
+
+  it("clears queued audio when the caller talks over the agent", async () => {
+    const { client, sessionId } = await connect(1000);
+    await client.waitFor(markNamed("1:1"));
+
+    client.speak("Who is this?");
+
+    await client.waitFor((message) => message.event === "clear");
+    await client.waitFor(markNamed("2:0"));
+    assert.equal(getSession(sessionId)?.transcript.at(-1)?.content, "Who is this?");
+  });
+
+  it("keeps only what was heard when the caller hangs up mid-reply", async () => {
+    const { client, sessionId } = await connect(1000);
+    await client.waitFor(markNamed("1:1"));
+    client.speak("Sure, go ahead.");
+    await client.waitFor(markNamed("2:1"));
+
+    client.hangUp();
+
+    await eventually(() => {
+      const transcript = getSession(sessionId)?.transcript ?? [];
+      assert.equal(
+        transcript.at(-1)?.content,
+        "The customer interrupted; the rest of the reply was not played.",
+      );
+      assert.equal(transcript.some((turn) => turn.role === "assistant"), false);
+    });
+  });
+
+  it("says goodbye and hangs up when the caller opts out", async () => {
+    const { client } = await connect();
+    await client.waitFor(markNamed("1:1"));
+
+    client.speak("Stop calling me.");
+
+    await eventually(() => assert.deepEqual(hungUp, ["CAfake"]));
+    assert.equal(client.received.some(markNamed("2:0")), true);
+  });
+});
@@ -0,0 +1,136 @@
+import type { IncomingMessage } from "node:http";
+import WebSocket, { WebSocketServer } from "ws";
+import { z } from "zod";
+import { getSession } from "@/lib/session-store";
+import { openAISpeechServices, type SpeechServices } from "@/lib/speech-services";
+import {
+  createStreamConversation,
+  type StreamConversation,
+} from "@/lib/stream-conversation";
+import { isSignedMediaStream } from "@/lib/twilio-signature";
+
+const DEFAULT_PORT = 3001;
+
+/** The Twilio Media Streams messages the pipeline acts on; others are ignored. */
+const streamMessageSchema = z.discriminatedUnion("event", [
+  z.object({ event: z.literal("connected") }),
+  z.object({
+    event: z.literal("start"),
+    streamSid: z.string(),
+    start: z.object({
+      callSid: z.string().optional(),
+      customParameters: z.record(z.string(), z.string()).optional(),
+    }),
+  }),
+  z.object({
+    event: z.literal("media"),
+    media: z.object({ payload: z.string() }),
+  }),
+  z.object({
+    event: z.literal("mark"),
+    mark: z.object({ name: z.string() }),
+  }),
+  z.object({ event: z.literal("stop") }),
+]);
+
+type StreamMessage = z.infer<typeof streamMessageSchema>;
+
+const globalForMediaStreams = globalThis as unknown as {
+  mediaStreamServer?: WebSocketServer;
+};
+
+function parseMessage(data: WebSocket.RawData): StreamMessage | undefined {
+  try {
+    const parsed = streamMessageSchema.safeParse(JSON.parse(data.toString()));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One Twilio stream. The `start` message carries the session and an optional
+ * `prompt` as custom parameters from the `<Stream>` TwiML.
+ */
+function handleConnection(socket: WebSocket, services: SpeechServices) {
+  let conversation: StreamConversation | undefined;
+
+  socket.on("message", (data) => {
+    const message = parseMessage(data);
+
+    switch (message?.event) {
+      case "start": {
+        const parameters = message.start.customParameters ?? {};
+        const session = parameters.session ? getSession(parameters.session) : undefined;
+        if (!session) {
+          socket.close(1008, "Unknown session");
+          return;
+        }
+
+        conversation = createStreamConversation({
+          sessionId: session.sessionId,
+          streamSid: message.streamSid,
+          callSid: message.start.callSid ?? session.callSid,
+          services,
+          send: (outbound) => {
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.send(JSON.stringify(outbound));
+            }
+          },
+        });
+        conversation.start(parameters.prompt || undefined);
+        break;
+      }
+      case "media":
+        conversation?.handleAudio(message.media.payload);
+        break;
+      case "mark":
+        conversation?.handleMark(message.mark.name);
+        break;
+      case "stop":
+        conversation?.close();
+        conversation = undefined;
+        break;
+    }
+  });
+
+  socket.on("close", () => {
+    conversation?.close();
+    conversation = undefined;
+  });
+}
+
+/**
+ * A WebSocket server speaking the Twilio Media Streams protocol. Connections
+ * must carry a valid Twilio signature for `streamUrl`.
+ */
+export function createMediaStreamServer({
+  port,
+  streamUrl,
+  services = openAISpeechServices,
+}: {
+  port: number;
+  streamUrl: string;
+  services?: SpeechServices;
+}): WebSocketServer {
+  const server = new WebSocketServer({
+    port,
+    verifyClient: ({ req }: { req: IncomingMessage }) =>
+      isSignedMediaStream(req.headers["x-twilio-signature"] as string | undefined, streamUrl),
+  });
+
+  server.on("connection", (socket) => handleConnection(socket, services));
+  return server;
+}
+
+/**
+ * Starts the process-wide server on `MEDIA_STREAM_PORT` when
+ * `MEDIA_STREAM_URL` is configured. Twilio must reach the port at that URL.
+ */
+export function startMediaStreamServer() {
+  const streamUrl = process.env.MEDIA_STREAM_URL;
+  if (!streamUrl || globalForMediaStreams.mediaStreamServer) return;
+
+  const port = Number(process.env.MEDIA_STREAM_PORT ?? DEFAULT_PORT);
+  globalForMediaStreams.mediaStreamServer = createMediaStreamServer({ port, streamUrl });
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { migrations } from "@/lib/migrations";
+
+/** Applies migrations after `fromId` up to and including `toId`. */
+function migrate(db: InstanceType<typeof Database>, fromId: number, toId: number) {
+  for (const migration of migrations.filter((entry) => entry.id > fromId && entry.id <= toId)) {
+    if (typeof migration.up === "string") {
+      db.exec(migration.up);
+    } else {
+      migration.up(db);
+    }
+  }
+}
+
+describe("normalize_do_not_call_e164", () => {
+  const countryCode = process.env.DEFAULT_COUNTRY_CODE;
+
+  afterEach(() => {
+    process.env.DEFAULT_COUNTRY_CODE = countryCode;
+    if (countryCode === undefined) delete process.env.DEFAULT_COUNTRY_CODE;
+  });
+
+  function listAfterMigration(entries: [string, string][]) {
+    const db = new Database(":memory:");
+    migrate(db, 0, 17);
+    const insert = db.prepare(
+      "INSERT INTO do_not_call (phone_number, source, created_at) VALUES (?, 'manual', ?)",
+    );
+    entries.forEach(([phoneNumber, createdAt]) => insert.run(phoneNumber, createdAt));
+
+    migrate(db, 17, 18);
+    return db
+      .prepare("SELECT phone_number, created_at FROM do_not_call ORDER BY phone_number")
+      .all();
+  }
+
+  it("rewrites stored numbers the way lookups normalize them", () => {
+    process.env.DEFAULT_COUNTRY_CODE = "44";
+
+    assert.deepEqual(
+      listAfterMigration([
+        ["07700900123", "2025-01-01"],
+        ["00493012345678", "2025-01-02"],
+        ["+14155550100", "2025-01-03"],
+      ]),
+      [
+        { phone_number: "+14155550100", created_at: "2025-01-03" },
+        { phone_number: "+447700900123", created_at: "2025-01-01" },
+        { phone_number: "+493012345678", created_at: "2025-01-02" },
+      ],
+    );
+  });
+
+  it("keeps one entry per number", () => {
+    assert.deepEqual(
+      listAfterMigration([
+        ["4155550100", "2025-01-01"],
+        ["14155550100", "2025-01-02"],
+        ["+14155550100", "2025-01-03"],
+        ["4155550199", "2025-01-04"],
+        ["14155550199", "2025-01-05"],
+      ]),
+      [
+        { phone_number: "+14155550100", created_at: "2025-01-03" },
+        { phone_number: "+14155550199", created_at: "2025-01-04" },
+      ],
+    );
+  });
+});
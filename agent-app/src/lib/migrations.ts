@@ -0,0 +1,303 @@
+import type { DatabaseHandle } from "@/lib/db";
+import { normalizePhoneNumber } from "@/lib/phone-numbers";
+
+export type Migration = {
+  id: number;
+  name: string;
+  /** SQL, or a function for data changes SQL cannot express. */
+  up: string | ((db: DatabaseHandle) => void);
+};
+
+/**
+ * Entries used to keep numbers as typed; lookups now compare E.164. When
+ * several entries become the same number, the one already in E.164, else the
+ * oldest, is kept.
+ */
+function normalizeDoNotCallNumbers(db: DatabaseHandle) {
+  const rows = db
+    .prepare("SELECT phone_number FROM do_not_call ORDER BY created_at")
+    .all() as { phone_number: string }[];
+  const listed = new Set(rows.map((row) => row.phone_number));
+  const rename = db.prepare("UPDATE do_not_call SET phone_number = ? WHERE phone_number = ?");
+  const remove = db.prepare("DELETE FROM do_not_call WHERE phone_number = ?");
+
+  for (const { phone_number: phoneNumber } of rows) {
+    const normalized = normalizePhoneNumber(phoneNumber);
+    if (!normalized || normalized === phoneNumber) continue;
+
+    if (listed.has(normalized)) {
+      remove.run(phoneNumber);
+    } else {
+      rename.run(normalized, phoneNumber);
+      listed.add(normalized);
+    }
+  }
+}
+
+/**
+ * Ordered schema changes. Append new entries; never edit one that has shipped.
+ */
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: "create_sessions",
+    up: `
+      CREATE TABLE sessions (
+        session_id TEXT PRIMARY KEY,
+        call_sid TEXT,
+        status TEXT NOT NULL,
+        config TEXT NOT NULL,
+        summary TEXT,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX sessions_call_sid_idx ON sessions (call_sid);
+      CREATE INDEX sessions_created_at_idx ON sessions (created_at);
+
+      CREATE TABLE transcript_turns (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions (session_id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+      CREATE INDEX transcript_turns_session_idx ON transcript_turns (session_id, seq);
+    `,
+  },
+  {
+    id: 2,
+    name: "create_campaigns",
+    up: `
+      CREATE TABLE campaigns (
+        campaign_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        max_concurrent_calls INTEGER NOT NULL,
+        calls_per_minute INTEGER NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE campaign_contacts (
+        contact_id TEXT PRIMARY KEY,
+        campaign_id TEXT NOT NULL REFERENCES campaigns (campaign_id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        phone_number TEXT NOT NULL,
+        customer_name TEXT,
+        variables TEXT NOT NULL,
+        status TEXT NOT NULL,
+        session_id TEXT,
+        last_error TEXT,
+        attempted_at TEXT,
+        completed_at TEXT
+      );
+      CREATE INDEX campaign_contacts_campaign_idx ON campaign_contacts (campaign_id, status, seq);
+      CREATE INDEX campaign_contacts_session_idx ON campaign_contacts (session_id);
+    `,
+  },
+  {
+    id: 3,
+    name: "add_call_attempts",
+    up: `
+      ALTER TABLE sessions ADD COLUMN twilio_status TEXT;
+      ALTER TABLE sessions ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE sessions ADD COLUMN original_session_id TEXT;
+      CREATE INDEX sessions_original_session_idx ON sessions (original_session_id);
+
+      CREATE TABLE scheduled_calls (
+        schedule_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        source_session_id TEXT,
+        reason TEXT NOT NULL,
+        run_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX scheduled_calls_due_idx ON scheduled_calls (status, run_at);
+      CREATE INDEX scheduled_calls_source_idx ON scheduled_calls (source_session_id);
+    `,
+  },
+  {
+    id: 4,
+    name: "add_answered_by",
+    up: `
+      ALTER TABLE sessions ADD COLUMN answered_by TEXT;
+    `,
+  },
+  {
+    id: 5,
+    name: "create_users",
+    up: `
+      CREATE TABLE users (
+        user_id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE auth_sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX auth_sessions_user_idx ON auth_sessions (user_id);
+    `,
+  },
+  {
+    id: 6,
+    name: "create_agent_profiles",
+    up: `
+      CREATE TABLE agent_profiles (
+        profile_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        latest_version INTEGER NOT NULL,
+        archived_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE agent_profile_versions (
+        profile_id TEXT NOT NULL REFERENCES agent_profiles (profile_id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        config TEXT NOT NULL,
+        note TEXT,
+        created_by TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (profile_id, version)
+      );
+
+      ALTER TABLE sessions ADD COLUMN agent_profile_id TEXT;
+      ALTER TABLE sessions ADD COLUMN agent_version INTEGER;
+      CREATE INDEX sessions_agent_idx ON sessions (agent_profile_id, agent_version);
+
+      ALTER TABLE campaigns ADD COLUMN agent_profile_id TEXT;
+      ALTER TABLE campaigns ADD COLUMN agent_version INTEGER;
+    `,
+  },
+  {
+    id: 7,
+    name: "add_call_controls",
+    up: `
+      ALTER TABLE sessions ADD COLUMN ai_paused INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE sessions ADD COLUMN pending_line TEXT;
+    `,
+  },
+  {
+    id: 8,
+    name: "create_do_not_call",
+    up: `
+      CREATE TABLE do_not_call (
+        phone_number TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        reason TEXT,
+        session_id TEXT,
+        added_by TEXT,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 9,
+    name: "add_contact_not_before",
+    up: `
+      ALTER TABLE campaign_contacts ADD COLUMN not_before TEXT;
+    `,
+  },
+  {
+    id: 10,
+    name: "add_tool_turns",
+    up: `
+      ALTER TABLE transcript_turns ADD COLUMN tool TEXT;
+    `,
+  },
+  {
+    id: 11,
+    name: "add_session_transfer",
+    up: `
+      ALTER TABLE sessions ADD COLUMN transfer TEXT;
+    `,
+  },
+  {
+    id: 12,
+    name: "add_session_outcome",
+    up: `
+      ALTER TABLE sessions ADD COLUMN outcome TEXT;
+    `,
+  },
+  {
+    id: 13,
+    name: "add_session_simulated",
+    up: `
+      ALTER TABLE sessions ADD COLUMN simulated INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    id: 14,
+    name: "create_evaluations",
+    up: `
+      CREATE TABLE evaluation_runs (
+        run_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        variants TEXT NOT NULL,
+        personas TEXT NOT NULL,
+        customer_mode TEXT NOT NULL,
+        max_turns INTEGER NOT NULL,
+        evaluator_providers TEXT,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE evaluation_results (
+        result_id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL REFERENCES evaluation_runs (run_id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        variant_index INTEGER NOT NULL,
+        persona_id TEXT NOT NULL,
+        session_id TEXT,
+        customer_turns INTEGER NOT NULL,
+        checks TEXT NOT NULL,
+        score REAL,
+        error TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX evaluation_results_run_idx ON evaluation_results (run_id, seq);
+    `,
+  },
+  {
+    id: 15,
+    name: "add_session_guardrail_violations",
+    up: `
+      ALTER TABLE sessions ADD COLUMN guardrail_violations TEXT;
+    `,
+  },
+  {
+    id: 16,
+    name: "add_session_recording",
+    up: `
+      ALTER TABLE sessions ADD COLUMN recording TEXT;
+      CREATE INDEX sessions_recording_idx ON sessions (json_extract(recording, '$.recordedAt')) WHERE recording IS NOT NULL;
+    `,
+  },
+  {
+    id: 17,
+    name: "add_transcript_turn_original",
+    up: `
+      ALTER TABLE transcript_turns ADD COLUMN original TEXT;
+    `,
+  },
+  {
+    id: 18,
+    name: "normalize_do_not_call_e164",
+    up: normalizeDoNotCallNumbers,
+  },
+];
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { completeChat } from "@/lib/llm-providers";
+import { appendMessage, getSession, setOutcome } from "@/lib/session-store";
+
+export const outcomeFieldTypes = [
+  "boolean",
+  "number",
+  "string",
+  "list",
+  "datetime",
+  "enum",
+] as const;
+
+export const outcomeFieldSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Use letters, digits and underscores"),
+    type: z.enum(outcomeFieldTypes),
+    description: z.string().optional(),
+    /** Allowed values for `enum` fields. */
+    options: z.array(z.string().min(1)).min(2).optional(),
+  })
+  .refine((field) => field.type !== "enum" || field.options, {
+    message: "Enum fields need options",
+    path: ["options"],
+  });
+
+export const outcomeFieldsSchema = z
+  .array(outcomeFieldSchema)
+  .max(30)
+  .refine(
+    (fields) => new Set(fields.map((field) => field.name)).size === fields.length,
+    "Field names must be unique",
+  );
+
+export type OutcomeField = z.infer<typeof outcomeFieldSchema>;
+
+/** Extracted values keyed by field name; `null` when the call did not cover it. */
+export type CallOutcome = Record<string, string | number | boolean | string[] | null>;
+
+function valueSchema(field: OutcomeField) {
+  switch (field.type) {
+    case "boolean":
+      return z.boolean();
+    case "number":
+      return z.number();
+    case "list":
+      return z.array(z.string());
+    case "datetime":
+      return z
+        .string()
+        .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO date");
+    case "enum":
+      return z.enum(field.options as [string, ...string[]]);
+    default:
+      return z.string();
+  }
+}
+
+/** Zod schema for one agent's outcome, used to validate what the model returns. */
+export function buildOutcomeSchema(fields: OutcomeField[]) {
+  return z.object(
+    Object.fromEntries(
+      fields.map((field) => [
+        field.name,
+        valueSchema(field)
+          .nullable()
+          .describe(field.description ?? field.name),
+      ]),
+    ),
+  );
+}
+
+/**
+ * Extracts the agent's outcome fields from a finished call and stores them on
+ * the session. Output that does not match the schema is logged as a system
+ * turn and not stored.
+ */
+export async function extractOutcome(sessionId: string) {
+  const session = getSession(sessionId);
+  const fields = session?.config.outcomeFields;
+  if (!session || !fields?.length) return;
+
+  const transcriptText = session.transcript
+    .filter((turn) => turn.role === "user" || turn.role === "assistant")
+    .map((turn) => `${turn.role.toUpperCase()}: ${turn.content}`)
+    .join("\n");
+  if (!transcriptText) return;
+
+  const schema = buildOutcomeSchema(fields);
+
+  try {
+    const message = await completeChat(session.config.llmProviders, {
+      temperature: 0,
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: [
+            "You extract structured results from sales call transcripts.",
+            "Reply with one JSON object matching this JSON Schema. Use null for anything the call did not establish. Write times as ISO 8601 with a UTC offset.",
+            JSON.stringify(z.toJSONSchema(schema)),
+          ].join("\n"),
+        },
+        { role: "user", content: transcriptText },
+      ],
+    });
+
+    const parsed = schema.safeParse(
+      JSON.parse(message.content ?? "{}"),
+    );
+    if (!parsed.success) {
+      appendMessage(
+        session.sessionId,
+        "system",
+        `Outcome extraction returned invalid fields: ${parsed.error.issues
+          .map((issue) => issue.path.join("."))
+          .join(", ")}.`,
+      );
+      return;
+    }
+
+    setOutcome(session.sessionId, parsed.data as CallOutcome);
+  } catch (error) {
+    console.error("Failed to extract call outcome", error);
+  }
+}
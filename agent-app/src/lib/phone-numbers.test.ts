@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizePhoneNumber } from "@/lib/phone-numbers";
+
+describe("normalizePhoneNumber", () => {
+  it("brings national and international formats to E.164", () => {
+    for (const phoneNumber of [
+      "(415) 555-0100",
+      "415.555.0100",
+      "1 415 555 0100",
+      "+1 (415) 555-0100",
+      "001 415 555 0100",
+      "+14155550100",
+    ]) {
+      assert.equal(normalizePhoneNumber(phoneNumber), "+14155550100", phoneNumber);
+    }
+  });
+
+  it("applies another default country code and drops the trunk prefix", () => {
+    assert.equal(normalizePhoneNumber("07700 900123", "44"), "+447700900123");
+    assert.equal(normalizePhoneNumber("+1 415 555 0100", "44"), "+14155550100");
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Brings a number to E.164 so `(415) 555-0123`, `001 415 555 0123` and
+ * `+14155550123` match. Numbers without a country code get
+ * `DEFAULT_COUNTRY_CODE` (default `1`), after dropping a national trunk `0`.
+ */
+export function normalizePhoneNumber(
+  phoneNumber: string,
+  defaultCountryCode = process.env.DEFAULT_COUNTRY_CODE ?? "1",
+): string {
+  const trimmed = phoneNumber.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (!digits) return "";
+
+  if (trimmed.startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+
+  const countryCode = defaultCountryCode.replace(/\D/g, "");
+  // North American numbers are often written with the country code but no `+`.
+  if (countryCode === "1" && digits.length === 11 && digits.startsWith("1")) {
+    return `+${digits}`;
+  }
+  return `+${countryCode}${digits.replace(/^0/, "")}`;
+}
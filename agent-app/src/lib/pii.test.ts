@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { redactText } from "@/lib/pii";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { appendMessage, createSession, type AgentSessionConfig } from "@/lib/session-store";
+
+const agent = agentConfigSchema.parse({
+  agentName: "Ava",
+  greeting: "Hi there, this is Ava.",
+  objective: "Book a solar review",
+  voice: "Polly.Joanna",
+  language: "en-US",
+  callbackNumber: "+1 415 555 0100",
+  redaction: {
+    detectors: ["card", "email"],
+    customPatterns: [{ label: "POLICY", pattern: "\\bPOL-\\d{8}\\b" }],
+  },
+});
+
+const defaults = { callbackNumber: "+1 415 555 0100" } as AgentSessionConfig;
+
+describe("redactText", () => {
+  it("replaces each built-in kind", () => {
+    assert.equal(
+      redactText(defaults, "Card 4111 1111 1111 1111, SSN 123-45-6789, jo@example.com, (212) 555-0199"),
+      "Card [CARD], SSN [SSN], [EMAIL], [PHONE]",
+    );
+  });
+
+  it("leaves numbers that fail their checks alone", () => {
+    assert.equal(
+      redactText(defaults, "Order 4111 1111 1111 1112 on 2025-01-15, ref 666-12-3456"),
+      "Order 4111 1111 1111 1112 on 2025-01-15, ref 666-12-3456",
+    );
+  });
+
+  it("keeps the agent's own numbers", () => {
+    assert.equal(redactText(defaults, "Call us at +1 415 555 0100."), "Call us at +1 415 555 0100.");
+  });
+
+  it("catches spoken email addresses", () => {
+    assert.equal(redactText(defaults, "it's jo at example dot com"), "it's [EMAIL]");
+  });
+});
+
+describe("transcript redaction", () => {
+  const revealRole = process.env.PII_REVEAL_ROLE;
+
+  beforeEach(() => {
+    setSessionStorage(new MemorySessionStorage());
+    delete process.env.PII_REVEAL_ROLE;
+  });
+
+  afterEach(() => {
+    process.env.PII_REVEAL_ROLE = revealRole;
+    if (revealRole === undefined) delete process.env.PII_REVEAL_ROLE;
+  });
+
+  it("applies the agent's settings to calls placed with it", () => {
+    const session = createSession(
+      toSessionInput(agent, { sessionId: crypto.randomUUID(), targetNumber: "+14155550123" }),
+    );
+
+    const turn = appendMessage(
+      session.sessionId,
+      "user",
+      "Policy POL-12345678, card 4111 1111 1111 1111, phone 212 555 0199",
+    );
+
+    assert.equal(turn?.content, "Policy [POLICY], card [CARD], phone 212 555 0199");
+    assert.equal(turn?.original, undefined);
+  });
+
+  it("keeps the original only while a role may reveal it", () => {
+    process.env.PII_REVEAL_ROLE = "admin";
+    const session = createSession(
+      toSessionInput(agent, { sessionId: crypto.randomUUID(), targetNumber: "+14155550123" }),
+    );
+
+    const turn = appendMessage(session.sessionId, "user", "Mail jo@example.com");
+
+    assert.equal(turn?.content, "Mail [EMAIL]");
+    assert.equal(turn?.original, "Mail jo@example.com");
+  });
+});
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { hasRole, roles, type AuthUser, type Role } from "@/lib/auth";
+import type { AgentSessionConfig, TranscriptTurn } from "@/lib/session-store";
+
+/**
+ * Finds personal data in what is said on a call. Transcript turns are
+ * redacted before they are stored, so the models that answer, summarize and
+ * grade calls only ever see the placeholders. Originals are kept only when
+ * `PII_REVEAL_ROLE` names a role allowed to see them.
+ */
+
+export const piiKinds = ["card", "ssn", "email", "phone"] as const;
+
+export type PiiKind = (typeof piiKinds)[number];
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, "gi");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const redactionSchema = z.object({
+  /** Built-in detectors to run. Defaults to all of them; `[]` turns them off. */
+  detectors: z.array(z.enum(piiKinds)).optional(),
+  /** Agent-specific data, e.g. `{ "label": "POLICY", "pattern": "\\bPOL-\\d{8}\\b" }`. Matched ignoring case. */
+  customPatterns: z
+    .array(
+      z.object({
+        label: z.string().regex(/^[A-Z][A-Z0-9_]*$/, "Use an upper-case label, e.g. POLICY"),
+        pattern: z.string().min(1).refine(isValidPattern, "Invalid regular expression"),
+      }),
+    )
+    .max(20)
+    .optional(),
+});
+
+export type RedactionConfig = z.infer<typeof redactionSchema>;
+
+type Detector = {
+  kind: PiiKind;
+  /** How a finding reads in a sentence, e.g. in guardrail details. */
+  label: string;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+};
+
+// Order matters: card numbers are replaced before the phone detector can
+// mistake them for long phone numbers.
+const detectors: Detector[] = [
+  { kind: "card", label: "a card number", pattern: /\b(?:\d[ -]?){12,18}\d\b/g, accept: passesLuhn },
+  {
+    kind: "ssn",
+    label: "a social security number",
+    pattern: /\b\d{3}[- ]?\d{2}[- ]?\d{4}\b/g,
+    accept: isPlausibleSsn,
+  },
+  {
+    kind: "email",
+    label: "an email address",
+    pattern: /\b[\w.+-]+(?:@|\s+at\s+)[\w-]+(?:(?:\.|\s+dot\s+)[a-z]{2,})+\b/gi,
+  },
+  {
+    kind: "phone",
+    label: "a phone number",
+    pattern: /\+?\(?\d[\d ().-]{8,}\d/g,
+    accept: (match) => digitsOf(match).length >= 10 && digitsOf(match).length <= 15,
+  },
+];
+
+function passesLuhn(value: string) {
+  const digits = digitsOf(value);
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Area, group and serial ranges the SSA has never issued are rejected. */
+function isPlausibleSsn(value: string) {
+  const digits = digitsOf(value);
+  const area = Number(digits.slice(0, 3));
+  return (
+    area !== 0 &&
+    area !== 666 &&
+    area < 900 &&
+    digits.slice(3, 5) !== "00" &&
+    digits.slice(5) !== "0000"
+  );
+}
+
+function digitsOf(value?: string) {
+  return value?.replace(/\D/g, "") ?? "";
+}
+
+/** Numbers the agent is meant to give out; never treated as customer data. */
+function ownNumbers(config: AgentSessionConfig) {
+  return new Set(
+    [config.callbackNumber, config.transferNumber]
+      .map(digitsOf)
+      .filter((digits) => digits.length > 0),
+  );
+}
+
+function isOwnNumber(kind: PiiKind, match: string, allowed: Set<string>) {
+  return kind === "phone" && allowed.has(digitsOf(match));
+}
+
+/** Labels of the built-in kinds found in `text`, e.g. "a card number". */
+export function findPii(config: AgentSessionConfig, text: string): string[] {
+  const allowed = ownNumbers(config);
+  return detectors
+    .filter(({ kind, pattern, accept }) =>
+      [...text.matchAll(pattern)].some(
+        ([match]) => (!accept || accept(match)) && !isOwnNumber(kind, match, allowed),
+      ),
+    )
+    .map((detector) => detector.label);
+}
+
+/** Replaces personal data in `text` with placeholders such as `[CARD]`. */
+export function redactText(config: AgentSessionConfig, text: string): string {
+  const enabled = config.redaction?.detectors ?? piiKinds;
+  const allowed = ownNumbers(config);
+
+  let redacted = text;
+  for (const { label, pattern } of config.redaction?.customPatterns ?? []) {
+    redacted = redacted.replace(new RegExp(pattern, "gi"), `[${label}]`);
+  }
+  for (const { kind, pattern, accept } of detectors) {
+    if (!enabled.includes(kind)) continue;
+    redacted = redacted.replace(pattern, (match) =>
+      (!accept || accept(match)) && !isOwnNumber(kind, match, allowed)
+        ? `[${kind.toUpperCase()}]`
+        : match,
+    );
+  }
+  return redacted;
+}
+
+/** Redacts every string inside a JSON-like value, e.g. tool arguments. */
+export function redactValue<T>(config: AgentSessionConfig, value: T): T {
+  if (typeof value === "string") return redactText(config, value) as T;
+  if (Array.isArray(value)) return value.map((item) => redactValue(config, item)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(config, item)]),
+    ) as T;
+  }
+  return value;
+}
+
+/** Minimum role shown original text, from `PII_REVEAL_ROLE`. Unset reveals to nobody. */
+export function piiRevealRole(): Role | undefined {
+  const role = process.env.PII_REVEAL_ROLE;
+  return roles.find((candidate) => candidate === role);
+}
+
+export function canRevealPii(user: AuthUser): boolean {
+  const role = piiRevealRole();
+  return role !== undefined && hasRole(user, role);
+}
+
+/**
+ * The turn as it is stored. `original` is kept only when it differs and some
+ * role may reveal it; otherwise the spoken text is gone once this returns.
+ */
+export function redactTurn(config: AgentSessionConfig, turn: TranscriptTurn): TranscriptTurn {
+  const content = redactText(config, turn.content);
+  return {
+    ...turn,
+    content,
+    ...(content !== turn.content && piiRevealRole() ? { original: turn.content } : {}),
+    ...(turn.tool ? { tool: redactValue(config, turn.tool) } : {}),
+  };
+}
+
+/** Drops `original` from turns unless the viewer may reveal it. */
+export function presentTurn(turn: TranscriptTurn, revealPii: boolean): TranscriptTurn {
+  return revealPii || turn.original === undefined ? turn : { ...turn, original: undefined };
+}
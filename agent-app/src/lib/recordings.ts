@@ -0,0 +1,61 @@
+import { getSessionStorage } from "@/lib/session-storage";
+import { setRecording } from "@/lib/session-store";
+import { getTelephony } from "@/lib/telephony";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const globalForRecordings = globalThis as unknown as {
+  recordingPurgeTimer?: NodeJS.Timeout;
+  recordingPurgeBusy?: boolean;
+};
+
+/** Days a recording is kept, from `RECORDING_RETENTION_DAYS`. */
+export function recordingRetentionDays(): number {
+  const days = Number(process.env.RECORDING_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Deletes recordings older than the retention period at the provider and
+ * marks them purged on their sessions. A failed delete is retried on the
+ * next run.
+ */
+export async function purgeExpiredRecordings() {
+  if (globalForRecordings.recordingPurgeBusy) return;
+  globalForRecordings.recordingPurgeBusy = true;
+
+  try {
+    const cutoff = new Date(
+      Date.now() - recordingRetentionDays() * 24 * 60 * 60 * 1000,
+    ).toISOString();
+
+    for (const session of getSessionStorage().listRecordedBefore(cutoff)) {
+      const recording = session.recording!;
+      try {
+        await getTelephony().deleteRecording(recording.recordingId);
+        setRecording(session.sessionId, {
+          ...recording,
+          status: "purged",
+          url: undefined,
+          purgedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error(`Failed to purge recording ${recording.recordingId}`, error);
+      }
+    }
+  } finally {
+    globalForRecordings.recordingPurgeBusy = false;
+  }
+}
+
+/** Starts the hourly purge loop once per server process. */
+export function startRecordingPurger() {
+  if (globalForRecordings.recordingPurgeTimer) return;
+
+  void purgeExpiredRecordings();
+  globalForRecordings.recordingPurgeTimer = setInterval(() => {
+    void purgeExpiredRecordings();
+  }, PURGE_INTERVAL_MS);
+}
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { conversationTurn } from "@/lib/call-script";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession } from "@/lib/session-store";
+
+process.env.DATABASE_PATH = ":memory:";
+
+type JudgeRequest = { messages: { role: string; content: string }[] };
+
+/** An OpenAI-compatible judge that approves everything and keeps what it was asked. */
+function startJudge(requests: JudgeRequest[]): Promise<Server> {
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      requests.push(JSON.parse(body) as JudgeRequest);
+      response.setHeader("content-type", "application/json");
+      response.end(
+        JSON.stringify({
+          id: "judge",
+          object: "chat.completion",
+          created: 0,
+          model: "judge",
+          choices: [
+            {
+              index: 0,
+              finish_reason: "stop",
+              message: { role: "assistant", content: '{"compliant":true,"reason":"Fine."}' },
+            },
+          ],
+        }),
+      );
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("enforceReplyPolicy on a <Gather> turn", () => {
+  const requests: JudgeRequest[] = [];
+  let judge: Server;
+  let agent: ReturnType<typeof agentConfigSchema.parse>;
+
+  before(async () => {
+    judge = await startJudge(requests);
+    const { port } = judge.address() as AddressInfo;
+    agent = agentConfigSchema.parse({
+      agentName: "Ava",
+      greeting: "Hi there, this is Ava.",
+      objective: "Book a solar review",
+      voice: "Polly.Joanna",
+      language: "en-US",
+      llmProviders: [{ provider: "scripted", script: ["Tuesday at ten works."] }],
+      replyPolicy: {
+        requiredDisclosures: ["This call may be recorded."],
+        llmJudge: {
+          providers: [{ provider: "openai-compatible", baseUrl: `http://127.0.0.1:${port}/v1` }],
+        },
+      },
+    });
+  });
+
+  after(() => new Promise<void>((resolve) => judge.close(() => resolve())));
+
+  beforeEach(() => {
+    setSessionStorage(new MemorySessionStorage());
+    requests.length = 0;
+  });
+
+  it("shows the judge what the customer just said", async () => {
+    const session = createSession(
+      toSessionInput(agent, { sessionId: crypto.randomUUID(), targetNumber: "+14155550123" }),
+    );
+
+    const steps = await conversationTurn(
+      "https://agents.example.com/api/voice-script",
+      session,
+      "Could you do Tuesday morning?",
+    );
+
+    assert.equal(requests.length, 1);
+    assert.match(requests[0].messages[1].content, /^Customer said: Could you do Tuesday morning\?\n/);
+    assert.equal(
+      steps[0].type === "gather" ? steps[0].prompt : undefined,
+      "This call may be recorded. Tuesday at ten works.",
+    );
+  });
+});
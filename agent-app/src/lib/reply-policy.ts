@@ -0,0 +1,290 @@
+import { z } from "zod";
+import { completeChat, llmProvidersSchema } from "@/lib/llm-providers";
+import { findPii } from "@/lib/pii";
+import {
+  addGuardrailViolations,
+  type AgentSessionConfig,
+  type CallSession,
+} from "@/lib/session-store";
+
+/**
+ * Checks what the model wants to say before it reaches text-to-speech. The
+ * prompt's guardrails are only advice to the model; these rules are enforced
+ * on every model reply, and each violation is recorded on the session.
+ */
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const replyPolicySchema = z.object({
+  /** Never said, matched ignoring case, e.g. "guaranteed savings". */
+  bannedPhrases: z.array(z.string().min(2)).optional(),
+  /** Regular expressions for claims, e.g. `\\$\\d+ (rebate|bonus)`. Matched ignoring case. */
+  bannedPatterns: z
+    .array(z.string().min(1).refine(isValidPattern, "Invalid regular expression"))
+    .optional(),
+  /** Lines the agent must have said before its first model reply is spoken. */
+  requiredDisclosures: z.array(z.string().min(6)).optional(),
+  /** Blocks card numbers, SSNs, email addresses and phone numbers other than the agent's own. */
+  blockPii: z.boolean().optional(),
+  /** Longer replies are cut at the last sentence that fits. */
+  maxReplyLength: z.number().int().min(40).max(2000).optional(),
+  /** Asks a model whether the reply respects the guardrails. Costs a round trip per turn. */
+  llmJudge: z
+    .object({
+      /** Extra rules for the judge on top of the agent's guardrails. */
+      instructions: z.string().optional(),
+      /** Defaults to the agent's own providers. */
+      providers: llmProvidersSchema.optional(),
+    })
+    .optional(),
+  /** `rewrite` asks the model for a compliant line and falls back to `replace`. */
+  onViolation: z.enum(["rewrite", "replace"]).default("rewrite"),
+  replacementLine: z.string().min(6).optional(),
+});
+
+export type ReplyPolicy = z.infer<typeof replyPolicySchema>;
+
+export type GuardrailRule =
+  | "banned-phrase"
+  | "banned-pattern"
+  | "pii"
+  | "judge"
+  | "length"
+  | "disclosure";
+
+export type GuardrailAction = "rewritten" | "replaced" | "truncated" | "added";
+
+export type GuardrailViolation = {
+  rule: GuardrailRule;
+  detail: string;
+  /** The reply as the model wrote it. */
+  original: string;
+  action: GuardrailAction;
+  timestamp: string;
+};
+
+type Finding = Pick<GuardrailViolation, "rule" | "detail">;
+
+const DEFAULT_REPLACEMENT =
+  "I'm sorry, I can't speak to that. Is there anything else I can help you with?";
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/** Phrase, pattern and PII rules; quick enough to run on every sentence. */
+export function checkReplyText(config: AgentSessionConfig, text: string): Finding[] {
+  const policy = config.replyPolicy;
+  if (!policy) return [];
+
+  const findings: Finding[] = [];
+  const lower = text.toLowerCase();
+
+  for (const phrase of policy.bannedPhrases ?? []) {
+    if (lower.includes(phrase.toLowerCase())) {
+      findings.push({ rule: "banned-phrase", detail: `Said "${phrase}"` });
+    }
+  }
+
+  for (const pattern of policy.bannedPatterns ?? []) {
+    const match = text.match(new RegExp(pattern, "i"));
+    if (match) {
+      findings.push({ rule: "banned-pattern", detail: `Matched /${pattern}/: "${match[0]}"` });
+    }
+  }
+
+  if (policy.blockPii) {
+    for (const label of findPii(config, text)) {
+      findings.push({ rule: "pii", detail: `Contains ${label}` });
+    }
+  }
+
+  return findings;
+}
+
+const judgeSchema = z.object({ compliant: z.boolean(), reason: z.string() });
+
+/** `undefined` when the reply passes or the judge gives no usable answer. */
+async function judgeReply(session: CallSession, reply: string): Promise<Finding | undefined> {
+  const { config } = session;
+  const judge = config.replyPolicy?.llmJudge;
+  if (!judge) return undefined;
+
+  const lastCustomerLine = session.transcript.findLast((turn) => turn.role === "user");
+
+  try {
+    const message = await completeChat(judge.providers ?? config.llmProviders, {
+      temperature: 0,
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: [
+            "You review one line an AI sales agent is about to say on a phone call.",
+            `Guardrails: ${config.guardrails || "none"}`,
+            judge.instructions && `Also check: ${judge.instructions}`,
+            'Answer as JSON: { "compliant": boolean, "reason": "one sentence" }.',
+          ]
+            .filter(Boolean)
+            .join("\n"),
+        },
+        {
+          role: "user",
+          content: `Customer said: ${lastCustomerLine?.content ?? "(nothing yet)"}\nAgent is about to say: ${reply}`,
+        },
+      ],
+    });
+
+    const verdict = judgeSchema.parse(JSON.parse(message.content ?? "{}"));
+    return verdict.compliant ? undefined : { rule: "judge", detail: verdict.reason };
+  } catch (error) {
+    // A judge outage should not silence the agent; the other rules still apply.
+    console.error("Reply judge failed", error);
+    return undefined;
+  }
+}
+
+async function findViolations(session: CallSession, reply: string): Promise<Finding[]> {
+  const findings = checkReplyText(session.config, reply);
+  if (findings.length > 0) return findings;
+
+  const judged = await judgeReply(session, reply);
+  return judged ? [judged] : [];
+}
+
+async function rewriteReply(
+  session: CallSession,
+  reply: string,
+  findings: Finding[],
+): Promise<string | undefined> {
+  const { config } = session;
+
+  try {
+    const message = await completeChat(config.llmProviders, {
+      temperature: 0.2,
+      messages: [
+        {
+          role: "system",
+          content: [
+            `Rewrite a line ${config.agentName} was about to say on a sales call so it no longer has these problems:`,
+            ...findings.map((finding) => `- ${finding.detail}`),
+            config.guardrails && `Guardrails: ${config.guardrails}`,
+            "Keep the rest of its meaning. Reply with only the new line, in one or two short spoken sentences.",
+          ]
+            .filter(Boolean)
+            .join("\n"),
+        },
+        { role: "user", content: reply },
+      ],
+    });
+    return message.content?.trim() || undefined;
+  } catch (error) {
+    console.error("Reply rewrite failed", error);
+    return undefined;
+  }
+}
+
+export function replacementLine(config: AgentSessionConfig): string {
+  return config.replyPolicy?.replacementLine ?? DEFAULT_REPLACEMENT;
+}
+
+/** Cuts `text` after the last sentence that fits, or the last word if none does. */
+export function truncateReply(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const head = text.slice(0, maxLength);
+  const sentenceEnd = Math.max(head.lastIndexOf(". "), head.lastIndexOf("! "), head.lastIndexOf("? "));
+  if (sentenceEnd > 0) return head.slice(0, sentenceEnd + 1);
+
+  const wordEnd = head.lastIndexOf(" ");
+  return `${head.slice(0, wordEnd > 0 ? wordEnd : maxLength).replace(/[\s,;:]+$/, "")}.`;
+}
+
+/** Required disclosures the agent has not said yet on this call. */
+export function missingDisclosures(session: CallSession, reply = ""): string[] {
+  const said = normalize(
+    [
+      ...session.transcript.filter((turn) => turn.role === "assistant").map((turn) => turn.content),
+      reply,
+    ].join(" "),
+  );
+  return (session.config.replyPolicy?.requiredDisclosures ?? []).filter(
+    (disclosure) => !said.includes(normalize(disclosure)),
+  );
+}
+
+export function recordViolations(
+  sessionId: string,
+  original: string,
+  action: GuardrailAction,
+  findings: Finding[],
+) {
+  if (findings.length === 0) return;
+  const timestamp = new Date().toISOString();
+  addGuardrailViolations(
+    sessionId,
+    findings.map((finding) => ({ ...finding, original, action, timestamp })),
+  );
+}
+
+/**
+ * Applies the agent's reply policy to a model reply on a `<Gather>` turn.
+ * `replaced` is true when none of the model's words survived.
+ */
+export async function enforceReplyPolicy(
+  session: CallSession,
+  reply: string,
+): Promise<{ reply: string; replaced: boolean }> {
+  const policy = session.config.replyPolicy;
+  if (!policy) return { reply, replaced: false };
+
+  let text = reply;
+  let replaced = false;
+
+  const findings = await findViolations(session, reply);
+  if (findings.length > 0) {
+    const rewritten =
+      policy.onViolation === "rewrite"
+        ? await rewriteReply(session, reply, findings)
+        : undefined;
+    if (rewritten && (await findViolations(session, rewritten)).length === 0) {
+      text = rewritten;
+      recordViolations(session.sessionId, reply, "rewritten", findings);
+    } else {
+      text = replacementLine(session.config);
+      replaced = true;
+      recordViolations(session.sessionId, reply, "replaced", findings);
+    }
+  }
+
+  if (policy.maxReplyLength && text.length > policy.maxReplyLength) {
+    recordViolations(session.sessionId, text, "truncated", [
+      { rule: "length", detail: `${text.length} characters, limit ${policy.maxReplyLength}` },
+    ]);
+    text = truncateReply(text, policy.maxReplyLength);
+  }
+
+  // Added after truncation so a long reply cannot cut the disclosure off.
+  const missing = missingDisclosures(session, text);
+  if (missing.length > 0) {
+    recordViolations(
+      session.sessionId,
+      text,
+      "added",
+      missing.map((disclosure) => ({
+        rule: "disclosure",
+        detail: `Had not said "${disclosure}"`,
+      })),
+    );
+    text = [...missing, text].join(" ");
+  }
+
+  return { reply: text, replaced };
+}
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import {
+  callingWindowSchema,
+  nextAllowedTime,
+  windowForCallee,
+} from "@/lib/calling-window";
+import {
+  findScheduledCallBySource,
+  scheduleCall,
+  type ScheduledCall,
+} from "@/lib/call-scheduler";
+import { createSession, type CallSession } from "@/lib/session-store";
+
+/** Raw Twilio outcomes a policy may opt into redialing. */
+export const retryableTwilioStatuses = [
+  "busy",
+  "no-answer",
+  "failed",
+  "canceled",
+] as const;
+
+export const retryPolicySchema = z.object({
+  /** Total dials per contact, including the first one. */
+  maxAttempts: z.number().int().min(1).max(10).default(1),
+  backoffMinutes: z.number().min(1).max(24 * 60).default(30),
+  retryOn: z
+    .array(z.enum(retryableTwilioStatuses))
+    .default(["busy", "no-answer"]),
+  callingWindow: callingWindowSchema.optional(),
+});
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+function isRetryable(policy: RetryPolicy, twilioStatus: string): boolean {
+  return policy.retryOn.some((status) => status === twilioStatus);
+}
+
+/**
+ * Creates the next attempt for a session that ended busy, unanswered or
+ * failed, if its agent's retry policy allows, and schedules it after the
+ * backoff interval inside the allowed calling window.
+ */
+export function scheduleRetryIfEligible(
+  session: CallSession,
+  twilioStatus: string,
+): ScheduledCall | undefined {
+  const policy = session.config.retryPolicy;
+  if (!policy || session.attempt >= policy.maxAttempts) return undefined;
+  if (!isRetryable(policy, twilioStatus)) return undefined;
+  if (findScheduledCallBySource(session.sessionId, "retry")) return undefined;
+
+  const earliest = new Date(Date.now() + policy.backoffMinutes * 60_000);
+  let runAt = policy.callingWindow
+    ? nextAllowedTime(earliest, policy.callingWindow)
+    : earliest;
+  const { callingHours, targetNumber, timeZone } = session.config;
+  if (callingHours && runAt) {
+    runAt = nextAllowedTime(runAt, windowForCallee(callingHours, targetNumber, timeZone));
+  }
+  // Calling hours that never open leave nothing to retry in.
+  if (!runAt) return undefined;
+
+  const retrySessionId = crypto.randomUUID();
+  createSession({
+    ...session.config,
+    sessionId: retrySessionId,
+    attempt: session.attempt + 1,
+    originalSessionId: session.originalSessionId ?? session.sessionId,
+    agentProfileId: session.agentProfileId,
+    agentVersion: session.agentVersion,
+  });
+
+  return scheduleCall({
+    sessionId: retrySessionId,
+    sourceSessionId: session.sessionId,
+    reason: "retry",
+    runAt,
+  });
+}
@@ -0,0 +1,134 @@
+import type { CallOutcome } from "@/lib/outcomes";
+import type { GuardrailViolation } from "@/lib/reply-policy";
+import type {
+  CallRecording,
+  CallSession,
+  CallStatus,
+  CallTransfer,
+  TranscriptTurn,
+} from "@/lib/session-store";
+
+export type SessionEventPayload =
+  | { type: "session.created"; sessionId: string; session: CallSession }
+  | {
+      type: "session.status";
+      sessionId: string;
+      status: CallStatus;
+      twilioStatus?: string;
+      answeredBy?: string;
+      callSid?: string;
+      updatedAt: string;
+    }
+  | {
+      type: "session.control";
+      sessionId: string;
+      aiPaused: boolean;
+      pendingLine?: string;
+      updatedAt: string;
+    }
+  | {
+      type: "session.transfer";
+      sessionId: string;
+      transfer: CallTransfer;
+      updatedAt: string;
+    }
+  | {
+      type: "session.recording";
+      sessionId: string;
+      recording: CallRecording;
+      updatedAt: string;
+    }
+  | { type: "session.turn"; sessionId: string; turn: TranscriptTurn; updatedAt: string }
+  | { type: "session.summary"; sessionId: string; summary: string; updatedAt: string }
+  | { type: "session.outcome"; sessionId: string; outcome: CallOutcome; updatedAt: string }
+  | {
+      type: "session.guardrail";
+      sessionId: string;
+      /** Only the violations just recorded. */
+      violations: GuardrailViolation[];
+      updatedAt: string;
+    }
+  | {
+      type: "session.error";
+      sessionId: string;
+      status: CallStatus;
+      lastError: string;
+      updatedAt: string;
+    };
+
+/**
+ * Ids increase by one per event so clients can resume with `Last-Event-ID`.
+ * The sequence starts at the boot time, so ids from before a restart are
+ * always older than the backlog and trigger a fresh snapshot.
+ */
+export type SessionEvent = SessionEventPayload & { id: number };
+
+type Listener = (event: SessionEvent) => void;
+
+/** How many recent events are kept for clients resuming after a disconnect. */
+const BACKLOG_SIZE = 1000;
+
+const globalForEvents = globalThis as unknown as {
+  sessionEventBus?: {
+    lastId: number;
+    backlog: SessionEvent[];
+    listeners: Set<Listener>;
+  };
+};
+
+function getBus() {
+  globalForEvents.sessionEventBus ??= {
+    lastId: Date.now(),
+    backlog: [],
+    listeners: new Set(),
+  };
+  return globalForEvents.sessionEventBus;
+}
+
+export function publishSessionEvent(payload: SessionEventPayload): SessionEvent {
+  const bus = getBus();
+  const event = { ...payload, id: ++bus.lastId } as SessionEvent;
+
+  bus.backlog.push(event);
+  if (bus.backlog.length > BACKLOG_SIZE) {
+    bus.backlog.splice(0, bus.backlog.length - BACKLOG_SIZE);
+  }
+
+  for (const listener of bus.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Session event listener failed", error);
+    }
+  }
+
+  return event;
+}
+
+export function subscribeSessionEvents(listener: Listener): () => void {
+  const bus = getBus();
+  bus.listeners.add(listener);
+  return () => {
+    bus.listeners.delete(listener);
+  };
+}
+
+export function latestSessionEventId(): number {
+  return getBus().lastId;
+}
+
+/**
+ * Events after `lastEventId`, or `undefined` when they can no longer be
+ * replayed (trimmed from the backlog, or the id predates a server restart) and
+ * the client has to start over from a snapshot.
+ */
+export function sessionEventsSince(lastEventId: number): SessionEvent[] | undefined {
+  const { lastId, backlog } = getBus();
+  if (!Number.isInteger(lastEventId) || lastEventId > lastId) return undefined;
+  if (lastEventId === lastId) return [];
+
+  const oldest = backlog[0]?.id ?? lastId + 1;
+  if (lastEventId < oldest - 1) return undefined;
+
+  return backlog.filter((event) => event.id > lastEventId);
+}
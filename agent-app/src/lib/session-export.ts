@@ -0,0 +1,163 @@
+import type { CallOutcome } from "@/lib/outcomes";
+import type { SessionListItem, SessionView } from "@/lib/session-view";
+
+/**
+ * File formats for getting sessions out of the studio. Inputs are the same
+ * views the API returns, so masking and PII redaction follow the viewer's
+ * role exactly as they do on screen.
+ */
+
+export const sessionExportFormats = ["jsonl", "csv"] as const;
+
+export type SessionExportFormat = (typeof sessionExportFormats)[number];
+
+/** One session per line, transcript included. */
+export function toJsonLines(sessions: SessionView[]): string {
+  return sessions.map((session) => `${JSON.stringify(session)}\n`).join("");
+}
+
+const csvColumns: [string, (session: SessionListItem) => unknown][] = [
+  ["session_id", (session) => session.sessionId],
+  ["created_at", (session) => session.createdAt],
+  ["updated_at", (session) => session.updatedAt],
+  ["status", (session) => session.status],
+  ["provider_status", (session) => session.twilioStatus],
+  ["attempt", (session) => session.attempt],
+  ["simulated", (session) => session.simulated],
+  ["campaign", (session) => session.campaign],
+  ["company", (session) => session.company],
+  ["agent_name", (session) => session.agentName],
+  ["agent_version", (session) => session.agentVersion],
+  ["customer_name", (session) => session.customerName],
+  ["target_number", (session) => session.targetNumber],
+  ["answered_by", (session) => session.answeredBy],
+  ["transfer_status", (session) => session.transfer?.status],
+  ["recording_status", (session) => session.recording?.status],
+  ["guardrail_violations", (session) => session.guardrailViolations.length],
+  ["summary", (session) => session.summary],
+  ["last_error", (session) => session.lastError],
+];
+
+function formatOutcomeValue(value: CallOutcome[string] | undefined) {
+  return Array.isArray(value) ? value.join("; ") : value;
+}
+
+/**
+ * Quotes cells that need it and defuses ones a spreadsheet would run as a
+ * formula. Phone numbers, masked or not, keep their leading `+`.
+ */
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^[+-]?[\d\s().•-]+$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per session; each outcome field any session has gets an `outcome.<name>` column. */
+export function toCsv(sessions: SessionListItem[]): string {
+  const outcomeFields = [
+    ...new Set(sessions.flatMap((session) => Object.keys(session.outcome ?? {}))),
+  ].sort();
+
+  const header = [
+    ...csvColumns.map(([name]) => name),
+    ...outcomeFields.map((field) => `outcome.${field}`),
+  ];
+  const rows = sessions.map((session) => [
+    ...csvColumns.map(([, read]) => read(session)),
+    ...outcomeFields.map((field) => formatOutcomeValue(session.outcome?.[field])),
+  ]);
+
+  return [header, ...rows].map((row) => `${row.map(csvCell).join(",")}\r\n`).join("");
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const roleLabels: Record<SessionView["transcript"][number]["role"], string> = {
+  assistant: "Agent",
+  user: "Customer",
+  system: "System",
+  tool: "Tool",
+};
+
+/**
+ * A standalone HTML page for one call, laid out for the browser's print
+ * dialog so it can be printed or saved as PDF.
+ */
+export function renderSessionReport(session: SessionView): string {
+  const title = `${session.customerName ?? session.targetNumber} · ${session.agentName}`;
+  const details: [string, unknown][] = [
+    ["Status", session.status],
+    ["Placed", session.createdAt],
+    ["Last update", session.updatedAt],
+    ["Number", session.targetNumber],
+    ["Campaign", session.campaign],
+    ["Company", session.company],
+    ["Agent version", session.agentVersion && `v${session.agentVersion}`],
+    ["Attempt", session.attempt],
+    ["Answered by", session.answeredBy],
+    ["Transfer", session.transfer && `${session.transfer.status} (${session.transfer.reason})`],
+    ["Guardrail violations", session.guardrailViolations.length || null],
+    ["Error", session.lastError],
+  ];
+  const outcome = Object.entries(session.outcome ?? {});
+
+  const rows = (entries: [string, unknown][]) =>
+    entries
+      .filter(([, value]) => value !== null && value !== undefined && value !== "")
+      .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+      .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #ccc; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 0.2rem 0.5rem 0.2rem 0; }
+  th { width: 12rem; color: #555; font-weight: 500; }
+  .summary { white-space: pre-wrap; }
+  .turn { margin: 0.5rem 0; page-break-inside: avoid; }
+  .turn small { color: #666; }
+  .turn p { margin: 0.1rem 0 0; white-space: pre-wrap; }
+  @media print { .noprint { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<p class="noprint"><button onclick="window.print()">Print or save as PDF</button></p>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(session.objective)}</p>
+<table>${rows(details)}</table>
+<h2>Summary</h2>
+<p class="summary">${escapeHtml(session.summary ?? "No summary yet.")}</p>
+${
+  outcome.length > 0
+    ? `<h2>Outcome</h2>\n<table>${rows(outcome.map(([field, value]) => [field, formatOutcomeValue(value)]))}</table>`
+    : ""
+}
+<h2>Transcript</h2>
+${
+  session.transcript.length > 0
+    ? session.transcript
+        .map(
+          (turn) =>
+            `<div class="turn"><small>${roleLabels[turn.role]} · ${escapeHtml(turn.timestamp)}</small><p>${escapeHtml(turn.original ?? turn.content)}</p></div>`,
+        )
+        .join("\n")
+    : "<p>No turns recorded.</p>"
+}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { decodeCursor, type SessionQuery } from "@/lib/session-storage";
+import { callStatuses } from "@/lib/session-store";
+
+/** Session history filters as URL parameters, shared by the list and export routes. */
+
+const timestamp = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO date")
+  .transform((value) => new Date(value).toISOString());
+
+const querySchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(callStatuses)))
+    .optional(),
+  campaign: z.string().min(1).optional(),
+  company: z.string().min(1).optional(),
+  agentName: z.string().min(1).optional(),
+  from: timestamp.optional(),
+  to: timestamp.optional(),
+  phone: z.string().min(3).optional(),
+  q: z.string().min(2).max(200).optional(),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z
+    .string()
+    .refine((value) => decodeCursor(value) !== undefined, "Invalid cursor")
+    .optional(),
+});
+
+const OUTCOME_PREFIX = "outcome.";
+
+/** `outcome.<field>=<value>` parameters, e.g. `outcome.interested=true`. */
+function parseOutcomeFilters(searchParams: URLSearchParams) {
+  const filters = Object.fromEntries(
+    [...searchParams]
+      .filter(([key]) => key.startsWith(OUTCOME_PREFIX))
+      .map(([key, value]) => [key.slice(OUTCOME_PREFIX.length), value]),
+  );
+
+  return z
+    .record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/), z.string().min(1))
+    .safeParse(filters);
+}
+
+/**
+ * Reads filters from `searchParams`, ignoring parameters it does not know.
+ * Filtering by phone number is left to the caller to authorize.
+ */
+export function parseSessionQuery(
+  searchParams: URLSearchParams,
+): { success: true; data: SessionQuery } | { success: false; issues: z.core.$ZodIssue[] } {
+  const parsed = querySchema.safeParse(Object.fromEntries(searchParams));
+  const outcome = parseOutcomeFilters(searchParams);
+  if (!parsed.success || !outcome.success) {
+    return {
+      success: false,
+      issues: [...(parsed.error?.issues ?? []), ...(outcome.error?.issues ?? [])],
+    };
+  }
+
+  const query = parsed.data;
+  return {
+    success: true,
+    data: {
+      statuses: query.status,
+      campaign: query.campaign,
+      company: query.company,
+      agentName: query.agentName,
+      createdFrom: query.from,
+      createdTo: query.to,
+      phoneNumber: query.phone,
+      outcome: Object.keys(outcome.data).length > 0 ? outcome.data : undefined,
+      search: query.q,
+      order: query.order,
+      limit: query.limit,
+      cursor: query.cursor,
+    },
+  };
+}
@@ -0,0 +1,235 @@
+import type { CallSession, CallStatus, TranscriptTurn } from "@/lib/session-store";
+import { SqliteSessionStorage } from "@/lib/sqlite-session-storage";
+
+/** Filters for session history. Text filters ignore case. */
+export type SessionQuery = {
+  /** Only these sessions. */
+  sessionIds?: string[];
+  statuses?: CallStatus[];
+  campaign?: string;
+  company?: string;
+  agentName?: string;
+  /** Inclusive lower bound on `createdAt`, as an ISO timestamp. */
+  createdFrom?: string;
+  /** Exclusive upper bound on `createdAt`, as an ISO timestamp. */
+  createdTo?: string;
+  /** Matches any part of the dialed number. */
+  phoneNumber?: string;
+  /**
+   * Outcome field values, compared as text ignoring case. A list field
+   * matches when any element does. Names must be plain identifiers.
+   */
+  outcome?: Record<string, string>;
+  /** Substring search over transcript turns. */
+  search?: string;
+  order: "asc" | "desc";
+  limit: number;
+  /** Opaque `nextCursor` from the previous page. */
+  cursor?: string;
+};
+
+/** A session without its transcript, for list views. */
+export type SessionRecord = Omit<CallSession, "transcript">;
+
+export type SessionPage = {
+  sessions: SessionRecord[];
+  nextCursor?: string;
+};
+
+export type SessionCursor = { createdAt: string; sessionId: string };
+
+export function encodeCursor(session: SessionRecord): string {
+  return Buffer.from(
+    JSON.stringify({ createdAt: session.createdAt, sessionId: session.sessionId }),
+  ).toString("base64url");
+}
+
+/** Returns `undefined` for malformed cursors so callers can reject them. */
+export function decodeCursor(cursor: string): SessionCursor | undefined {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof value?.createdAt === "string" && typeof value?.sessionId === "string") {
+      return value as SessionCursor;
+    }
+  } catch {
+    // Fall through to undefined.
+  }
+  return undefined;
+}
+
+/**
+ * Persistence backend behind the session-store API. Implementations must be
+ * synchronous so the store helpers stay usable from any route handler.
+ */
+export interface SessionStorage {
+  insert(session: CallSession): void;
+  /** Persists every field except the transcript, which is append-only. */
+  update(session: CallSession): void;
+  /**
+   * Runs `run` so that no other process writes sessions in between, for
+   * read-modify-write updates.
+   */
+  transaction<T>(run: () => T): T;
+  appendTurn(sessionId: string, turn: TranscriptTurn): void;
+  get(sessionId: string): CallSession | undefined;
+  /** Transcripts of several sessions at once; unknown ids map to `[]`. */
+  getTranscripts(sessionIds: string[]): Map<string, TranscriptTurn[]>;
+  findByCallSid(callSid: string): CallSession | undefined;
+  /** Sessions whose completed, unpurged recording was made before `cutoff`. */
+  listRecordedBefore(cutoff: string): SessionRecord[];
+  /** Newest sessions first. */
+  list(): CallSession[];
+  /** One page of matching sessions ordered by `createdAt`, then id. */
+  query(query: SessionQuery): SessionPage;
+}
+
+function clone(session: CallSession): CallSession {
+  return structuredClone(session);
+}
+
+export class MemorySessionStorage implements SessionStorage {
+  private sessions = new Map<string, CallSession>();
+
+  insert(session: CallSession) {
+    this.sessions.set(session.sessionId, clone(session));
+  }
+
+  update(session: CallSession) {
+    const existing = this.sessions.get(session.sessionId);
+    if (!existing) return;
+    this.sessions.set(session.sessionId, {
+      ...clone(session),
+      transcript: existing.transcript,
+    });
+  }
+
+  appendTurn(sessionId: string, turn: TranscriptTurn) {
+    this.sessions.get(sessionId)?.transcript.push({ ...turn });
+  }
+
+  /** One process and synchronous callers, so nothing can interleave. */
+  transaction<T>(run: () => T): T {
+    return run();
+  }
+
+  get(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    return session ? clone(session) : undefined;
+  }
+
+  getTranscripts(sessionIds: string[]) {
+    return new Map(
+      sessionIds.map((sessionId) => [
+        sessionId,
+        structuredClone(this.sessions.get(sessionId)?.transcript ?? []),
+      ]),
+    );
+  }
+
+  findByCallSid(callSid: string) {
+    for (const session of this.sessions.values()) {
+      if (session.callSid === callSid) return clone(session);
+    }
+    return undefined;
+  }
+
+  listRecordedBefore(cutoff: string) {
+    return Array.from(this.sessions.values())
+      .filter(
+        (session) =>
+          session.recording?.status === "completed" && session.recording.recordedAt < cutoff,
+      )
+      .map((session) => {
+        const record: Partial<CallSession> = clone(session);
+        delete record.transcript;
+        return record as SessionRecord;
+      });
+  }
+
+  list() {
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(clone);
+  }
+
+  query(query: SessionQuery): SessionPage {
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const direction = query.order === "asc" ? 1 : -1;
+    const equals = (a: string | undefined, b: string | undefined) =>
+      b === undefined || a?.toLowerCase() === b.toLowerCase();
+    const search = query.search?.toLowerCase();
+
+    const matches = Array.from(this.sessions.values())
+      .filter(
+        (session) =>
+          (!query.sessionIds || query.sessionIds.includes(session.sessionId)) &&
+          (!query.statuses?.length || query.statuses.includes(session.status)) &&
+          equals(session.config.campaign, query.campaign) &&
+          equals(session.config.company, query.company) &&
+          equals(session.config.agentName, query.agentName) &&
+          (!query.createdFrom || session.createdAt >= query.createdFrom) &&
+          (!query.createdTo || session.createdAt < query.createdTo) &&
+          (!query.phoneNumber ||
+            session.config.targetNumber.includes(query.phoneNumber)) &&
+          Object.entries(query.outcome ?? {}).every(([field, value]) =>
+            [session.outcome?.[field] ?? []]
+              .flat()
+              .some((item) => String(item).toLowerCase() === value.toLowerCase()),
+          ) &&
+          (!search ||
+            session.transcript.some((turn) =>
+              turn.content.toLowerCase().includes(search),
+            )),
+      )
+      .sort(
+        (a, b) =>
+          direction *
+          (a.createdAt.localeCompare(b.createdAt) ||
+            a.sessionId.localeCompare(b.sessionId)),
+      )
+      .filter(
+        (session) =>
+          !cursor ||
+          direction *
+            (session.createdAt.localeCompare(cursor.createdAt) ||
+              session.sessionId.localeCompare(cursor.sessionId)) >
+            0,
+      );
+
+    const page = matches.slice(0, query.limit).map((session) => {
+      const record: Partial<CallSession> = clone(session);
+      delete record.transcript;
+      return record as SessionRecord;
+    });
+
+    return {
+      sessions: page,
+      nextCursor:
+        matches.length > query.limit ? encodeCursor(page[page.length - 1]) : undefined,
+    };
+  }
+}
+
+const globalForStorage = globalThis as unknown as {
+  callSessionStorage?: SessionStorage;
+};
+
+/**
+ * Resolves the backend from `SESSION_STORE` ("sqlite" by default, "memory"
+ * for tests and throwaway environments).
+ */
+export function getSessionStorage(): SessionStorage {
+  if (!globalForStorage.callSessionStorage) {
+    globalForStorage.callSessionStorage =
+      process.env.SESSION_STORE === "memory"
+        ? new MemorySessionStorage()
+        : new SqliteSessionStorage();
+  }
+
+  return globalForStorage.callSessionStorage;
+}
+
+/** Swaps the active backend, e.g. to isolate tests. */
+export function setSessionStorage(storage: SessionStorage) {
+  globalForStorage.callSessionStorage = storage;
+}
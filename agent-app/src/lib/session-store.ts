@@ -0,0 +1,564 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { CallingWindow } from "@/lib/calling-window";
+import type { LlmProviderSpec } from "@/lib/llm-providers";
+import type { CallOutcome, OutcomeField } from "@/lib/outcomes";
+import { redactText, redactTurn, type RedactionConfig } from "@/lib/pii";
+import type { GuardrailViolation, ReplyPolicy } from "@/lib/reply-policy";
+import type { RetryPolicy } from "@/lib/retry-policy";
+import { publishSessionEvent } from "@/lib/session-events";
+import {
+  getSessionStorage,
+  type SessionPage,
+  type SessionQuery,
+  type SessionRecord,
+} from "@/lib/session-storage";
+import { resolveTimeZone } from "@/lib/time-zones";
+
+export const callStatuses = [
+  "draft",
+  "queued",
+  "ringing",
+  "in-progress",
+  "completed",
+  "no-answer",
+  "voicemail",
+  "failed",
+] as const;
+
+export type CallStatus = (typeof callStatuses)[number];
+
+/** A function call the model made during a turn and what it returned. */
+export type ToolInvocation = {
+  callId: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: unknown;
+  error?: string;
+};
+
+export type TranscriptTurn = {
+  id: string;
+  role: "assistant" | "user" | "system" | "tool";
+  content: string;
+  timestamp: string;
+  /** Set on `tool` turns. */
+  tool?: ToolInvocation;
+  /** What was said before redaction; kept only while `PII_REVEAL_ROLE` is set. */
+  original?: string;
+};
+
+export type TransferTrigger = "keyword" | "intent" | "model";
+
+/** `dialing` until the human leg answers; afterwards Twilio's `DialCallStatus`. */
+export type TransferStatus =
+  | "dialing"
+  | "connected"
+  | "completed"
+  | "busy"
+  | "no-answer"
+  | "failed"
+  | "canceled";
+
+export type CallTransfer = {
+  to: string;
+  trigger: TransferTrigger;
+  reason: string;
+  status: TransferStatus;
+  startedAt: string;
+  endedAt?: string;
+  durationSeconds?: number;
+};
+
+/** A call recording held by the telephony provider. */
+export type CallRecording = {
+  recordingId: string;
+  status: "completed" | "failed" | "purged";
+  /** Provider URL of the audio; cleared once purged. */
+  url?: string;
+  durationSeconds?: number;
+  recordedAt: string;
+  purgedAt?: string;
+};
+
+export type AgentSessionConfig = {
+  agentName: string;
+  persona: string;
+  greeting: string;
+  openingQuestion: string;
+  objective: string;
+  guardrails: string;
+  closingStrategy: string;
+  voice: string;
+  language: string;
+  temperature: number;
+  /** Fallback order of LLM providers; OpenAI alone when unset. */
+  llmProviders?: LlmProviderSpec[];
+  targetNumber: string;
+  customerName?: string;
+  company?: string;
+  campaign?: string;
+  /** Per-contact details, e.g. from a campaign upload. */
+  variables?: Record<string, string>;
+  retryPolicy?: RetryPolicy;
+  callingHours?: CallingWindow;
+  /** Callee's IANA time zone when set explicitly instead of inferred from the number. */
+  timeZone?: string;
+  bookCallbacks?: boolean;
+  /** Names of registered agent tools the model may call. */
+  tools?: string[];
+  /** Where escalations are transferred. Defaults to `OPERATOR_PHONE_NUMBER`. */
+  transferNumber?: string;
+  /** Phrases that transfer the call as soon as the customer says them. */
+  escalationKeywords?: string[];
+  /** Reads a short summary of the call to the human before connecting. */
+  whisperSummary?: boolean;
+  /** `stream` uses the Media Streams pipeline; `<Gather>` turns otherwise. */
+  conversationMode?: "gather" | "stream";
+  /** Structured results extracted when the call completes. */
+  outcomeFields?: OutcomeField[];
+  /** Left when a machine answers. Supports `{{customerName}}`, `{{company}}`, `{{callbackNumber}}`. */
+  voicemailMessage?: string;
+  callbackNumber?: string;
+  /** Rules every model reply is checked against before it is spoken. */
+  replyPolicy?: ReplyPolicy;
+  /** Records the call from answer to hang-up. */
+  recordCalls?: boolean;
+  /** Said before the greeting on recorded calls. */
+  recordingAnnouncement?: string;
+  /** Which personal data is replaced in the transcript. All built-in kinds when unset. */
+  redaction?: RedactionConfig;
+};
+
+export type CallSession = {
+  sessionId: string;
+  status: CallStatus;
+  config: AgentSessionConfig;
+  transcript: TranscriptTurn[];
+  callSid?: string;
+  /** Last status exactly as Twilio reported it, e.g. `busy` or `canceled`. */
+  twilioStatus?: string;
+  /** 1 for the first dial, incremented for every redial of the same contact. */
+  attempt: number;
+  /** First attempt of a redial chain. Unset on the first attempt itself. */
+  originalSessionId?: string;
+  /** Twilio answering machine detection result, e.g. `human` or `machine_end_beep`. */
+  answeredBy?: string;
+  /** Saved agent profile and version the config was taken from, if any. */
+  agentProfileId?: string;
+  agentVersion?: number;
+  /** Typed in the simulator; no phone call was placed. */
+  simulated: boolean;
+  /** True while a human operator has taken over the call. */
+  aiPaused: boolean;
+  /** Scripted line the agent says instead of a model reply on its next turn. */
+  pendingLine?: string;
+  /** Latest hand-off to a human, if the call escalated. */
+  transfer?: CallTransfer;
+  summary?: string;
+  /** Values for the agent's `outcomeFields`, extracted after the call. */
+  outcome?: CallOutcome;
+  recording?: CallRecording;
+  /** Replies the reply policy rewrote, replaced, cut or extended, oldest first. */
+  guardrailViolations?: GuardrailViolation[];
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreateSessionInput = Omit<AgentSessionConfig, "openingQuestion"> & {
+  sessionId: string;
+  openingQuestion?: string;
+  attempt?: number;
+  originalSessionId?: string;
+  agentProfileId?: string;
+  agentVersion?: number;
+  simulated?: boolean;
+};
+
+const DEFAULT_OPENING_QUESTION =
+  "Do you have a couple of minutes to chat right now?";
+
+const FALLBACK_LINES = [
+  "Sorry, I lost you for a second there. Could you say that one more time?",
+  "Apologies, I didn't catch all of that. Would you mind repeating it?",
+  "I want to make sure I get this right. Could you say that again?",
+];
+
+function now() {
+  return new Date().toISOString();
+}
+
+function publishStatus(session: CallSession) {
+  publishSessionEvent({
+    type: "session.status",
+    sessionId: session.sessionId,
+    status: session.status,
+    twilioStatus: session.twilioStatus,
+    answeredBy: session.answeredBy,
+    callSid: session.callSid,
+    updatedAt: session.updatedAt,
+  });
+}
+
+function mutate(
+  sessionId: string,
+  apply: (session: CallSession) => void,
+): CallSession | undefined {
+  const storage = getSessionStorage();
+  return storage.transaction(() => {
+    const session = storage.get(sessionId);
+    if (!session) return undefined;
+
+    apply(session);
+    session.updatedAt = now();
+    storage.update(session);
+    return session;
+  });
+}
+
+export function createSession(input: CreateSessionInput): CallSession {
+  const {
+    sessionId,
+    openingQuestion,
+    attempt,
+    originalSessionId,
+    agentProfileId,
+    agentVersion,
+    simulated,
+    ...config
+  } = input;
+  const timestamp = now();
+  const session: CallSession = {
+    sessionId,
+    status: "draft",
+    attempt: attempt ?? 1,
+    originalSessionId,
+    agentProfileId,
+    agentVersion,
+    simulated: simulated ?? false,
+    aiPaused: false,
+    config: {
+      ...config,
+      openingQuestion: openingQuestion ?? DEFAULT_OPENING_QUESTION,
+    },
+    transcript: [],
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  getSessionStorage().insert(session);
+  publishSessionEvent({ type: "session.created", sessionId, session });
+  return session;
+}
+
+export function getSession(sessionId: string): CallSession | undefined {
+  return getSessionStorage().get(sessionId);
+}
+
+export function lookupSessionByCallSid(callSid: string): CallSession | undefined {
+  return getSessionStorage().findByCallSid(callSid);
+}
+
+export function serializeSessions(): CallSession[] {
+  return getSessionStorage().list();
+}
+
+export function querySessions(query: SessionQuery): SessionPage {
+  return getSessionStorage().query(query);
+}
+
+/** Completes list records with their transcripts in one read. */
+export function withTranscripts(records: SessionRecord[]): CallSession[] {
+  const transcripts = getSessionStorage().getTranscripts(
+    records.map((record) => record.sessionId),
+  );
+  return records.map((record) => ({
+    ...record,
+    transcript: transcripts.get(record.sessionId) ?? [],
+  }));
+}
+
+export function setCallSid(sessionId: string, callSid: string) {
+  const session = mutate(sessionId, (session) => {
+    session.callSid = callSid;
+  });
+  if (session) publishStatus(session);
+}
+
+export function updateStatus(
+  sessionId: string,
+  status: CallStatus,
+  twilioStatus?: string,
+) {
+  const session = mutate(sessionId, (session) => {
+    session.status = status;
+    if (twilioStatus) {
+      session.twilioStatus = twilioStatus;
+    }
+  });
+  if (session) publishStatus(session);
+}
+
+export function setAnsweredBy(sessionId: string, answeredBy: string) {
+  const session = mutate(sessionId, (session) => {
+    session.answeredBy = answeredBy;
+  });
+  if (session) publishStatus(session);
+}
+
+function publishControl(session: CallSession) {
+  publishSessionEvent({
+    type: "session.control",
+    sessionId: session.sessionId,
+    aiPaused: session.aiPaused,
+    pendingLine: session.pendingLine,
+    updatedAt: session.updatedAt,
+  });
+}
+
+export function setAiPaused(sessionId: string, aiPaused: boolean) {
+  const session = mutate(sessionId, (session) => {
+    session.aiPaused = aiPaused;
+  });
+  if (session) publishControl(session);
+}
+
+/** Queues a line for the next agent turn; `undefined` clears it. */
+export function setPendingLine(sessionId: string, line: string | undefined) {
+  const session = mutate(sessionId, (session) => {
+    session.pendingLine = line;
+  });
+  if (session) publishControl(session);
+}
+
+export function setOutcome(sessionId: string, outcome: CallOutcome) {
+  const session = mutate(sessionId, (session) => {
+    session.outcome = outcome;
+  });
+  if (session) {
+    publishSessionEvent({
+      type: "session.outcome",
+      sessionId,
+      outcome,
+      updatedAt: session.updatedAt,
+    });
+  }
+}
+
+export function addGuardrailViolations(sessionId: string, violations: GuardrailViolation[]) {
+  let added: GuardrailViolation[] = [];
+  const session = mutate(sessionId, (session) => {
+    added = violations.map((violation) => ({
+      ...violation,
+      original: redactText(session.config, violation.original),
+    }));
+    session.guardrailViolations = [...(session.guardrailViolations ?? []), ...added];
+  });
+  if (session) {
+    publishSessionEvent({
+      type: "session.guardrail",
+      sessionId,
+      violations: added,
+      updatedAt: session.updatedAt,
+    });
+  }
+}
+
+export function setRecording(sessionId: string, recording: CallRecording) {
+  const session = mutate(sessionId, (session) => {
+    session.recording = recording;
+  });
+  if (session) {
+    publishSessionEvent({
+      type: "session.recording",
+      sessionId,
+      recording,
+      updatedAt: session.updatedAt,
+    });
+  }
+}
+
+export function setTransfer(sessionId: string, transfer: CallTransfer) {
+  const session = mutate(sessionId, (session) => {
+    session.transfer = transfer;
+  });
+  if (session) {
+    publishSessionEvent({
+      type: "session.transfer",
+      sessionId,
+      transfer,
+      updatedAt: session.updatedAt,
+    });
+  }
+}
+
+export function setError(sessionId: string, message: string) {
+  const session = mutate(sessionId, (session) => {
+    session.status = "failed";
+    session.lastError = message;
+  });
+  if (session) {
+    publishSessionEvent({
+      type: "session.error",
+      sessionId,
+      status: session.status,
+      lastError: message,
+      updatedAt: session.updatedAt,
+    });
+  }
+}
+
+export function setSummary(sessionId: string, summary: string) {
+  const session = mutate(sessionId, (session) => {
+    session.summary = summary;
+  });
+  if (session) {
+    publishSessionEvent({
+      type: "session.summary",
+      sessionId,
+      summary,
+      updatedAt: session.updatedAt,
+    });
+  }
+}
+
+export function appendMessage(
+  sessionId: string,
+  role: Exclude<TranscriptTurn["role"], "tool">,
+  content: string,
+): TranscriptTurn | undefined {
+  return appendTurn(sessionId, {
+    id: crypto.randomUUID(),
+    role,
+    content,
+    timestamp: now(),
+  });
+}
+
+/** Logs a tool call with its arguments and result as a `tool` turn. */
+export function appendToolTurn(
+  sessionId: string,
+  tool: ToolInvocation,
+): TranscriptTurn | undefined {
+  const outcome = tool.error ? `failed: ${tool.error}` : JSON.stringify(tool.result);
+  return appendTurn(sessionId, {
+    id: crypto.randomUUID(),
+    role: "tool",
+    content: `${tool.name}(${JSON.stringify(tool.arguments)}) → ${outcome}`,
+    timestamp: now(),
+    tool,
+  });
+}
+
+/** Redacts the turn before it is stored or published; see `src/lib/pii.ts`. */
+function appendTurn(sessionId: string, turn: TranscriptTurn): TranscriptTurn | undefined {
+  const session = mutate(sessionId, () => undefined);
+  if (!session) return undefined;
+
+  const stored = redactTurn(session.config, turn);
+  getSessionStorage().appendTurn(sessionId, stored);
+  publishSessionEvent({
+    type: "session.turn",
+    sessionId,
+    turn: stored,
+    updatedAt: session.updatedAt,
+  });
+  return stored;
+}
+
+/** The consent announcement, when the agent records calls and has one. */
+export function recordingAnnouncement(config: AgentSessionConfig): string | undefined {
+  return (config.recordCalls && config.recordingAnnouncement?.trim()) || undefined;
+}
+
+/**
+ * Records the scripted announcement, greeting and opening question as the
+ * first agent turns so the model sees what the customer already heard. Safe
+ * to call on every Twilio redirect.
+ */
+export function ensureGreetingCaptured(sessionId: string, greeting: string) {
+  const session = getSession(sessionId);
+  if (!session || session.transcript.some((turn) => turn.role === "assistant")) {
+    return;
+  }
+
+  const announcement = recordingAnnouncement(session.config);
+  if (announcement) {
+    appendMessage(sessionId, "assistant", announcement);
+  }
+  appendMessage(sessionId, "assistant", greeting);
+  appendMessage(sessionId, "assistant", session.config.openingQuestion);
+}
+
+export function fallbackLine(): string {
+  return FALLBACK_LINES[Math.floor(Math.random() * FALLBACK_LINES.length)];
+}
+
+function callbackInstructions(config: AgentSessionConfig): string {
+  const timeZone = resolveTimeZone(config.targetNumber, config.timeZone);
+  const localNow = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    dateStyle: "full",
+    timeStyle: "short",
+  }).format(new Date());
+
+  return `If the customer agrees to a specific time for a follow-up call, confirm it aloud and end that reply with [[callback YYYY-MM-DDTHH:MM]] in their local time. It is currently ${localNow} for them (${timeZone}).`;
+}
+
+function buildSystemPrompt(config: AgentSessionConfig): string {
+  const lines = [
+    `You are ${config.agentName}, an AI voice agent on a live outbound phone call${
+      config.company ? ` on behalf of ${config.company}` : ""
+    }.`,
+    config.persona && `Persona: ${config.persona}`,
+    `Objective: ${config.objective}`,
+    config.guardrails && `Guardrails (never violate): ${config.guardrails}`,
+    config.closingStrategy && `Closing strategy: ${config.closingStrategy}`,
+    config.customerName && `You are speaking with ${config.customerName}.`,
+    config.variables &&
+      Object.keys(config.variables).length > 0 &&
+      `Known customer details: ${Object.entries(config.variables)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join("; ")}.`,
+    config.bookCallbacks && callbackInstructions(config),
+    `Reply in ${config.language}. Keep each reply to one or two short spoken sentences with no markdown, lists, or emojis.`,
+  ];
+
+  return lines.filter(Boolean).join("\n");
+}
+
+export function getMessagesForModel(sessionId: string): ChatCompletionMessageParam[] {
+  const session = getSession(sessionId);
+  if (!session) return [];
+
+  return [
+    { role: "system", content: buildSystemPrompt(session.config) },
+    ...session.transcript.flatMap((turn): ChatCompletionMessageParam[] => {
+      if (turn.role !== "tool") {
+        return [{ role: turn.role, content: turn.content }];
+      }
+      if (!turn.tool) return [];
+
+      // Replayed as the call the model made followed by its result.
+      const { callId, name, arguments: args, result, error } = turn.tool;
+      return [
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: callId,
+              type: "function",
+              function: { name, arguments: JSON.stringify(args) },
+            },
+          ],
+        },
+        {
+          role: "tool",
+          tool_call_id: callId,
+          content: JSON.stringify(error ? { error } : result),
+        },
+      ];
+    }),
+  ];
+}
@@ -0,0 +1,58 @@
+import { maskPhoneNumber } from "@/lib/auth";
+import { presentTurn } from "@/lib/pii";
+import type { SessionRecord } from "@/lib/session-storage";
+import type { CallSession } from "@/lib/session-store";
+
+/** List shape of a session. Numbers are masked unless `revealNumbers`. */
+export function toSessionListItem(session: SessionRecord, revealNumbers: boolean) {
+  return {
+    sessionId: session.sessionId,
+    status: session.status,
+    twilioStatus: session.twilioStatus ?? null,
+    attempt: session.attempt,
+    originalSessionId: session.originalSessionId ?? null,
+    answeredBy: session.answeredBy ?? null,
+    agentProfileId: session.agentProfileId ?? null,
+    agentVersion: session.agentVersion ?? null,
+    simulated: session.simulated,
+    aiPaused: session.aiPaused,
+    pendingLine: session.pendingLine ?? null,
+    transfer: session.transfer ?? null,
+    recording: session.recording
+      ? {
+          status: session.recording.status,
+          durationSeconds: session.recording.durationSeconds ?? null,
+          recordedAt: session.recording.recordedAt,
+          purgedAt: session.recording.purgedAt ?? null,
+        }
+      : null,
+    agentName: session.config.agentName,
+    voice: session.config.voice,
+    language: session.config.language,
+    objective: session.config.objective,
+    customerName: session.config.customerName ?? null,
+    targetNumber: revealNumbers
+      ? session.config.targetNumber
+      : maskPhoneNumber(session.config.targetNumber),
+    summary: session.summary ?? null,
+    outcome: session.outcome ?? null,
+    guardrailViolations: session.guardrailViolations ?? [],
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    callSid: session.callSid ?? null,
+    lastError: session.lastError ?? null,
+    company: session.config.company ?? null,
+    campaign: session.config.campaign ?? null,
+  };
+}
+
+/** Full detail of a session, including its transcript. Redacted originals only when `revealPii`. */
+export function toSessionView(session: CallSession, revealNumbers: boolean, revealPii = false) {
+  return {
+    ...toSessionListItem(session, revealNumbers),
+    transcript: session.transcript.map((turn) => presentTurn(turn, revealPii)),
+  };
+}
+
+export type SessionListItem = ReturnType<typeof toSessionListItem>;
+export type SessionView = ReturnType<typeof toSessionView>;
@@ -0,0 +1,110 @@
+import type { AgentConfigInput } from "@/lib/agent-config";
+import { buildVoiceScriptUrl } from "@/lib/call-launcher";
+import { conversationTurn, openingSteps } from "@/lib/call-script";
+import { extractOutcome } from "@/lib/outcomes";
+import {
+  appendMessage,
+  createSession,
+  updateStatus,
+  type CallSession,
+} from "@/lib/session-store";
+import { getTelephony, type VoiceStep } from "@/lib/telephony";
+
+/**
+ * Runs an agent against typed customer messages instead of a phone call.
+ * Simulated sessions are ordinary sessions flagged `simulated`: nothing is
+ * dialed, opt-outs and callbacks leave the do-not-call list and scheduler
+ * alone, and every turn returns the script the phone would have received.
+ */
+
+/** Reserved fictional number used when the simulation does not name one. */
+export const SIMULATED_NUMBER = "+15555550100";
+
+export type SimulationTurn = {
+  sessionId: string;
+  steps: VoiceStep[];
+  /** The webhook response the provider would have received, e.g. TwiML. */
+  script: string;
+  /** True once the agent hung up or handed the call to a human. */
+  ended: boolean;
+};
+
+export type StartSimulationInput = {
+  agent: AgentConfigInput;
+  to?: string;
+  customerName?: string;
+  variables?: Record<string, string>;
+  agentProfileId?: string;
+  agentVersion?: number;
+};
+
+/** Action URLs in the script point where the real webhook would live. */
+function voiceScriptUrl(sessionId: string): string {
+  return buildVoiceScriptUrl(process.env.PUBLIC_BASE_URL || "http://localhost:3000", sessionId);
+}
+
+/** Marks the simulated call finished and extracts its outcome, as a status webhook would. */
+async function finish(sessionId: string) {
+  updateStatus(sessionId, "completed");
+  await extractOutcome(sessionId);
+}
+
+async function toTurn(session: CallSession, steps: VoiceStep[]): Promise<SimulationTurn> {
+  const last = steps[steps.length - 1];
+  const ended = last?.type === "hangup" || last?.type === "dial";
+
+  if (ended) {
+    if (last.type === "dial") {
+      appendMessage(
+        session.sessionId,
+        "system",
+        "Simulation ended at the transfer; nobody was dialed.",
+      );
+    }
+    await finish(session.sessionId);
+  }
+
+  const script = await getTelephony().render(steps, session.config).text();
+  return { sessionId: session.sessionId, steps, script, ended };
+}
+
+/** Creates a simulated session and plays the greeting as if a person answered. */
+export async function startSimulation(input: StartSimulationInput): Promise<SimulationTurn> {
+  const sessionId = crypto.randomUUID();
+  const session = createSession({
+    ...input.agent,
+    // Media streams need a live call; simulations always take `<Gather>` turns.
+    conversationMode: "gather",
+    sessionId,
+    targetNumber: input.to ?? SIMULATED_NUMBER,
+    customerName: input.customerName,
+    variables: input.variables,
+    agentProfileId: input.agentProfileId,
+    agentVersion: input.agentVersion,
+    simulated: true,
+  });
+
+  return toTurn(session, openingSteps(voiceScriptUrl(sessionId), session));
+}
+
+/**
+ * Plays one customer message through the same turn logic as a phone call.
+ * An empty message stands for silence.
+ */
+export async function simulateTurn(
+  session: CallSession,
+  message: string,
+): Promise<SimulationTurn> {
+  const steps = await conversationTurn(
+    voiceScriptUrl(session.sessionId),
+    session,
+    message.trim(),
+  );
+  return toTurn(session, steps);
+}
+
+/** Ends a simulation the agent has not ended itself, e.g. when the customer runs out of lines. */
+export async function stopSimulation(session: CallSession) {
+  appendMessage(session.sessionId, "system", "Simulation stopped before the agent ended the call.");
+  await finish(session.sessionId);
+}
@@ -0,0 +1,144 @@
+import WebSocket from "ws";
+import { pcm16ToMulaw } from "@/lib/audio";
+import { getOpenAIClient } from "@/lib/openai";
+
+export type TranscriberHandlers = {
+  /** The caller started talking; used for barge-in. */
+  onSpeechStarted: () => void;
+  /** Running text of the utterance in progress. */
+  onPartial: (text: string) => void;
+  /** The finished utterance once the caller pauses. */
+  onFinal: (text: string) => void;
+};
+
+export type Transcriber = {
+  /** Feeds 8 kHz μ-law audio from the call. */
+  write: (audio: Buffer) => void;
+  close: () => void;
+};
+
+/**
+ * Speech-to-text and text-to-speech for the Media Streams pipeline. Swap in
+ * other providers, or fakes, by passing a different implementation to
+ * `startMediaStreamServer`.
+ */
+export type SpeechServices = {
+  createTranscriber: (options: { language: string } & TranscriberHandlers) => Transcriber;
+  /** Returns 8 kHz μ-law audio ready to send to Twilio. */
+  synthesize: (
+    text: string,
+    options: { language: string; signal: AbortSignal },
+  ) => Promise<Buffer>;
+};
+
+const REALTIME_URL = "wss://api.openai.com/v1/realtime?intent=transcription";
+
+/** OpenAI's speech endpoint returns 24 kHz 16-bit PCM. */
+const TTS_SAMPLE_RATE = 24000;
+
+/**
+ * Incremental transcription over the OpenAI Realtime API. It accepts μ-law
+ * directly and its server-side voice activity detection decides when an
+ * utterance ends.
+ */
+function createRealtimeTranscriber({
+  language,
+  onSpeechStarted,
+  onPartial,
+  onFinal,
+}: { language: string } & TranscriberHandlers): Transcriber {
+  const socket = new WebSocket(REALTIME_URL, {
+    headers: {
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY ?? ""}`,
+      "OpenAI-Beta": "realtime=v1",
+    },
+  });
+  const pending: string[] = [];
+  const partials = new Map<string, string>();
+
+  const send = (message: unknown) => socket.send(JSON.stringify(message));
+
+  socket.on("open", () => {
+    send({
+      type: "transcription_session.update",
+      session: {
+        input_audio_format: "g711_ulaw",
+        input_audio_transcription: {
+          model: process.env.OPENAI_TRANSCRIBE_MODEL ?? "gpt-4o-transcribe",
+          language: language.split("-")[0],
+        },
+        turn_detection: { type: "server_vad", silence_duration_ms: 500 },
+      },
+    });
+    pending.splice(0).forEach((audio) => send({ type: "input_audio_buffer.append", audio }));
+  });
+
+  socket.on("message", (data) => {
+    const event = JSON.parse(data.toString()) as {
+      type: string;
+      item_id?: string;
+      delta?: string;
+      transcript?: string;
+      error?: { message?: string };
+    };
+
+    switch (event.type) {
+      case "input_audio_buffer.speech_started":
+        onSpeechStarted();
+        break;
+      case "conversation.item.input_audio_transcription.delta": {
+        const text = (partials.get(event.item_id ?? "") ?? "") + (event.delta ?? "");
+        partials.set(event.item_id ?? "", text);
+        onPartial(text);
+        break;
+      }
+      case "conversation.item.input_audio_transcription.completed":
+        partials.delete(event.item_id ?? "");
+        onFinal(event.transcript ?? "");
+        break;
+      case "error":
+        console.error("Realtime transcription error", event.error?.message);
+        break;
+    }
+  });
+
+  socket.on("error", (error) => {
+    console.error("Realtime transcription connection failed", error);
+  });
+
+  return {
+    write(audio) {
+      const encoded = audio.toString("base64");
+      if (socket.readyState === WebSocket.OPEN) {
+        send({ type: "input_audio_buffer.append", audio: encoded });
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        pending.push(encoded);
+      }
+    },
+    close() {
+      socket.close();
+    },
+  };
+}
+
+async function synthesizeWithOpenAI(
+  text: string,
+  { signal }: { language: string; signal: AbortSignal },
+): Promise<Buffer> {
+  const response = await getOpenAIClient().audio.speech.create(
+    {
+      model: process.env.OPENAI_TTS_MODEL ?? "gpt-4o-mini-tts",
+      voice: process.env.STREAM_TTS_VOICE ?? "alloy",
+      input: text,
+      response_format: "pcm",
+    },
+    { signal },
+  );
+
+  return pcm16ToMulaw(Buffer.from(await response.arrayBuffer()), TTS_SAMPLE_RATE);
+}
+
+export const openAISpeechServices: SpeechServices = {
+  createTranscriber: createRealtimeTranscriber,
+  synthesize: synthesizeWithOpenAI,
+};
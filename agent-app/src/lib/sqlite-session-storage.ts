@@ -0,0 +1,342 @@
+import { getDatabase } from "@/lib/db";
+import type { CallOutcome } from "@/lib/outcomes";
+import type { GuardrailViolation } from "@/lib/reply-policy";
+import {
+  decodeCursor,
+  encodeCursor,
+  type SessionPage,
+  type SessionQuery,
+  type SessionRecord,
+  type SessionStorage,
+} from "@/lib/session-storage";
+import type {
+  AgentSessionConfig,
+  CallRecording,
+  CallSession,
+  CallTransfer,
+  CallStatus,
+  ToolInvocation,
+  TranscriptTurn,
+} from "@/lib/session-store";
+
+type SessionRow = {
+  session_id: string;
+  call_sid: string | null;
+  status: string;
+  twilio_status: string | null;
+  attempt: number;
+  original_session_id: string | null;
+  answered_by: string | null;
+  agent_profile_id: string | null;
+  agent_version: number | null;
+  simulated: number;
+  ai_paused: number;
+  pending_line: string | null;
+  transfer: string | null;
+  recording: string | null;
+  config: string;
+  summary: string | null;
+  outcome: string | null;
+  guardrail_violations: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type TurnRow = {
+  id: string;
+  session_id: string;
+  role: string;
+  content: string;
+  timestamp: string;
+  tool: string | null;
+  original: string | null;
+};
+
+function toRowParams(session: CallSession) {
+  return {
+    session_id: session.sessionId,
+    call_sid: session.callSid ?? null,
+    status: session.status,
+    twilio_status: session.twilioStatus ?? null,
+    attempt: session.attempt,
+    original_session_id: session.originalSessionId ?? null,
+    answered_by: session.answeredBy ?? null,
+    agent_profile_id: session.agentProfileId ?? null,
+    agent_version: session.agentVersion ?? null,
+    simulated: session.simulated ? 1 : 0,
+    ai_paused: session.aiPaused ? 1 : 0,
+    pending_line: session.pendingLine ?? null,
+    transfer: session.transfer ? JSON.stringify(session.transfer) : null,
+    recording: session.recording ? JSON.stringify(session.recording) : null,
+    config: JSON.stringify(session.config),
+    summary: session.summary ?? null,
+    outcome: session.outcome ? JSON.stringify(session.outcome) : null,
+    guardrail_violations: session.guardrailViolations
+      ? JSON.stringify(session.guardrailViolations)
+      : null,
+    last_error: session.lastError ?? null,
+    created_at: session.createdAt,
+    updated_at: session.updatedAt,
+  };
+}
+
+function toRecord(row: SessionRow): SessionRecord {
+  return {
+    sessionId: row.session_id,
+    callSid: row.call_sid ?? undefined,
+    status: row.status as CallStatus,
+    twilioStatus: row.twilio_status ?? undefined,
+    attempt: row.attempt,
+    originalSessionId: row.original_session_id ?? undefined,
+    answeredBy: row.answered_by ?? undefined,
+    agentProfileId: row.agent_profile_id ?? undefined,
+    agentVersion: row.agent_version ?? undefined,
+    simulated: row.simulated === 1,
+    aiPaused: row.ai_paused === 1,
+    pendingLine: row.pending_line ?? undefined,
+    transfer: row.transfer ? (JSON.parse(row.transfer) as CallTransfer) : undefined,
+    recording: row.recording ? (JSON.parse(row.recording) as CallRecording) : undefined,
+    config: JSON.parse(row.config) as AgentSessionConfig,
+    summary: row.summary ?? undefined,
+    outcome: row.outcome ? (JSON.parse(row.outcome) as CallOutcome) : undefined,
+    guardrailViolations: row.guardrail_violations
+      ? (JSON.parse(row.guardrail_violations) as GuardrailViolation[])
+      : undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toTurn(turn: TurnRow): TranscriptTurn {
+  return {
+    id: turn.id,
+    role: turn.role as TranscriptTurn["role"],
+    content: turn.content,
+    timestamp: turn.timestamp,
+    ...(turn.tool ? { tool: JSON.parse(turn.tool) as ToolInvocation } : {}),
+    ...(turn.original !== null ? { original: turn.original } : {}),
+  };
+}
+
+function escapeLike(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (match) => `\\${match}`)}%`;
+}
+
+export class SqliteSessionStorage implements SessionStorage {
+  private get db() {
+    return getDatabase();
+  }
+
+  private hydrate(row: SessionRow): CallSession {
+    const turns = this.db
+      .prepare(
+        "SELECT id, session_id, role, content, timestamp, tool, original FROM transcript_turns WHERE session_id = ? ORDER BY seq",
+      )
+      .all(row.session_id) as TurnRow[];
+
+    return { ...toRecord(row), transcript: turns.map(toTurn) };
+  }
+
+  insert(session: CallSession) {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO sessions (session_id, call_sid, status, twilio_status, attempt, original_session_id, answered_by, agent_profile_id, agent_version, simulated, ai_paused, pending_line, transfer, recording, config, summary, outcome, guardrail_violations, last_error, created_at, updated_at)
+           VALUES (@session_id, @call_sid, @status, @twilio_status, @attempt, @original_session_id, @answered_by, @agent_profile_id, @agent_version, @simulated, @ai_paused, @pending_line, @transfer, @recording, @config, @summary, @outcome, @guardrail_violations, @last_error, @created_at, @updated_at)`,
+        )
+        .run(toRowParams(session));
+
+      for (const turn of session.transcript) {
+        this.appendTurn(session.sessionId, turn);
+      }
+    })();
+  }
+
+  update(session: CallSession) {
+    this.db
+      .prepare(
+        `UPDATE sessions
+         SET call_sid = @call_sid, status = @status, twilio_status = @twilio_status,
+             answered_by = @answered_by, ai_paused = @ai_paused, pending_line = @pending_line,
+             transfer = @transfer, recording = @recording,
+             config = @config, summary = @summary, outcome = @outcome,
+             guardrail_violations = @guardrail_violations,
+             last_error = @last_error, updated_at = @updated_at
+         WHERE session_id = @session_id`,
+      )
+      .run(toRowParams(session));
+  }
+
+  /**
+   * `BEGIN IMMEDIATE` takes the write lock before the read, so concurrent
+   * workers queue on `busy_timeout` instead of overwriting each other.
+   */
+  transaction<T>(run: () => T): T {
+    return this.db.transaction(run).immediate();
+  }
+
+  appendTurn(sessionId: string, turn: TranscriptTurn) {
+    this.db
+      .prepare(
+        `INSERT INTO transcript_turns (id, session_id, seq, role, content, timestamp, tool, original)
+         VALUES (?, ?, (SELECT COALESCE(MAX(seq), 0) + 1 FROM transcript_turns WHERE session_id = ?), ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        turn.id,
+        sessionId,
+        sessionId,
+        turn.role,
+        turn.content,
+        turn.timestamp,
+        turn.tool ? JSON.stringify(turn.tool) : null,
+        turn.original ?? null,
+      );
+  }
+
+  get(sessionId: string) {
+    const row = this.db
+      .prepare("SELECT * FROM sessions WHERE session_id = ?")
+      .get(sessionId) as SessionRow | undefined;
+    return row ? this.hydrate(row) : undefined;
+  }
+
+  getTranscripts(sessionIds: string[]) {
+    const transcripts = new Map<string, TranscriptTurn[]>(
+      sessionIds.map((sessionId) => [sessionId, []]),
+    );
+    if (sessionIds.length === 0) return transcripts;
+
+    const turns = this.db
+      .prepare(
+        `SELECT id, session_id, role, content, timestamp, tool, original FROM transcript_turns
+         WHERE session_id IN (${sessionIds.map(() => "?").join(", ")})
+         ORDER BY session_id, seq`,
+      )
+      .all(...sessionIds) as TurnRow[];
+    for (const turn of turns) {
+      transcripts.get(turn.session_id)?.push(toTurn(turn));
+    }
+    return transcripts;
+  }
+
+  findByCallSid(callSid: string) {
+    const row = this.db
+      .prepare("SELECT * FROM sessions WHERE call_sid = ?")
+      .get(callSid) as SessionRow | undefined;
+    return row ? this.hydrate(row) : undefined;
+  }
+
+  listRecordedBefore(cutoff: string) {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM sessions
+         WHERE recording IS NOT NULL
+           AND json_extract(recording, '$.status') = 'completed'
+           AND json_extract(recording, '$.recordedAt') < ?`,
+      )
+      .all(cutoff) as SessionRow[];
+    return rows.map(toRecord);
+  }
+
+  list() {
+    const rows = this.db
+      .prepare("SELECT * FROM sessions ORDER BY created_at DESC")
+      .all() as SessionRow[];
+    return rows.map((row) => this.hydrate(row));
+  }
+
+  query(query: SessionQuery): SessionPage {
+    const where: string[] = [];
+    const params: Record<string, string | number> = { limit: query.limit + 1 };
+
+    query.sessionIds?.forEach((sessionId, index) => {
+      params[`session${index}`] = sessionId;
+    });
+    if (query.sessionIds) {
+      const ids = query.sessionIds.map((_, index) => `@session${index}`);
+      where.push(ids.length ? `session_id IN (${ids.join(", ")})` : "0");
+    }
+    query.statuses?.forEach((status, index) => {
+      params[`status${index}`] = status;
+    });
+    if (query.statuses?.length) {
+      where.push(
+        `status IN (${query.statuses.map((_, index) => `@status${index}`).join(", ")})`,
+      );
+    }
+    if (query.campaign) {
+      where.push("json_extract(config, '$.campaign') = @campaign COLLATE NOCASE");
+      params.campaign = query.campaign;
+    }
+    if (query.company) {
+      where.push("json_extract(config, '$.company') = @company COLLATE NOCASE");
+      params.company = query.company;
+    }
+    if (query.agentName) {
+      where.push("json_extract(config, '$.agentName') = @agentName COLLATE NOCASE");
+      params.agentName = query.agentName;
+    }
+    if (query.createdFrom) {
+      where.push("created_at >= @createdFrom");
+      params.createdFrom = query.createdFrom;
+    }
+    if (query.createdTo) {
+      where.push("created_at < @createdTo");
+      params.createdTo = query.createdTo;
+    }
+    if (query.phoneNumber) {
+      where.push("json_extract(config, '$.targetNumber') LIKE @phoneNumber ESCAPE '\\'");
+      params.phoneNumber = escapeLike(query.phoneNumber);
+    }
+    Object.entries(query.outcome ?? {}).forEach(([field, value], index) => {
+      // Matches scalars and any element of a list; booleans compare as `true`/`false`.
+      where.push(
+        `EXISTS (SELECT 1 FROM json_each(sessions.outcome, @outcomePath${index})
+                 WHERE CASE json_each.type
+                         WHEN 'true' THEN 'true'
+                         WHEN 'false' THEN 'false'
+                         ELSE CAST(json_each.value AS TEXT)
+                       END = @outcomeValue${index} COLLATE NOCASE)`,
+      );
+      params[`outcomePath${index}`] = `$.${field}`;
+      params[`outcomeValue${index}`] = value;
+    });
+    if (query.search) {
+      where.push(
+        `EXISTS (SELECT 1 FROM transcript_turns
+                 WHERE transcript_turns.session_id = sessions.session_id
+                   AND content LIKE @search ESCAPE '\\')`,
+      );
+      params.search = escapeLike(query.search);
+    }
+
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const comparison = query.order === "asc" ? ">" : "<";
+    if (cursor) {
+      where.push(
+        `(created_at ${comparison} @cursorCreatedAt OR (created_at = @cursorCreatedAt AND session_id ${comparison} @cursorSessionId))`,
+      );
+      params.cursorCreatedAt = cursor.createdAt;
+      params.cursorSessionId = cursor.sessionId;
+    }
+
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM sessions
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY created_at ${direction}, session_id ${direction}
+         LIMIT @limit`,
+      )
+      .all(params) as SessionRow[];
+
+    const sessions = rows.slice(0, query.limit).map(toRecord);
+    return {
+      sessions,
+      nextCursor:
+        rows.length > query.limit ? encodeCursor(sessions[sessions.length - 1]) : undefined,
+    };
+  }
+}
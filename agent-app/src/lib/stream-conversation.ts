@@ -0,0 +1,445 @@
+import type { ChatCompletionMessageFunctionToolCall } from "openai/resources/chat/completions";
+import {
+  END_CALL_LINE,
+  MAX_TOOL_ROUNDS,
+  runToolCall,
+  toolDefinitions,
+} from "@/lib/agent-tools";
+import { toFrames } from "@/lib/audio";
+import { buildVoiceScriptUrl } from "@/lib/call-launcher";
+import { bookCallback, extractCallbackTime } from "@/lib/callbacks";
+import { detectOptOut, OPT_OUT_GOODBYE, recordOptOut } from "@/lib/do-not-call";
+import { streamChat } from "@/lib/llm-providers";
+import {
+  checkReplyText,
+  missingDisclosures,
+  recordViolations,
+  replacementLine,
+  truncateReply,
+} from "@/lib/reply-policy";
+import {
+  appendMessage,
+  fallbackLine,
+  getMessagesForModel,
+  getSession,
+  recordingAnnouncement,
+  setPendingLine,
+  type AgentSessionConfig,
+  type CallSession,
+} from "@/lib/session-store";
+import type { SpeechServices } from "@/lib/speech-services";
+import {
+  detectEscalation,
+  transferTarget,
+  TRANSFER_LINE,
+  type Escalation,
+} from "@/lib/transfers";
+import { getTelephony } from "@/lib/telephony";
+
+/** Messages the server sends back over a Twilio Media Stream. */
+export type OutboundStreamMessage =
+  | { event: "media"; streamSid: string; media: { payload: string } }
+  | { event: "mark"; streamSid: string; mark: { name: string } }
+  | { event: "clear"; streamSid: string };
+
+type AfterReply = { type: "hangup" } | { type: "transfer"; escalation: Escalation };
+
+/** One spoken reply, from the first token until Twilio has played all of it. */
+type Reply = {
+  id: number;
+  controller: AbortController;
+  /** Sentences queued for playback, in order. Each is followed by a mark. */
+  sentences: string[];
+  /** Sentences Twilio has reported as played. */
+  played: number;
+  generating: boolean;
+  /** Model replies are added to the transcript once finished or interrupted. */
+  record: boolean;
+  /** Goodbyes and transfer lines play to the end even if the caller talks. */
+  interruptible: boolean;
+  callbackTime?: string;
+  /** Set on model replies, whose sentences the reply policy checks. */
+  policed?: AgentSessionConfig;
+  /** Characters of policed sentences queued so far. */
+  length: number;
+  /** The policy stopped the reply; later sentences are dropped. */
+  cut: boolean;
+  after?: AfterReply;
+  /** Starts the next reply once this one has played, e.g. the greeting after the announcement. */
+  next?: () => void;
+  playback: Promise<void>;
+};
+
+export type StreamConversation = {
+  /** Speaks `prompt`, or the agent's greeting and opening question. */
+  start: (prompt?: string) => void;
+  /** Base64 μ-law audio from a `media` message. */
+  handleAudio: (payload: string) => void;
+  handleMark: (name: string) => void;
+  close: () => void;
+};
+
+/** Ends a sentence at `.`, `!` or `?` followed by whitespace. */
+const SENTENCE_END = /^([\s\S]+?[.!?…]["')\]]*)\s+/;
+
+/**
+ * Runs one call over a Media Stream: caller audio goes to incremental
+ * speech-to-text, each finished utterance gets a streamed model reply, and
+ * the reply is synthesized and played sentence by sentence while the rest is
+ * still being generated. When the caller starts talking over the agent the
+ * queued audio is cleared and only what was played is kept in the transcript.
+ */
+export function createStreamConversation({
+  sessionId,
+  streamSid,
+  callSid,
+  services,
+  send,
+}: {
+  sessionId: string;
+  streamSid: string;
+  callSid?: string;
+  services: SpeechServices;
+  send: (message: OutboundStreamMessage) => void;
+}): StreamConversation {
+  const language = getSession(sessionId)?.config.language ?? "en-US";
+  let current: Reply | undefined;
+  let replyCount = 0;
+  let closed = false;
+
+  function beginReply(options: { record: boolean; interruptible: boolean }): Reply {
+    replyCount += 1;
+    current = {
+      id: replyCount,
+      controller: new AbortController(),
+      sentences: [],
+      played: 0,
+      length: 0,
+      cut: false,
+      generating: true,
+      playback: Promise.resolve(),
+      ...options,
+    };
+    return current;
+  }
+
+  function speak(reply: Reply, text: string) {
+    if (reply.cut) return;
+    const { reply: spoken, localTime } = extractCallbackTime(text);
+    const line = spoken && reply.policed ? police(reply, reply.policed, spoken) : spoken;
+    // A confirmation the policy replaced was never heard.
+    if (localTime && line === spoken) reply.callbackTime = localTime;
+    if (!line) return;
+
+    const index = reply.sentences.push(line) - 1;
+    const { signal } = reply.controller;
+    const audio = services.synthesize(line, { language, signal });
+
+    reply.playback = reply.playback
+      .then(async () => {
+        const frames = toFrames(await audio);
+        if (signal.aborted) return;
+        for (const frame of frames) {
+          send({ event: "media", streamSid, media: { payload: frame.toString("base64") } });
+        }
+        send({ event: "mark", streamSid, mark: { name: `${reply.id}:${index}` } });
+      })
+      .catch((error) => {
+        if (signal.aborted) return;
+        console.error("Speech synthesis failed", error);
+        handleMark(`${reply.id}:${index}`);
+      });
+  }
+
+  /**
+   * Checks one sentence of a model reply before it is synthesized. A
+   * violating sentence is swapped for the replacement line and ends the reply;
+   * so does passing `maxReplyLength`. The LLM judge needs whole replies and
+   * only runs on `<Gather>` turns.
+   */
+  function police(reply: Reply, config: AgentSessionConfig, sentence: string) {
+    const findings = checkReplyText(config, sentence);
+    if (findings.length > 0) {
+      reply.cut = true;
+      recordViolations(sessionId, sentence, "replaced", findings);
+      return replacementLine(config);
+    }
+
+    const maxLength = config.replyPolicy?.maxReplyLength;
+    if (maxLength && reply.length + sentence.length > maxLength) {
+      reply.cut = true;
+      recordViolations(sessionId, sentence, "truncated", [
+        { rule: "length", detail: `Reply passed ${maxLength} characters` },
+      ]);
+      return reply.length === 0 ? truncateReply(sentence, maxLength) : undefined;
+    }
+
+    reply.length += sentence.length + 1;
+    return sentence;
+  }
+
+  /** Speaks every complete sentence in `text` and returns the remainder. */
+  function speakSentences(reply: Reply, text: string): string {
+    let rest = text;
+    for (let match = rest.match(SENTENCE_END); match; match = rest.match(SENTENCE_END)) {
+      speak(reply, match[1]);
+      rest = rest.slice(match[0].length);
+    }
+    return rest;
+  }
+
+  function endGeneration(reply: Reply) {
+    reply.generating = false;
+    maybeFinish(reply);
+  }
+
+  function maybeFinish(reply: Reply) {
+    if (reply !== current || reply.generating || reply.played < reply.sentences.length) {
+      return;
+    }
+
+    current = undefined;
+    const session = getSession(sessionId);
+    if (reply.record) {
+      appendMessage(sessionId, "assistant", reply.sentences.join(" "));
+    }
+    if (session && reply.callbackTime && session.config.bookCallbacks) {
+      bookCallback(session, reply.callbackTime);
+    }
+    if (reply.after) {
+      void runAfterReply(reply.after);
+    }
+    if (!closed) reply.next?.();
+  }
+
+  /** Keeps what the caller actually heard of a reply that was cut short. */
+  function abandon(reply: Reply) {
+    reply.controller.abort();
+    current = undefined;
+    if (!reply.record) return;
+
+    const heard = reply.sentences.slice(0, reply.played).join(" ");
+    if (heard) appendMessage(sessionId, "assistant", heard);
+    appendMessage(
+      sessionId,
+      "system",
+      "The customer interrupted; the rest of the reply was not played.",
+    );
+  }
+
+  function interrupt() {
+    if (!current?.interruptible) return;
+    abandon(current);
+    send({ event: "clear", streamSid });
+  }
+
+  async function runAfterReply(after: AfterReply) {
+    if (!callSid) return;
+
+    try {
+      if (after.type === "hangup") {
+        await getTelephony().hangUp(callSid);
+        return;
+      }
+
+      const publicUrl = process.env.PUBLIC_BASE_URL;
+      if (!publicUrl) {
+        throw new Error("PUBLIC_BASE_URL is required to transfer streamed calls");
+      }
+      const url = new URL(buildVoiceScriptUrl(publicUrl, sessionId, "escalate"));
+      url.searchParams.set("trigger", after.escalation.trigger);
+      url.searchParams.set("reason", after.escalation.reason);
+      await getTelephony().redirect(callSid, url.toString());
+    } catch (error) {
+      console.error("Failed to redirect streamed call", error);
+    }
+  }
+
+  /** A fixed line that always plays to the end, then `after` runs. */
+  function say(line: string, after: AfterReply) {
+    const reply = beginReply({ record: false, interruptible: false });
+    reply.after = after;
+    speak(reply, line);
+    endGeneration(reply);
+  }
+
+  /**
+   * Streams the model reply into speech. Tool calls are accumulated from the
+   * deltas and run between rounds, as in the `<Gather>` flow.
+   */
+  async function streamReply(session: CallSession) {
+    const reply = beginReply({ record: true, interruptible: true });
+
+    if (session.pendingLine) {
+      setPendingLine(sessionId, undefined);
+      speak(reply, session.pendingLine);
+      endGeneration(reply);
+      return;
+    }
+
+    if (session.config.replyPolicy) {
+      // Nothing of the reply is known yet, so owed disclosures go first.
+      for (const disclosure of missingDisclosures(session)) {
+        speak(reply, disclosure);
+      }
+      reply.policed = session.config;
+    }
+
+    const tools = toolDefinitions(session.config.tools);
+    const messages = getMessagesForModel(sessionId);
+    let buffer = "";
+
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round += 1) {
+        const stream = streamChat(
+          session.config.llmProviders,
+          { messages, temperature: session.config.temperature, tools },
+          reply.controller.signal,
+        );
+
+        let content = "";
+        const toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
+        for await (const delta of stream) {
+          if (delta.content) {
+            content += delta.content;
+            buffer = speakSentences(reply, buffer + delta.content);
+            if (reply.cut) break;
+          }
+          for (const call of delta.tool_calls ?? []) {
+            const toolCall = (toolCalls[call.index] ??= {
+              id: "",
+              type: "function",
+              function: { name: "", arguments: "" },
+            });
+            toolCall.id ||= call.id ?? "";
+            toolCall.function.name += call.function?.name ?? "";
+            toolCall.function.arguments += call.function?.arguments ?? "";
+          }
+        }
+
+        if (reply.cut || toolCalls.length === 0) break;
+
+        messages.push({ role: "assistant", content: content || null, tool_calls: toolCalls });
+        const action = await runToolCalls(session, toolCalls, messages);
+        if (action) {
+          if (reply.sentences.length === 0 && !buffer.trim()) {
+            buffer = action.type === "transfer" ? TRANSFER_LINE : END_CALL_LINE;
+          }
+          reply.interruptible = false;
+          reply.after =
+            action.type === "transfer"
+              ? { type: "transfer", escalation: { trigger: "model", reason: action.reason } }
+              : { type: "hangup" };
+          if (action.type === "hangup") {
+            appendMessage(sessionId, "system", "Agent ended the call.");
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      if (reply.controller.signal.aborted) return;
+      console.error("Streamed reply failed", error);
+    }
+
+    if (reply.controller.signal.aborted) return;
+    speak(reply, buffer.trim());
+    if (reply.sentences.length === 0) {
+      speak(reply, fallbackLine());
+    }
+    endGeneration(reply);
+  }
+
+  async function runToolCalls(
+    session: CallSession,
+    toolCalls: ChatCompletionMessageFunctionToolCall[],
+    messages: ReturnType<typeof getMessagesForModel>,
+  ) {
+    for (const call of toolCalls) {
+      const result = await runToolCall(session, call);
+      if (result.action) return result.action;
+      messages.push({
+        role: "tool",
+        tool_call_id: call.id,
+        content: JSON.stringify(result.output),
+      });
+    }
+    return undefined;
+  }
+
+  async function respond(text: string) {
+    const speech = text.trim();
+    const session = getSession(sessionId);
+    if (!speech || !session || closed || session.aiPaused) return;
+    if (current && !current.interruptible) return;
+
+    interrupt();
+    appendMessage(sessionId, "user", speech);
+
+    if (detectOptOut(speech)) {
+      recordOptOut(session, speech);
+      say(OPT_OUT_GOODBYE, { type: "hangup" });
+      return;
+    }
+
+    const escalation = transferTarget(session.config) && detectEscalation(speech, session.config);
+    if (escalation) {
+      appendMessage(sessionId, "assistant", TRANSFER_LINE);
+      say(TRANSFER_LINE, { type: "transfer", escalation });
+      return;
+    }
+
+    await streamReply(session);
+  }
+
+  function handleMark(name: string) {
+    const [id, index] = name.split(":").map(Number);
+    if (!current || current.id !== id) return;
+    current.played = Math.max(current.played, index + 1);
+    maybeFinish(current);
+  }
+
+  const transcriber = services.createTranscriber({
+    language,
+    onSpeechStarted: interrupt,
+    onPartial: (text) => {
+      if (text.trim()) interrupt();
+    },
+    onFinal: (text) => void respond(text),
+  });
+
+  return {
+    start(prompt) {
+      const session = getSession(sessionId);
+      if (!session) return;
+
+      const greet = () => {
+        const reply = beginReply({ record: false, interruptible: true });
+        const line =
+          prompt ??
+          [session.config.greeting, session.config.openingQuestion].filter(Boolean).join(" ");
+        speak(reply, speakSentences(reply, line).trim());
+        endGeneration(reply);
+      };
+
+      // The consent notice plays in full before anything the caller can talk over.
+      const announcement = prompt ? undefined : recordingAnnouncement(session.config);
+      if (!announcement) {
+        greet();
+        return;
+      }
+      const reply = beginReply({ record: false, interruptible: false });
+      reply.next = greet;
+      speak(reply, speakSentences(reply, announcement).trim());
+      endGeneration(reply);
+    },
+    handleAudio(payload) {
+      transcriber.write(Buffer.from(payload, "base64"));
+    },
+    handleMark,
+    close() {
+      closed = true;
+      transcriber.close();
+      if (current?.interruptible) abandon(current);
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import VoiceResponse from "twilio/lib/twiml/VoiceResponse";
+import type { TelephonyProvider, VoiceOptions, VoiceStep } from "@/lib/telephony";
+import { getTwilioClient } from "@/lib/twilio";
+import { rejectUnsignedTwilioRequest } from "@/lib/twilio-signature";
+
+function buildTwiml(steps: VoiceStep[], voice: VoiceOptions): VoiceResponse {
+  const twiml = new VoiceResponse();
+  // Agent configs take any voice and language string; Twilio checks them when it speaks.
+  const sayAttributes: VoiceResponse.SayAttributes = {
+    voice: voice.voice as VoiceResponse.SayAttributes["voice"],
+    language: voice.language as VoiceResponse.SayAttributes["language"],
+  };
+
+  for (const step of steps) {
+    switch (step.type) {
+      case "say":
+        twiml.say(sayAttributes, step.text);
+        break;
+      case "gather": {
+        const gather = twiml.gather({
+          input: ["speech"],
+          action: step.actionUrl,
+          method: "POST",
+          speechTimeout: "auto",
+          speechModel: "experimental_conversations",
+          language: voice.language as VoiceResponse.GatherAttributes["language"],
+        });
+        gather.say(sayAttributes, step.prompt);
+        // Silence falls through to the same action with no SpeechResult.
+        twiml.redirect({ method: "POST" }, step.actionUrl);
+        break;
+      }
+      case "hangup":
+        twiml.hangup();
+        break;
+      case "dial": {
+        const dial = twiml.dial({
+          action: step.actionUrl,
+          method: "POST",
+          ...(step.callerId ? { callerId: step.callerId } : {}),
+          ...(step.timeoutSeconds ? { timeout: step.timeoutSeconds } : {}),
+        });
+        dial.number(step.whisperUrl ? { url: step.whisperUrl, method: "POST" } : {}, step.to);
+        break;
+      }
+      case "stream": {
+        const stream = twiml.connect().stream({ url: step.url });
+        for (const [name, value] of Object.entries(step.parameters)) {
+          stream.parameter({ name, value });
+        }
+        break;
+      }
+    }
+  }
+
+  return twiml;
+}
+
+async function readForm(request: Request): Promise<FormData> {
+  return request.method === "POST" ? request.formData() : new FormData();
+}
+
+export const twilioTelephony: TelephonyProvider = {
+  name: "twilio",
+  callerIdEnv: "TWILIO_CALLER_ID",
+  supportsMediaStreams: true,
+
+  async placeCall({ to, from, answerUrl, statusUrl, awaitVoicemailBeep, recordingStatusUrl }) {
+    const call = await getTwilioClient().calls.create({
+      to,
+      from,
+      url: answerUrl,
+      method: "GET",
+      statusCallback: statusUrl,
+      statusCallbackEvent: [
+        "initiated",
+        "queued",
+        "ringing",
+        "answered",
+        "completed",
+        "busy",
+        "failed",
+        "no-answer",
+        "canceled",
+      ],
+      statusCallbackMethod: "POST",
+      machineDetection: awaitVoicemailBeep ? "DetectMessageEnd" : "Enable",
+      machineDetectionTimeout: awaitVoicemailBeep ? 30 : 3,
+      ...(recordingStatusUrl
+        ? {
+            record: true,
+            recordingChannels: "dual",
+            recordingStatusCallback: recordingStatusUrl,
+            recordingStatusCallbackMethod: "POST",
+            recordingStatusCallbackEvent: ["completed", "absent"],
+          }
+        : {}),
+    });
+    return { callId: call.sid };
+  },
+
+  async hangUp(callId) {
+    await getTwilioClient().calls(callId).update({ status: "completed" });
+  },
+
+  async redirect(callId, url) {
+    await getTwilioClient().calls(callId).update({ url, method: "POST" });
+  },
+
+  async play(callId, steps, voice) {
+    await getTwilioClient()
+      .calls(callId)
+      .update({ twiml: buildTwiml(steps, voice).toString() });
+  },
+
+  render(steps, voice) {
+    return new Response(buildTwiml(steps, voice).toString(), {
+      status: 200,
+      headers: { "Content-Type": "text/xml" },
+    });
+  },
+
+  verifyWebhook: rejectUnsignedTwilioRequest,
+
+  parseAnswer(request) {
+    const answeredBy = new URL(request.url).searchParams.get("AnsweredBy");
+    return { answeredBy: answeredBy ?? undefined };
+  },
+
+  async parseSpeech(request) {
+    const formData = await readForm(request);
+    return (formData.get("SpeechResult") as string | null)?.trim() ?? "";
+  },
+
+  async parseDialResult(request) {
+    const formData = await readForm(request);
+    const duration = Number(formData.get("DialCallDuration") ?? Number.NaN);
+    return {
+      status: (formData.get("DialCallStatus") as string | null) ?? "failed",
+      durationSeconds: Number.isNaN(duration) ? undefined : duration,
+    };
+  },
+
+  async parseStatus(request) {
+    const formData = await readForm(request);
+    return {
+      callId: (formData.get("CallSid") as string | null) ?? undefined,
+      status: (formData.get("CallStatus") as string | null)?.toLowerCase(),
+      answeredBy: (formData.get("AnsweredBy") as string | null) ?? undefined,
+    };
+  },
+  async parseRecording(request) {
+    const formData = await readForm(request);
+    const recordingId = formData.get("RecordingSid") as string | null;
+    const status = formData.get("RecordingStatus") as string | null;
+    if (!recordingId || (status !== "completed" && status !== "absent" && status !== "failed")) {
+      return undefined;
+    }
+
+    const duration = Number(formData.get("RecordingDuration") ?? Number.NaN);
+    return {
+      recordingId,
+      url: (formData.get("RecordingUrl") as string | null) ?? "",
+      status: status === "completed" ? "completed" : "failed",
+      durationSeconds: Number.isNaN(duration) ? undefined : duration,
+    };
+  },
+
+  async fetchRecording(url, range) {
+    const credentials = Buffer.from(
+      `${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`,
+    ).toString("base64");
+    return fetch(`${url}.mp3`, {
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        ...(range ? { Range: range } : {}),
+      },
+    });
+  },
+
+  async deleteRecording(recordingId) {
+    await getTwilioClient().recordings(recordingId).remove();
+  },
+};
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { createHash, createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { vonageTelephony } from "@/lib/telephony-vonage";
+
+const SECRET = "vonage-signature-secret";
+const BODY = JSON.stringify({ uuid: "call-1", status: "answered" });
+
+function encode(value: unknown) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signPayload(payload: string, secret = SECRET) {
+  const header = encode({ alg: "HS256", typ: "JWT" });
+  const signature = createHmac("sha256", secret).update(`${header}.${payload}`).digest("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+function sign(claims: Record<string, unknown>, secret = SECRET) {
+  return signPayload(encode(claims), secret);
+}
+
+function webhook(token?: string, body = BODY) {
+  return new Request("https://agents.example.com/api/twilio-status", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      ...(token ? { authorization: `Bearer ${token}` } : {}),
+    },
+    body,
+  });
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+const payloadHash = createHash("sha256").update(BODY).digest("hex");
+
+describe("vonageTelephony.verifyWebhook", () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    process.env.VONAGE_SIGNATURE_SECRET = SECRET;
+    delete process.env.TWILIO_SKIP_SIGNATURE_VALIDATION;
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("accepts a fresh token that covers the body", async () => {
+    const token = sign({ iat: now(), payload_hash: payloadHash });
+    assert.equal(await vonageTelephony.verifyWebhook(webhook(token)), null);
+  });
+
+  it("rejects a missing token", async () => {
+    assert.equal((await vonageTelephony.verifyWebhook(webhook()))?.status, 403);
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    const token = sign({ iat: now(), payload_hash: payloadHash }, "someone-else");
+    assert.equal((await vonageTelephony.verifyWebhook(webhook(token)))?.status, 403);
+  });
+
+  it("rejects a body the token does not cover", async () => {
+    const token = sign({ iat: now(), payload_hash: payloadHash });
+    const response = await vonageTelephony.verifyWebhook(webhook(token, '{"status":"completed"}'));
+    assert.equal(response?.status, 403);
+  });
+
+  it("rejects a token without a payload hash when there is a body", async () => {
+    const token = sign({ iat: now() });
+    assert.equal((await vonageTelephony.verifyWebhook(webhook(token)))?.status, 403);
+    assert.equal(await vonageTelephony.verifyWebhook(webhook(token, "")), null);
+  });
+
+  it("rejects a malformed payload with 403 instead of throwing", async () => {
+    const token = signPayload(Buffer.from("not-json").toString("base64url"));
+    assert.equal((await vonageTelephony.verifyWebhook(webhook(token)))?.status, 403);
+  });
+
+  it("rejects expired and replayed tokens", async () => {
+    const expired = sign({ iat: now() - 30, exp: now() - 1, payload_hash: payloadHash });
+    const replayed = sign({ iat: now() - 3600, payload_hash: payloadHash });
+    const undated = sign({ payload_hash: payloadHash });
+
+    for (const token of [expired, replayed, undated]) {
+      assert.equal((await vonageTelephony.verifyWebhook(webhook(token)))?.status, 403);
+    }
+  });
+});
@@ -0,0 +1,339 @@
+import { createHash, createHmac, createSign, randomUUID, timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import type { TelephonyProvider, VoiceOptions, VoiceStep } from "@/lib/telephony";
+import { isBypassEnabled } from "@/lib/twilio-signature";
+
+/**
+ * Vonage Voice API adapter. Scripts are NCCOs, webhooks are JSON and REST
+ * calls are authorized with an application JWT. Statuses are translated to
+ * Twilio's names so retry policies and the dashboard read the same way.
+ */
+
+const CALLS_URL = "https://api.nexmo.com/v1/calls";
+
+/** Vonage call states and the Twilio status each one corresponds to. */
+const STATUS_NAMES: Record<string, string> = {
+  started: "initiated",
+  ringing: "ringing",
+  answered: "in-progress",
+  completed: "completed",
+  busy: "busy",
+  cancelled: "canceled",
+  failed: "failed",
+  rejected: "failed",
+  timeout: "no-answer",
+  unanswered: "no-answer",
+};
+
+/** Connect events that end a dial, as Twilio `DialCallStatus` values. */
+const DIAL_RESULTS: Record<string, string> = {
+  completed: "completed",
+  busy: "busy",
+  cancelled: "canceled",
+  failed: "failed",
+  rejected: "failed",
+  timeout: "no-answer",
+  unanswered: "no-answer",
+};
+
+type VonageEvent = {
+  uuid?: string;
+  status?: string;
+  sub_state?: string;
+  duration?: string;
+  speech?: { results?: { text?: string }[] };
+  /** Set on recording events. */
+  recording_uuid?: string;
+  recording_url?: string;
+  start_time?: string;
+  end_time?: string;
+};
+
+/** Vonage wants numbers as digits only. */
+function toVonageNumber(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, "");
+}
+
+function applicationToken(): string {
+  const applicationId = process.env.VONAGE_APPLICATION_ID;
+  const privateKey = process.env.VONAGE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+  if (!applicationId || !privateKey) {
+    throw new Error("VONAGE_APPLICATION_ID and VONAGE_PRIVATE_KEY are required for Vonage calls.");
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT" })).toString("base64url");
+  const payload = Buffer.from(
+    JSON.stringify({
+      application_id: applicationId,
+      iat: issuedAt,
+      exp: issuedAt + 300,
+      jti: randomUUID(),
+    }),
+  ).toString("base64url");
+  const signature = createSign("RSA-SHA256")
+    .update(`${header}.${payload}`)
+    .sign(privateKey)
+    .toString("base64url");
+
+  return `${header}.${payload}.${signature}`;
+}
+
+async function callsApi(path: string, method: "POST" | "PUT", body: unknown) {
+  const response = await fetch(`${CALLS_URL}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${applicationToken()}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Vonage ${method} ${path} failed (${response.status}): ${await response.text()}`);
+  }
+  return response.status === 204 ? undefined : (response.json() as Promise<{ uuid: string }>);
+}
+
+type NccoAction = Record<string, unknown>;
+
+function buildNcco(steps: VoiceStep[], voice: VoiceOptions): NccoAction[] {
+  // Vonage picks its own voice per language; the agent's Polly voice does not apply.
+  return steps.flatMap((step): NccoAction[] => {
+    switch (step.type) {
+      case "say":
+        return [{ action: "talk", text: step.text, language: voice.language }];
+      case "gather":
+        return [
+          { action: "talk", text: step.prompt, language: voice.language, bargeIn: true },
+          {
+            action: "input",
+            type: ["speech"],
+            eventUrl: [step.actionUrl],
+            eventMethod: "POST",
+            speech: { language: voice.language, endOnSilence: 1 },
+          },
+        ];
+      case "hangup":
+        // The call ends when the NCCO runs out.
+        return [];
+      case "dial":
+        return [
+          {
+            action: "connect",
+            from: toVonageNumber(step.callerId ?? process.env.VONAGE_NUMBER ?? ""),
+            timeout: step.timeoutSeconds ?? 60,
+            eventType: "synchronous",
+            eventUrl: [step.actionUrl],
+            eventMethod: "POST",
+            endpoint: [
+              {
+                type: "phone",
+                number: toVonageNumber(step.to),
+                ...(step.whisperUrl ? { onAnswer: { url: step.whisperUrl } } : {}),
+              },
+            ],
+          },
+        ];
+      case "stream":
+        throw new Error("Vonage calls do not support Media Streams");
+    }
+  });
+}
+
+async function readEvent(request: Request): Promise<VonageEvent> {
+  if (request.method !== "POST") return {};
+  return (request.json() as Promise<VonageEvent>).catch(() => ({}));
+}
+
+/** How old a webhook token may be, so a captured one cannot be replayed later. */
+const MAX_TOKEN_AGE_SECONDS = 300;
+
+/** Allowance for the provider's clock running ahead of ours. */
+const CLOCK_SKEW_SECONDS = 60;
+
+function isFresh(claims: { iat?: number; exp?: number }): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.iat !== "number") return false;
+  if (claims.iat > now + CLOCK_SKEW_SECONDS || now - claims.iat > MAX_TOKEN_AGE_SECONDS) return false;
+  return claims.exp === undefined || (typeof claims.exp === "number" && claims.exp > now);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export const vonageTelephony: TelephonyProvider = {
+  name: "vonage",
+  callerIdEnv: "VONAGE_NUMBER",
+  supportsMediaStreams: false,
+
+  async placeCall({ to, from, answerUrl, statusUrl, awaitVoicemailBeep, recordingStatusUrl }) {
+    const call = await callsApi("", "POST", {
+      to: [{ type: "phone", number: toVonageNumber(to) }],
+      from: { type: "phone", number: toVonageNumber(from) },
+      // Recording is an NCCO action, so recorded calls start one that
+      // records and then fetches the usual answer script via `notify`.
+      ...(recordingStatusUrl
+        ? {
+            ncco: [
+              {
+                action: "record",
+                eventUrl: [recordingStatusUrl],
+                eventMethod: "POST",
+                split: "conversation",
+                channels: 2,
+                format: "mp3",
+              },
+              { action: "notify", payload: {}, eventUrl: [answerUrl], eventMethod: "GET" },
+            ],
+          }
+        : { answer_url: [answerUrl], answer_method: "GET" }),
+      event_url: [statusUrl],
+      event_method: "POST",
+      ...(awaitVoicemailBeep
+        ? { advanced_machine_detection: { behavior: "continue", mode: "detect_beep" } }
+        : { machine_detection: "continue" }),
+    });
+    return { callId: call!.uuid };
+  },
+
+  async hangUp(callId) {
+    await callsApi(`/${callId}`, "PUT", { action: "hangup" });
+  },
+
+  async redirect(callId, url) {
+    await callsApi(`/${callId}`, "PUT", {
+      action: "transfer",
+      destination: { type: "ncco", url: [url] },
+    });
+  },
+
+  async play(callId, steps, voice) {
+    await callsApi(`/${callId}`, "PUT", {
+      action: "transfer",
+      destination: { type: "ncco", ncco: buildNcco(steps, voice) },
+    });
+  },
+
+  render(steps, voice) {
+    return NextResponse.json(buildNcco(steps, voice));
+  },
+
+  /**
+   * Signed webhooks carry an HS256 JWT made with `VONAGE_SIGNATURE_SECRET`;
+   * its `payload_hash` claim covers the body. Tokens older than five minutes
+   * or past their `exp` are rejected.
+   */
+  async verifyWebhook(request) {
+    if (isBypassEnabled()) return null;
+
+    const secret = process.env.VONAGE_SIGNATURE_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: "VONAGE_SIGNATURE_SECRET is required to verify Vonage webhooks." },
+        { status: 500 },
+      );
+    }
+
+    const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+    const [header, payload, signature] = token?.split(".") ?? [];
+    if (!header || !payload || !signature) {
+      return NextResponse.json({ error: "Missing Vonage signature" }, { status: 403 });
+    }
+
+    const expected = createHmac("sha256", secret)
+      .update(`${header}.${payload}`)
+      .digest("base64url");
+    if (!safeEqual(signature, expected)) {
+      return NextResponse.json({ error: "Invalid Vonage signature" }, { status: 403 });
+    }
+
+    let claims: { iat?: number; exp?: number; payload_hash?: string };
+    try {
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString()) ?? {};
+    } catch {
+      return NextResponse.json({ error: "Invalid Vonage signature" }, { status: 403 });
+    }
+
+    if (!isFresh(claims)) {
+      return NextResponse.json({ error: "Expired Vonage signature" }, { status: 403 });
+    }
+
+    // A token without `payload_hash` only vouches for a request with no body.
+    const body = await request.clone().text();
+    const bodyHash =
+      body || claims.payload_hash
+        ? createHash("sha256").update(body).digest("hex")
+        : undefined;
+    if (bodyHash !== claims.payload_hash) {
+      return NextResponse.json({ error: "Invalid Vonage signature" }, { status: 403 });
+    }
+    return null;
+  },
+
+  // Machine detection arrives later as a status event; the status webhook
+  // transfers the call to the voicemail then.
+  parseAnswer: () => ({}),
+
+  async parseSpeech(request) {
+    const event = await readEvent(request);
+    return event.speech?.results?.[0]?.text?.trim() ?? "";
+  },
+
+  async parseDialResult(request) {
+    const event = await readEvent(request);
+    const status = DIAL_RESULTS[event.status ?? ""];
+    if (!status) return undefined;
+
+    const duration = Number(event.duration ?? Number.NaN);
+    return { status, durationSeconds: Number.isNaN(duration) ? undefined : duration };
+  },
+
+  async parseStatus(request) {
+    const event = await readEvent(request);
+    const answeredBy =
+      event.status === "human"
+        ? "human"
+        : event.status === "machine"
+          ? event.sub_state === "beep_start"
+            ? "machine_end_beep"
+            : "machine_start"
+          : undefined;
+
+    return {
+      callId: event.uuid,
+      status: STATUS_NAMES[event.status ?? ""],
+      answeredBy,
+    };
+  },
+  async parseRecording(request) {
+    const event = await readEvent(request);
+    if (!event.recording_uuid || !event.recording_url) return undefined;
+
+    const duration =
+      event.start_time && event.end_time
+        ? Math.round((Date.parse(event.end_time) - Date.parse(event.start_time)) / 1000)
+        : Number.NaN;
+    return {
+      recordingId: event.recording_uuid,
+      url: event.recording_url,
+      status: "completed",
+      durationSeconds: Number.isNaN(duration) ? undefined : duration,
+    };
+  },
+
+  async fetchRecording(url, range) {
+    return fetch(url, {
+      headers: {
+        Authorization: `Bearer ${applicationToken()}`,
+        ...(range ? { Range: range } : {}),
+      },
+    });
+  },
+
+  // Vonage offers no delete for call recordings and removes them after 30 days.
+  async deleteRecording() {},
+};
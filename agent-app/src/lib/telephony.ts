@@ -0,0 +1,108 @@
+import { twilioTelephony } from "@/lib/telephony-twilio";
+import { vonageTelephony } from "@/lib/telephony-vonage";
+
+/**
+ * One instruction in a call script. Adapters translate a list of steps into
+ * their own format, e.g. TwiML for Twilio or an NCCO for Vonage.
+ */
+export type VoiceStep =
+  | { type: "say"; text: string }
+  /**
+   * Says `prompt`, listens for one utterance and posts the result to
+   * `actionUrl`. Silence posts an empty result to the same URL.
+   */
+  | { type: "gather"; prompt: string; actionUrl: string }
+  | { type: "hangup" }
+  /**
+   * Bridges the caller to `to`. The outcome is posted to `actionUrl`; with
+   * `whisperUrl`, the callee hears that script before being connected.
+   */
+  | {
+      type: "dial";
+      to: string;
+      actionUrl: string;
+      callerId?: string;
+      timeoutSeconds?: number;
+      whisperUrl?: string;
+    }
+  /** Hands the audio to a Media Streams WebSocket. */
+  | { type: "stream"; url: string; parameters: Record<string, string> };
+
+/** How the agent sounds. Adapters use what their text-to-speech supports. */
+export type VoiceOptions = { voice: string; language: string };
+
+/** A status webhook, with the status in Twilio's vocabulary (`busy`, `no-answer`, ...). */
+export type CallStatusEvent = {
+  callId?: string;
+  status?: string;
+  answeredBy?: string;
+};
+
+/** A finished call recording as reported to the recording webhook. */
+export type RecordingEvent = {
+  recordingId: string;
+  /** Where the provider serves the audio; fetched with `fetchRecording`. */
+  url: string;
+  /** `failed` also covers calls that ended without any audio. */
+  status: "completed" | "failed";
+  durationSeconds?: number;
+};
+
+/** Outcome of a `dial` step, named like Twilio's `DialCallStatus`. */
+export type DialResult = { status: string; durationSeconds?: number };
+
+export type PlaceCallInput = {
+  to: string;
+  from: string;
+  answerUrl: string;
+  statusUrl: string;
+  /** Wait for the greeting to end so a voicemail drop lands on the recording. */
+  awaitVoicemailBeep: boolean;
+  /** Records the whole call and reports the file to this webhook. */
+  recordingStatusUrl?: string;
+};
+
+export type TelephonyProvider = {
+  name: "twilio" | "vonage";
+  /** Environment variable holding the number calls are placed from. */
+  callerIdEnv: string;
+  /** Whether `stream` steps work, i.e. the provider speaks the Media Streams protocol. */
+  supportsMediaStreams: boolean;
+  placeCall: (input: PlaceCallInput) => Promise<{ callId: string }>;
+  hangUp: (callId: string) => Promise<void>;
+  /** Moves a live call to the script served at `url`. */
+  redirect: (callId: string, url: string) => Promise<void>;
+  /** Replaces what a live call is doing with `steps`. */
+  play: (callId: string, steps: VoiceStep[], voice: VoiceOptions) => Promise<void>;
+  /** The webhook response for `steps`. */
+  render: (steps: VoiceStep[], voice: VoiceOptions) => Response;
+  /** Returns an error response when the webhook is not signed by the provider. */
+  verifyWebhook: (request: Request) => Promise<Response | null>;
+  /** Answering machine result when it is known at answer time. */
+  parseAnswer: (request: Request) => { answeredBy?: string };
+  /** What the caller said for a `gather` step; empty when nothing was heard. */
+  parseSpeech: (request: Request) => Promise<string>;
+  /** `undefined` for progress events that do not end the dial. */
+  parseDialResult: (request: Request) => Promise<DialResult | undefined>;
+  parseStatus: (request: Request) => Promise<CallStatusEvent>;
+  /** `undefined` for progress events that do not finish a recording. */
+  parseRecording: (request: Request) => Promise<RecordingEvent | undefined>;
+  /** The recording's audio, fetched with the provider's credentials. Forwards `range`. */
+  fetchRecording: (url: string, range?: string) => Promise<Response>;
+  deleteRecording: (recordingId: string) => Promise<void>;
+};
+
+const providers: Record<TelephonyProvider["name"], TelephonyProvider> = {
+  twilio: twilioTelephony,
+  vonage: vonageTelephony,
+};
+
+/** The adapter chosen by `TELEPHONY_PROVIDER`, Twilio by default. */
+export function getTelephony(): TelephonyProvider {
+  const name = process.env.TELEPHONY_PROVIDER ?? "twilio";
+  const provider = providers[name as TelephonyProvider["name"]];
+  if (!provider) {
+    throw new Error(`Unknown TELEPHONY_PROVIDER "${name}". Use "twilio" or "vonage".`);
+  }
+  return provider;
+}
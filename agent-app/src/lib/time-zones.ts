@@ -0,0 +1,133 @@
+/**
+ * Best-effort callee time zones from E.164 numbers. North American numbers
+ * resolve by area code; elsewhere by country code, using the most populous
+ * zone for countries that span several. Unknown prefixes resolve to
+ * `undefined` so callers can fall back to an explicit zone.
+ */
+
+const NANP_ZONES: Record<string, string> = {
+  "America/New_York":
+    "201 202 203 207 212 215 216 220 223 226 229 231 234 239 240 248 249 252 267 269 272 276 289 301 302 304 305 313 315 321 326 330 332 336 339 343 347 351 352 365 367 380 382 386 401 404 407 410 412 413 416 418 419 423 434 437 438 440 443 450 470 475 478 484 502 508 513 514 516 517 518 519 540 548 551 561 567 570 571 579 581 585 586 603 606 607 609 610 613 614 616 617 631 646 647 656 678 680 681 689 703 704 705 706 716 717 718 724 727 732 734 740 743 754 757 762 770 772 774 781 786 802 803 804 810 813 814 819 828 835 838 839 843 845 848 854 856 857 859 860 862 863 864 865 873 878 904 906 908 910 912 914 917 919 929 930 934 937 941 947 954 959 973 978 980 984 989",
+  "America/Chicago":
+    "205 210 214 217 218 224 225 228 251 254 256 262 270 281 309 312 314 316 318 319 320 325 331 334 337 346 361 402 405 409 414 417 430 432 447 464 469 479 501 504 507 512 515 531 534 539 563 573 580 601 605 608 612 618 620 630 636 641 651 660 662 682 708 712 713 715 726 731 737 763 769 773 779 785 806 815 816 817 830 832 847 870 872 901 903 913 918 920 931 936 938 940 945 952 956 972 979 985",
+  "America/Winnipeg": "204 431",
+  "America/Regina": "306 639",
+  "America/Denver": "303 307 385 406 435 505 575 719 720 801 915 970 983",
+  "America/Boise": "208 986",
+  "America/Edmonton": "368 403 587 780 825",
+  "America/Phoenix": "480 520 602 623 928",
+  "America/Los_Angeles":
+    "206 209 213 253 279 310 323 341 350 360 369 408 415 424 425 442 458 503 509 510 530 541 559 562 564 619 626 628 650 657 661 669 702 707 714 725 747 760 775 805 818 820 831 840 858 909 916 925 949 951 971",
+  "America/Vancouver": "236 250 604 672 778",
+  "America/Anchorage": "907",
+  "Pacific/Honolulu": "808",
+  "America/Halifax": "782 902",
+  "America/Moncton": "506",
+  "America/St_Johns": "709",
+  "America/Puerto_Rico": "787 939",
+};
+
+const AREA_CODE_ZONES = new Map(
+  Object.entries(NANP_ZONES).flatMap(([zone, codes]) =>
+    codes.split(" ").map((code) => [code, zone] as const),
+  ),
+);
+
+/** Country calling codes; three-digit codes are checked before two-digit ones. */
+const COUNTRY_ZONES: Record<string, string> = {
+  "20": "Africa/Cairo",
+  "27": "Africa/Johannesburg",
+  "30": "Europe/Athens",
+  "31": "Europe/Amsterdam",
+  "32": "Europe/Brussels",
+  "33": "Europe/Paris",
+  "34": "Europe/Madrid",
+  "36": "Europe/Budapest",
+  "39": "Europe/Rome",
+  "40": "Europe/Bucharest",
+  "41": "Europe/Zurich",
+  "43": "Europe/Vienna",
+  "44": "Europe/London",
+  "45": "Europe/Copenhagen",
+  "46": "Europe/Stockholm",
+  "47": "Europe/Oslo",
+  "48": "Europe/Warsaw",
+  "49": "Europe/Berlin",
+  "51": "America/Lima",
+  "52": "America/Mexico_City",
+  "54": "America/Argentina/Buenos_Aires",
+  "55": "America/Sao_Paulo",
+  "56": "America/Santiago",
+  "57": "America/Bogota",
+  "60": "Asia/Kuala_Lumpur",
+  "62": "Asia/Jakarta",
+  "63": "Asia/Manila",
+  "64": "Pacific/Auckland",
+  "65": "Asia/Singapore",
+  "66": "Asia/Bangkok",
+  "81": "Asia/Tokyo",
+  "82": "Asia/Seoul",
+  "84": "Asia/Ho_Chi_Minh",
+  "86": "Asia/Shanghai",
+  "90": "Europe/Istanbul",
+  "91": "Asia/Kolkata",
+  "92": "Asia/Karachi",
+  "234": "Africa/Lagos",
+  "254": "Africa/Nairobi",
+  "351": "Europe/Lisbon",
+  "353": "Europe/Dublin",
+  "358": "Europe/Helsinki",
+  "420": "Europe/Prague",
+  "852": "Asia/Hong_Kong",
+  "886": "Asia/Taipei",
+  "966": "Asia/Riyadh",
+  "971": "Asia/Dubai",
+  "972": "Asia/Jerusalem",
+};
+
+/** Australian geographic area codes, by the digit after +61. */
+const AUSTRALIA_ZONES: Record<string, string> = {
+  "2": "Australia/Sydney",
+  "3": "Australia/Melbourne",
+  "7": "Australia/Brisbane",
+  "8": "Australia/Adelaide",
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The zone a callee's local times are expressed in, falling back to the server's. */
+export function resolveTimeZone(phoneNumber: string, override?: string): string {
+  return (
+    override ??
+    inferTimeZone(phoneNumber) ??
+    Intl.DateTimeFormat().resolvedOptions().timeZone
+  );
+}
+
+export function inferTimeZone(phoneNumber: string): string | undefined {
+  const digits = phoneNumber.replace(/[^\d+]/g, "");
+  if (!digits.startsWith("+")) return undefined;
+  const number = digits.slice(1);
+
+  if (number.startsWith("1")) {
+    return AREA_CODE_ZONES.get(number.slice(1, 4));
+  }
+
+  if (number.startsWith("61")) {
+    return AUSTRALIA_ZONES[number[2]];
+  }
+
+  for (const length of [3, 2]) {
+    const zone = COUNTRY_ZONES[number.slice(0, length)];
+    if (zone) return zone;
+  }
+
+  return undefined;
+}
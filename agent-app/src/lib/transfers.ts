@@ -0,0 +1,128 @@
+import { completeChat } from "@/lib/llm-providers";
+import {
+  setTransfer,
+  type AgentSessionConfig,
+  type CallSession,
+  type TransferStatus,
+  type TransferTrigger,
+} from "@/lib/session-store";
+
+/**
+ * Phrases that count as asking for a person. Matched like opt-outs: on word
+ * boundaries, ignoring case and punctuation.
+ */
+const HUMAN_REQUEST_PATTERNS = [
+  /\b(speak|talk) (to|with) (a |an |the |some )?(real |live )?(human|person|manager|supervisor|representative|someone)\b/,
+  /\b(transfer|put|connect) me (to|through to|with) (a |an |the |some )?(real |live )?(human|person|manager|supervisor|representative|someone)\b/,
+  /\b(real|live) (person|human)\b/,
+  /\bhuman being\b/,
+];
+
+export const TRANSFER_LINE = "One moment, I'm connecting you with a colleague now.";
+
+export const TRANSFER_FAILED_LINE =
+  "I'm sorry, nobody is free to take the call right now. I'm happy to keep helping in the meantime.";
+
+export type Escalation = { trigger: TransferTrigger; reason: string };
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/[^\w\s']/g, " ")
+    .replace(/\s+/g, " ");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Number escalations dial, or `undefined` when the agent cannot transfer. */
+export function transferTarget(config: AgentSessionConfig): string | undefined {
+  return config.transferNumber || process.env.OPERATOR_PHONE_NUMBER || undefined;
+}
+
+/** Checks the agent's keyword rules, then generic requests for a person. */
+export function detectEscalation(
+  speech: string,
+  config: AgentSessionConfig,
+): Escalation | undefined {
+  const normalized = normalize(speech);
+
+  const keyword = config.escalationKeywords?.find((phrase) =>
+    new RegExp(`\\b${escapeRegExp(normalize(phrase).trim())}\\b`).test(normalized),
+  );
+  if (keyword) {
+    return { trigger: "keyword", reason: `Customer said "${keyword}"` };
+  }
+
+  if (HUMAN_REQUEST_PATTERNS.some((pattern) => pattern.test(normalized))) {
+    return { trigger: "intent", reason: "Customer asked for a person" };
+  }
+
+  return undefined;
+}
+
+export function beginTransfer(session: CallSession, to: string, escalation: Escalation) {
+  setTransfer(session.sessionId, {
+    to,
+    trigger: escalation.trigger,
+    reason: escalation.reason,
+    status: "dialing",
+    startedAt: new Date().toISOString(),
+  });
+}
+
+export function markTransferConnected(session: CallSession) {
+  if (!session.transfer) return;
+  setTransfer(session.sessionId, { ...session.transfer, status: "connected" });
+}
+
+/** Records how the human leg ended, from Twilio's `DialCallStatus`. */
+export function finishTransfer(
+  session: CallSession,
+  dialStatus: string,
+  durationSeconds?: number,
+) {
+  if (!session.transfer) return;
+  setTransfer(session.sessionId, {
+    ...session.transfer,
+    status: dialStatus as TransferStatus,
+    endedAt: new Date().toISOString(),
+    durationSeconds,
+  });
+}
+
+/** A two-sentence briefing read to the human before they are connected. */
+export async function summarizeForWhisper(session: CallSession): Promise<string> {
+  const fallback = [
+    `${session.config.customerName ?? "The customer"} is being transferred by ${session.config.agentName}.`,
+    session.transfer && `${session.transfer.reason}.`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const transcriptText = session.transcript
+    .filter((turn) => turn.role === "user" || turn.role === "assistant")
+    .map((turn) => `${turn.role.toUpperCase()}: ${turn.content}`)
+    .join("\n");
+  if (!transcriptText) return fallback;
+
+  try {
+    const message = await completeChat(session.config.llmProviders, {
+      temperature: 0.2,
+      messages: [
+        {
+          role: "system",
+          content:
+            "You brief a human colleague who is about to take over a phone call. In at most two short spoken sentences, say who the customer is, what they want and anything already promised. No markdown.",
+        },
+        { role: "user", content: transcriptText },
+      ],
+    });
+
+    return message.content?.trim() || fallback;
+  } catch {
+    return fallback;
+  }
+}
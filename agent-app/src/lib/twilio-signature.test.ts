@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { rejectUnsignedTwilioRequest } from "@/lib/twilio-signature";
+
+const AUTH_TOKEN = "twilio-auth-token";
+const PUBLIC_URL = "https://agents.example.com";
+
+/** Twilio's scheme: HMAC-SHA1 over the URL followed by each sorted param's name and value. */
+function sign(url: string, params: Record<string, string> = {}, token = AUTH_TOKEN) {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  return createHmac("sha1", token).update(data).digest("base64");
+}
+
+function webhook(path: string, init: { signature?: string; params?: Record<string, string> } = {}) {
+  // Arrives on the tunnel's host; the signature covers the public URL.
+  const url = `http://localhost:3000${path}`;
+  const headers: Record<string, string> = init.signature ? { "x-twilio-signature": init.signature } : {};
+
+  if (!init.params) return new Request(url, { headers });
+
+  return new Request(url, {
+    method: "POST",
+    headers: { ...headers, "content-type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(init.params).toString(),
+  });
+}
+
+describe("rejectUnsignedTwilioRequest", () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    process.env.TWILIO_AUTH_TOKEN = AUTH_TOKEN;
+    process.env.PUBLIC_BASE_URL = PUBLIC_URL;
+    delete process.env.TWILIO_SKIP_SIGNATURE_VALIDATION;
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("accepts a signed GET", async () => {
+    const path = "/api/voice-script?session=abc";
+    const request = webhook(path, { signature: sign(`${PUBLIC_URL}${path}`) });
+
+    assert.equal(await rejectUnsignedTwilioRequest(request), null);
+  });
+
+  it("accepts a signed POST and leaves the body readable", async () => {
+    const path = "/api/twilio-status?session=abc";
+    const params = { CallSid: "CA123", CallStatus: "completed" };
+    const request = webhook(path, { signature: sign(`${PUBLIC_URL}${path}`, params), params });
+
+    assert.equal(await rejectUnsignedTwilioRequest(request), null);
+    assert.equal((await request.formData()).get("CallStatus"), "completed");
+  });
+
+  it("rejects a wrong signature", async () => {
+    const path = "/api/twilio-status";
+    const params = { CallSid: "CA123", CallStatus: "completed" };
+    const forged = sign(`${PUBLIC_URL}${path}`, { ...params, CallStatus: "busy" });
+
+    const response = await rejectUnsignedTwilioRequest(webhook(path, { signature: forged, params }));
+
+    assert.equal(response?.status, 403);
+    assert.deepEqual(await response?.json(), { error: "Invalid Twilio signature" });
+  });
+
+  it("rejects a missing signature", async () => {
+    const response = await rejectUnsignedTwilioRequest(webhook("/api/voice-script"));
+
+    assert.equal(response?.status, 403);
+    assert.deepEqual(await response?.json(), { error: "Missing Twilio signature" });
+  });
+
+  it("honours the bypass flag only outside production", async () => {
+    process.env.TWILIO_SKIP_SIGNATURE_VALIDATION = "true";
+
+    Object.assign(process.env, { NODE_ENV: "development" });
+    assert.equal(await rejectUnsignedTwilioRequest(webhook("/api/voice-script")), null);
+
+    Object.assign(process.env, { NODE_ENV: "production" });
+    assert.equal((await rejectUnsignedTwilioRequest(webhook("/api/voice-script")))?.status, 403);
+  });
+});
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { validateRequest } from "twilio/lib/webhooks/webhooks";
+
+/**
+ * Skips validation outside production when `TWILIO_SKIP_SIGNATURE_VALIDATION`
+ * is "true", e.g. for local tools that cannot sign requests.
+ */
+export function isBypassEnabled(): boolean {
+  return (
+    process.env.NODE_ENV !== "production" &&
+    process.env.TWILIO_SKIP_SIGNATURE_VALIDATION === "true"
+  );
+}
+
+/**
+ * Twilio signs the public URL it called, so rebuild it from `PUBLIC_BASE_URL`
+ * rather than trusting the host the request arrived on behind a tunnel.
+ */
+function buildSignedUrl(request: Request, publicUrl: string): string {
+  const url = new URL(request.url);
+  return new URL(`${url.pathname}${url.search}`, publicUrl).toString();
+}
+
+/**
+ * Checks the signature Twilio sends when it opens a Media Stream WebSocket.
+ * It covers the stream URL from the TwiML and no parameters.
+ */
+export function isSignedMediaStream(signature: string | undefined, streamUrl: string): boolean {
+  if (isBypassEnabled()) return true;
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  return Boolean(
+    authToken && signature && validateRequest(authToken, signature, streamUrl, {}),
+  );
+}
+
+async function readSignedParams(request: Request): Promise<Record<string, string>> {
+  if (request.method !== "POST") return {};
+
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.includes("application/x-www-form-urlencoded")) return {};
+
+  const formData = await request.clone().formData();
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value;
+  });
+  return params;
+}
+
+/**
+ * Verifies `X-Twilio-Signature` for a webhook request. Returns an error
+ * response to send back when the request must be rejected, or `null` when the
+ * handler may continue. The request body is left unread.
+ */
+export async function rejectUnsignedTwilioRequest(
+  request: Request,
+): Promise<Response | null> {
+  if (isBypassEnabled()) return null;
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const publicUrl = process.env.PUBLIC_BASE_URL;
+
+  if (!authToken || !publicUrl) {
+    return NextResponse.json(
+      {
+        error:
+          "TWILIO_AUTH_TOKEN and PUBLIC_BASE_URL are required to verify Twilio webhooks.",
+      },
+      { status: 500 },
+    );
+  }
+
+  const signature = request.headers.get("x-twilio-signature");
+  if (!signature) {
+    return NextResponse.json(
+      { error: "Missing Twilio signature" },
+      { status: 403 },
+    );
+  }
+
+  const params = await readSignedParams(request);
+  const valid = validateRequest(
+    authToken,
+    signature,
+    buildSignedUrl(request, publicUrl),
+    params,
+  );
+
+  if (!valid) {
+    return NextResponse.json(
+      { error: "Invalid Twilio signature" },
+      { status: 403 },
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { agentConfigSchema, toSessionInput } from "@/lib/agent-config";
+import { MemorySessionStorage, setSessionStorage } from "@/lib/session-storage";
+import { createSession, getSession } from "@/lib/session-store";
+import { isReadyForVoicemail, leaveVoicemail } from "@/lib/voicemail";
+
+const agent = agentConfigSchema.parse({
+  agentName: "Ava",
+  greeting: "Hi there, this is Ava.",
+  objective: "Book a solar review",
+  voice: "Polly.Joanna",
+  language: "en-US",
+  voicemailMessage: "Hi {{customerName}}, Ava here. Call us back on {{callbackNumber}}.",
+  callbackNumber: "+1 415 555 0100",
+});
+
+function placeCall(config = agent) {
+  return createSession(
+    toSessionInput(config, {
+      sessionId: crypto.randomUUID(),
+      targetNumber: "+14155550123",
+      customerName: "Jo",
+    }),
+  );
+}
+
+describe("leaveVoicemail", () => {
+  beforeEach(() => setSessionStorage(new MemorySessionStorage()));
+
+  it("waits for the beep before leaving a message", () => {
+    const { config } = placeCall();
+
+    assert.equal(isReadyForVoicemail(config, "machine_start"), false);
+    assert.equal(isReadyForVoicemail(config, "machine_end_beep"), true);
+    assert.equal(isReadyForVoicemail({ ...config, voicemailMessage: undefined }, "machine_start"), true);
+  });
+
+  it("speaks the message, hangs up and marks the session", () => {
+    const session = placeCall();
+
+    const steps = leaveVoicemail(session, "machine_end_beep");
+
+    assert.deepEqual(steps, [
+      { type: "say", text: "Hi Jo, Ava here. Call us back on +1 415 555 0100." },
+      { type: "hangup" },
+    ]);
+    assert.equal(getSession(session.sessionId)?.status, "voicemail");
+  });
+});
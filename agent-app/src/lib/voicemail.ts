@@ -0,0 +1,59 @@
+import { renderTemplate } from "@/lib/agent-config";
+import {
+  appendMessage,
+  updateStatus,
+  type AgentSessionConfig,
+  type CallSession,
+} from "@/lib/session-store";
+import type { VoiceStep } from "@/lib/telephony";
+
+/**
+ * Twilio reports `machine_start` with `machineDetection: "Enable"` and one of
+ * the `machine_end_*` values once the greeting ends with `DetectMessageEnd`.
+ */
+export function isMachineAnswer(
+  answeredBy: string | null | undefined,
+): answeredBy is string {
+  return Boolean(answeredBy?.startsWith("machine_"));
+}
+
+export function renderVoicemail(config: AgentSessionConfig): string | undefined {
+  if (!config.voicemailMessage?.trim()) return undefined;
+
+  return renderTemplate(config.voicemailMessage, {
+    ...config.variables,
+    customerName: config.customerName,
+    company: config.company,
+    agentName: config.agentName,
+    callbackNumber: config.callbackNumber ?? process.env.TWILIO_CALLER_ID,
+  });
+}
+
+/**
+ * Whether to speak now. With a message to leave, `machine_start` is too
+ * early: the greeting is still playing, so wait for the beep.
+ */
+export function isReadyForVoicemail(config: AgentSessionConfig, answeredBy: string): boolean {
+  return answeredBy !== "machine_start" || !renderVoicemail(config);
+}
+
+/** Leaves the agent's message, if any, hangs up and marks the session `voicemail`. */
+export function leaveVoicemail(session: CallSession, answeredBy: string): VoiceStep[] {
+  const steps: VoiceStep[] = [];
+  const message = renderVoicemail(session.config);
+
+  appendMessage(
+    session.sessionId,
+    "system",
+    `Answering machine detected (${answeredBy}).`,
+  );
+
+  if (message) {
+    appendMessage(session.sessionId, "assistant", message);
+    steps.push({ type: "say", text: message });
+  }
+
+  steps.push({ type: "hangup" });
+  updateStatus(session.sessionId, "voicemail");
+  return steps;
+}